@@ -0,0 +1,89 @@
+/**
+ * 正文中的别名指向指令，如 <!-- cw:老王=王大锤 -->
+ */
+export interface AliasDirective {
+  /** 被指定的关键字或别名 */
+  variant: string;
+  /** 指向的设定标题 */
+  target: string;
+  /** 生效范围（文本偏移，左闭右开） */
+  from: number;
+  to: number;
+  /** chapter：单独成行，自该处起到本章结束；paragraph：写在段落内，仅对该段生效 */
+  scope: "chapter" | "paragraph";
+}
+
+const DIRECTIVE_PATTERN = /<!--\s*cw[:：]([\s\S]*?)-->/g;
+
+/**
+ * 别名指向指令解析
+ * 一条指令可包含多组“别名=设定”，用逗号或分号分隔
+ */
+export class AliasDirectiveCodec {
+  /**
+   * 文本中是否可能包含指令（用于跳过无指令文本的解析）
+   */
+  mayContainDirective(text: string): boolean {
+    return text.includes("<!--") && /cw[:：]/.test(text);
+  }
+
+  parse(text: string): AliasDirective[] {
+    const directives: AliasDirective[] = [];
+    if (!this.mayContainDirective(text)) return directives;
+
+    DIRECTIVE_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null = null;
+    while ((match = DIRECTIVE_PATTERN.exec(text)) !== null) {
+      const directiveFrom = match.index;
+      const directiveTo = match.index + match[0].length;
+      const lineStart = text.lastIndexOf("\n", directiveFrom - 1) + 1;
+      const nextLineBreak = text.indexOf("\n", directiveTo);
+      const lineEnd = nextLineBreak === -1 ? text.length : nextLineBreak;
+
+      const restOfLine = (text.slice(lineStart, directiveFrom) + text.slice(directiveTo, lineEnd))
+        .replace(/<!--[\s\S]*?-->/g, "")
+        .trim();
+      const scope = restOfLine ? "paragraph" : "chapter";
+      const from = scope === "paragraph" ? lineStart : directiveTo;
+      const to = scope === "paragraph" ? lineEnd : text.length;
+
+      for (const pair of (match[1] ?? "").split(/[，,；;]/)) {
+        const [rawVariant, rawTarget] = pair.split(/[=＝]/);
+        const variant = (rawVariant ?? "").trim();
+        const target = (rawTarget ?? "").trim();
+        if (!variant || !target) continue;
+        directives.push({ variant, target, from, to, scope });
+      }
+    }
+    return directives;
+  }
+
+  /**
+   * 指令本身所占的范围（其中的关键字不参与高亮与统计）
+   */
+  collectDirectiveRanges(text: string): Array<{ from: number; to: number }> {
+    const ranges: Array<{ from: number; to: number }> = [];
+    if (!this.mayContainDirective(text)) return ranges;
+
+    DIRECTIVE_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null = null;
+    while ((match = DIRECTIVE_PATTERN.exec(text)) !== null) {
+      ranges.push({ from: match.index, to: match.index + match[0].length });
+    }
+    return ranges;
+  }
+
+  /**
+   * 取出某个位置上关键字的指向：段内指令优先，其次是最近的一条单行指令
+   */
+  resolveTarget(directives: AliasDirective[], variant: string, offset: number): string | null {
+    let chapterTarget: string | null = null;
+    for (const directive of directives) {
+      if (directive.variant !== variant || offset < directive.from || offset >= directive.to) continue;
+      if (directive.scope === "paragraph") return directive.target;
+      // 指令按出现顺序排列，后写的覆盖先写的
+      chapterTarget = directive.target;
+    }
+    return chapterTarget;
+  }
+}
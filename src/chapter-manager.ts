@@ -96,7 +96,10 @@ export class ChapterManager {
     return separatorIndex === -1 ? "" : filePath.substring(0, separatorIndex);
   }
 
-  private extractChapterNumber(fileBasename: string): number | null {
+  /**
+   * 从文件名中解析章节号（形如“第12章 标题”），无法解析时返回 null
+   */
+  extractChapterNumber(fileBasename: string): number | null {
     const match = fileBasename.match(/^第(\d+)章(?:\s.*)?$/);
     if (!match?.[1]) return null;
     const parsed = Number.parseInt(match[1], 10);
@@ -0,0 +1,82 @@
+import { MarkdownView, Notice } from "obsidian";
+import type ChineseWriterPlugin from "./main";
+import { ConfirmModal } from "./modals";
+import type { TypoRuleMatch } from "./typo-rule-codec";
+
+/** 提示中最多列出的词条数 */
+const SUMMARY_LIMIT = 5;
+
+/**
+ * 章节正文导出：复制去掉 Markdown 标记与插件注释的纯文本，便于粘贴到连载平台
+ * 导出前按当前小说库的词典方案检查：残留屏蔽级词条时拒绝导出，残留警告级词条时需确认
+ */
+export class ChapterTextExporter {
+  private plugin: ChineseWriterPlugin;
+
+  constructor(plugin: ChineseWriterPlugin) {
+    this.plugin = plugin;
+  }
+
+  async exportActiveChapter(): Promise<void> {
+    const activeView = this.plugin.app.workspace.getActiveViewOfType(MarkdownView);
+    if (!activeView?.file) {
+      new Notice("请先打开要导出的章节");
+      return;
+    }
+
+    const content = activeView.editor.getValue();
+    const warnings = this.plugin.highlightManager.collectTypoWarnings(content, activeView.file.path);
+    const blocking = warnings.filter((warning) => warning.severity === "block");
+    if (blocking.length > 0) {
+      new Notice(
+        `导出已取消：仍有 ${blocking.length} 处屏蔽级词条（${this.summarize(blocking)}），请修改后再导出`,
+        8000
+      );
+      return;
+    }
+
+    const text = this.toPlainText(content);
+    const cautions = warnings.filter((warning) => warning.severity === "warn");
+    if (cautions.length === 0) {
+      await this.copy(text);
+      return;
+    }
+
+    new ConfirmModal(
+      this.plugin.app,
+      "导出章节正文",
+      `仍有 ${cautions.length} 处警告级词条（${this.summarize(cautions)}），是否继续导出？`,
+      () => {
+        void this.copy(text);
+      }
+    ).open();
+  }
+
+  private summarize(matches: TypoRuleMatch[]): string {
+    const words = Array.from(new Set(matches.map((match) => match.text)));
+    const listed = words.slice(0, SUMMARY_LIMIT).join("、");
+    return words.length > SUMMARY_LIMIT ? `${listed}等` : listed;
+  }
+
+  /**
+   * 去掉 YAML 头、HTML 注释（含 cw 别名指向）与标题符号
+   */
+  private toPlainText(content: string): string {
+    return content
+      .replace(/^---\r?\n[\s\S]*?\r?\n---(?:\r?\n|$)/, "")
+      .replace(/<!--[\s\S]*?-->/g, "")
+      .replace(/^#{1,6}\s+/gm, "")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+  }
+
+  private async copy(text: string): Promise<void> {
+    try {
+      await navigator.clipboard.writeText(text);
+      new Notice("章节正文已复制，可直接粘贴到连载平台");
+    } catch (error) {
+      console.error("Failed to copy chapter text:", error);
+      new Notice("复制章节正文失败，请重试");
+    }
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * 光标前文暗示的设定分类
+ */
+export interface CategoryHint {
+  /** 命中的提示词，如“来到” */
+  cue: string;
+  /** H1 分类名中含有其中任一词即视为该分类，如“地点”“场景” */
+  categoryKeywords: string[];
+}
+
+interface CategoryCueRule {
+  cues: string[];
+  categoryKeywords: string[];
+}
+
+/**
+ * 提示词 -> 分类关键词
+ * 提示词须位于光标前末尾，其后最多隔 CUE_MAX_GAP 个字（如“来到了”“拿出一把”）
+ */
+const CATEGORY_CUE_RULES: CategoryCueRule[] = [
+  {
+    cues: ["来到", "前往", "抵达", "到达", "回到", "去往", "赶往", "赶到", "进入", "走进", "离开", "位于", "身处", "住在", "飞往", "返回", "路过", "途经"],
+    categoryKeywords: ["地点", "地理", "地图", "地域", "区域", "场景", "城市", "世界"],
+  },
+  {
+    cues: ["师父", "师傅", "师尊", "师兄", "师姐", "师弟", "师妹", "徒弟", "弟子", "大哥", "二哥", "姐姐", "妹妹", "父亲", "母亲", "见到", "遇到", "遇见", "拜见", "告诉", "找到", "想起"],
+    categoryKeywords: ["人物", "角色", "人名", "主角", "配角", "反派"],
+  },
+  {
+    cues: ["使出", "施展", "运转", "运起", "修炼", "催动", "一招", "学会", "领悟", "传授"],
+    categoryKeywords: ["功法", "武学", "武功", "技能", "招式", "法术", "神通", "秘术", "心法"],
+  },
+  {
+    cues: ["拿出", "取出", "掏出", "祭出", "祭起", "手持", "握着", "握住", "服下", "吞下", "佩戴", "炼制"],
+    categoryKeywords: ["物品", "道具", "法宝", "兵器", "武器", "装备", "宝物", "丹药"],
+  },
+  {
+    cues: ["加入", "投靠", "拜入", "投入", "叛出", "隶属", "覆灭"],
+    categoryKeywords: ["势力", "门派", "宗门", "组织", "帮派", "家族", "阵营"],
+  },
+];
+
+const CUE_MAX_GAP = 2;
+
+/**
+ * // 补全的上下文解析
+ */
+export class CompletionContextCodec {
+  /**
+   * 按光标前文末尾的提示词推断分类；多个提示词命中时取最靠近光标的
+   */
+  getCategoryHint(textBeforeCursor: string): CategoryHint | null {
+    const tail = textBeforeCursor.trimEnd().slice(-12);
+    let best: { hint: CategoryHint; gap: number } | null = null;
+    for (const rule of CATEGORY_CUE_RULES) {
+      for (const cue of rule.cues) {
+        const index = tail.lastIndexOf(cue);
+        if (index === -1) continue;
+        const gap = tail.length - index - cue.length;
+        if (gap > CUE_MAX_GAP || (best && best.gap <= gap)) continue;
+        best = { hint: { cue, categoryKeywords: rule.categoryKeywords }, gap };
+      }
+    }
+    return best?.hint ?? null;
+  }
+
+  matchesCategory(category: string | undefined, hint: CategoryHint): boolean {
+    if (!category) return false;
+    return hint.categoryKeywords.some((keyword) => category.includes(keyword));
+  }
+
+  /**
+   * 名称在文本中最后一次出现的结束位置，未出现返回 -1
+   */
+  findLastMention(text: string, names: string[]): number {
+    let lastEnd = -1;
+    for (const name of names) {
+      if (!name) continue;
+      const index = text.lastIndexOf(name);
+      if (index !== -1) lastEnd = Math.max(lastEnd, index + name.length);
+    }
+    return lastEnd;
+  }
+}
@@ -0,0 +1,33 @@
+import type { EditorView } from "@codemirror/view";
+import { editorInfoField } from "obsidian";
+import type ChineseWriterPlugin from "./main";
+import type { CompletionKind } from "./types";
+
+/**
+ * 候选采用记录：按编辑器所在文件的小说库读写使用热度，供设定与文本片段候选栏共用
+ */
+export class CompletionUsageTracker {
+  private plugin: ChineseWriterPlugin;
+  private kind: CompletionKind;
+
+  constructor(plugin: ChineseWriterPlugin, kind: CompletionKind) {
+    this.plugin = plugin;
+    this.kind = kind;
+  }
+
+  getScores(view: EditorView): Map<string, number> {
+    const novelFolder = this.getNovelFolder(view);
+    return novelFolder ? this.plugin.orderManager.getCompletionScores(novelFolder, this.kind) : new Map<string, number>();
+  }
+
+  record(view: EditorView, key: string): void {
+    const novelFolder = this.getNovelFolder(view);
+    if (!novelFolder) return;
+    void this.plugin.orderManager.recordCompletionUsage(novelFolder, this.kind, key);
+  }
+
+  private getNovelFolder(view: EditorView): string | null {
+    const file = view.state.field(editorInfoField, false)?.file;
+    return file ? this.plugin.highlightManager.getNovelFolderForContextFile(file.path) : null;
+  }
+}
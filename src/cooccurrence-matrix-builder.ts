@@ -0,0 +1,179 @@
+import type ChineseWriterPlugin from "./main";
+import { buildH2KeywordGroupId, type KeywordPreviewData } from "./highlight-manager";
+import type { ChapterOccurrences } from "./keyword-occurrence-index";
+
+/**
+ * 参与统计的设定（H3 的出现合并到所属 H2）
+ */
+export interface CooccurrenceEntity {
+  groupId: string;
+  keyword: string;
+  h1Title: string;
+  entry: KeywordPreviewData;
+  /** 正文中的总出现次数 */
+  total: number;
+}
+
+/**
+ * 正文中的一个段落位置
+ */
+export interface CooccurrenceLocation {
+  filePath: string;
+  chapterLabel: string;
+  line: number;
+}
+
+export interface CooccurrenceMatrix {
+  entities: CooccurrenceEntity[];
+  chapters: ChapterOccurrences[];
+  /** chapterCounts[章节][设定]：出现次数 */
+  chapterCounts: number[][];
+  /** pairCounts[设定][设定]：同段出现的段落数，对角线为自身出现的段落数 */
+  pairCounts: number[][];
+  maxChapterCount: number;
+  maxPairCount: number;
+}
+
+/**
+ * 设定共现矩阵构建器
+ * 基于关键字出现索引，按章节统计设定出现次数，并按段落统计两两共现
+ */
+export class CooccurrenceMatrixBuilder {
+  private plugin: ChineseWriterPlugin;
+
+  constructor(plugin: ChineseWriterPlugin) {
+    this.plugin = plugin;
+  }
+
+  /**
+   * 构建矩阵；索引未就绪时返回 null
+   * @param h1Title 只统计该分类下的设定，为空时统计全部
+   * @param maxEntities 最多保留的设定数（按出现次数取前若干个）
+   */
+  build(settingFolder: string, h1Title: string | null, maxEntities: number): CooccurrenceMatrix | null {
+    const chapters = this.plugin.keywordOccurrenceIndex.getChapters(settingFolder);
+    if (!chapters) return null;
+
+    const entryById = new Map<string, KeywordPreviewData>();
+    for (const entry of this.plugin.highlightManager.getKeywordEntries(settingFolder)) {
+      entryById.set(entry.groupId, entry);
+    }
+
+    const totals = new Map<string, number>();
+    for (const chapter of chapters) {
+      for (const occurrence of chapter.occurrences) {
+        const entityId = this.resolveEntityId(entryById, occurrence.groupId, h1Title);
+        if (!entityId) continue;
+        totals.set(entityId, (totals.get(entityId) ?? 0) + 1);
+      }
+    }
+
+    const entities: CooccurrenceEntity[] = Array.from(totals.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, maxEntities)
+      .map(([groupId, total]) => {
+        const entry = entryById.get(groupId)!;
+        return { groupId, keyword: entry.h2Title, h1Title: entry.h1Title, entry, total };
+      });
+    const columnById = new Map(entities.map((entity, index) => [entity.groupId, index]));
+
+    const chapterCounts: number[][] = [];
+    const pairCounts: number[][] = entities.map(() => entities.map(() => 0));
+    let maxChapterCount = 0;
+    let maxPairCount = 0;
+
+    for (const chapter of chapters) {
+      const row = entities.map(() => 0);
+      const columnsByLine = new Map<number, Set<number>>();
+      for (const occurrence of chapter.occurrences) {
+        const entityId = this.resolveEntityId(entryById, occurrence.groupId, h1Title);
+        const column = entityId ? columnById.get(entityId) : undefined;
+        if (column === undefined) continue;
+        row[column] = (row[column] ?? 0) + 1;
+        let columns = columnsByLine.get(occurrence.line);
+        if (!columns) {
+          columns = new Set();
+          columnsByLine.set(occurrence.line, columns);
+        }
+        columns.add(column);
+      }
+
+      for (const columns of columnsByLine.values()) {
+        const list = Array.from(columns);
+        for (const a of list) {
+          for (const b of list) {
+            const pairRow = pairCounts[a];
+            if (!pairRow) continue;
+            pairRow[b] = (pairRow[b] ?? 0) + 1;
+            if (a !== b) {
+              maxPairCount = Math.max(maxPairCount, pairRow[b] ?? 0);
+            }
+          }
+        }
+      }
+
+      maxChapterCount = Math.max(maxChapterCount, ...row);
+      chapterCounts.push(row);
+    }
+
+    return { entities, chapters, chapterCounts, pairCounts, maxChapterCount, maxPairCount };
+  }
+
+  /**
+   * 列出同时提及给定设定的段落位置（只给一个设定时即列出它出现的段落）
+   * @param chapterPaths 只在这些章节中查找，为空时查找全部章节
+   */
+  findLocations(
+    settingFolder: string,
+    matrix: CooccurrenceMatrix,
+    groupIds: string[],
+    chapterPaths: string[] | null
+  ): CooccurrenceLocation[] {
+    const entryById = new Map<string, KeywordPreviewData>();
+    for (const entry of this.plugin.highlightManager.getKeywordEntries(settingFolder)) {
+      entryById.set(entry.groupId, entry);
+    }
+
+    const locations: CooccurrenceLocation[] = [];
+    for (const chapter of matrix.chapters) {
+      if (chapterPaths && !chapterPaths.includes(chapter.filePath)) continue;
+      const idsByLine = new Map<number, Set<string>>();
+      for (const occurrence of chapter.occurrences) {
+        const entityId = this.resolveEntityId(entryById, occurrence.groupId, null);
+        if (!entityId || !groupIds.includes(entityId)) continue;
+        let ids = idsByLine.get(occurrence.line);
+        if (!ids) {
+          ids = new Set();
+          idsByLine.set(occurrence.line, ids);
+        }
+        ids.add(entityId);
+      }
+
+      const lines = Array.from(idsByLine.entries())
+        .filter(([, ids]) => groupIds.every((groupId) => ids.has(groupId)))
+        .map(([line]) => line)
+        .sort((a, b) => a - b);
+      for (const line of lines) {
+        locations.push({ filePath: chapter.filePath, chapterLabel: chapter.chapterLabel, line });
+      }
+    }
+    return locations;
+  }
+
+  /**
+   * 把出现记录的分组归到统计用的设定：H3 归入所属 H2，并按分类过滤
+   */
+  private resolveEntityId(
+    entryById: Map<string, KeywordPreviewData>,
+    groupId: string,
+    h1Title: string | null
+  ): string | null {
+    const entry = entryById.get(groupId);
+    if (!entry) return null;
+    if (h1Title && entry.h1Title !== h1Title) return null;
+    if (!groupId.startsWith("h3::")) return groupId;
+
+    const parentId = buildH2KeywordGroupId(entry.filePath, entry.h1Title, entry.h2Title);
+    return entryById.has(parentId) ? parentId : null;
+  }
+}
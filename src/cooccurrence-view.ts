@@ -0,0 +1,297 @@
+import { ItemView, TFile, WorkspaceLeaf, setIcon } from "obsidian";
+import type ChineseWriterPlugin from "./main";
+import {
+  CooccurrenceMatrixBuilder,
+  type CooccurrenceLocation,
+  type CooccurrenceMatrix,
+} from "./cooccurrence-matrix-builder";
+
+export const VIEW_TYPE_COOCCURRENCE = "chinese-writer-cooccurrence-view";
+
+/** 热力图最多显示的设定数 */
+const MAX_ENTITIES = 30;
+/** 段落列表最多显示的条数 */
+const MAX_LOCATIONS = 200;
+const ALL_OPTION = "";
+
+interface CellSelection {
+  title: string;
+  groupIds: string[];
+  chapterPaths: string[] | null;
+}
+
+/**
+ * 设定共现热力图视图
+ * 展示各章节中设定的出现次数，以及设定两两在同一段落中出现的次数
+ */
+export class CooccurrenceView extends ItemView {
+  plugin: ChineseWriterPlugin;
+  private builder: CooccurrenceMatrixBuilder;
+  private settingFolder: string | null = null;
+  private h1Filter = ALL_OPTION;
+  private matrix: CooccurrenceMatrix | null = null;
+  private detailEl: HTMLElement | null = null;
+  private renderRunId = 0;
+
+  constructor(leaf: WorkspaceLeaf, plugin: ChineseWriterPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+    this.builder = new CooccurrenceMatrixBuilder(plugin);
+  }
+
+  getViewType(): string {
+    return VIEW_TYPE_COOCCURRENCE;
+  }
+
+  getDisplayText(): string {
+    return "设定共现热力图";
+  }
+
+  getIcon(): string {
+    return "grid-3x3";
+  }
+
+  async onOpen(): Promise<void> {
+    this.settingFolder = this.resolveDefaultSettingFolder();
+    await this.refresh();
+  }
+
+  async onClose(): Promise<void> {
+    this.renderRunId++;
+  }
+
+  /**
+   * 切换到指定设定库并重新统计
+   */
+  async showSettingFolder(settingFolder: string): Promise<void> {
+    this.settingFolder = settingFolder;
+    await this.refresh();
+  }
+
+  /**
+   * 重新统计并绘制热力图
+   */
+  async refresh(): Promise<void> {
+    const runId = ++this.renderRunId;
+    const container = this.containerEl.children[1];
+    if (!container) return;
+
+    container.empty();
+    container.addClass("chinese-writer-view");
+    this.renderHeader(container as HTMLElement);
+
+    const contentEl = container.createDiv({ cls: "cw-cooccurrence-content" });
+    const settingFolder = this.settingFolder;
+    if (!settingFolder || !this.plugin.highlightManager.getMappedSettingFolders().includes(settingFolder)) {
+      contentEl.createDiv({ text: "请先在设置中配置小说库与设定库的对应关系", cls: "chinese-writer-empty" });
+      return;
+    }
+
+    await this.plugin.highlightManager.extractKeywordsFromSettingFolder(settingFolder);
+    if (runId !== this.renderRunId) return;
+
+    const h1Titles = Array.from(
+      new Set(this.plugin.highlightManager.getKeywordEntries(settingFolder).map((entry) => entry.h1Title))
+    );
+    if (!h1Titles.includes(this.h1Filter)) this.h1Filter = ALL_OPTION;
+    this.renderFilterBar(contentEl, h1Titles);
+
+    const matrix = this.builder.build(settingFolder, this.h1Filter || null, MAX_ENTITIES);
+    if (!matrix) {
+      // 索引构建完成后会再次刷新
+      contentEl.createDiv({ text: "正在统计正文出现情况…", cls: "chinese-writer-empty" });
+      return;
+    }
+    this.matrix = matrix;
+
+    if (matrix.entities.length === 0) {
+      contentEl.createDiv({ text: "正文中尚未出现任何设定", cls: "chinese-writer-empty" });
+      return;
+    }
+
+    this.renderPairSection(contentEl, matrix);
+    this.renderChapterSection(contentEl, matrix);
+    this.detailEl = contentEl.createDiv({ cls: "cw-cooccurrence-detail" });
+    this.detailEl.createDiv({ cls: "cw-report-empty", text: "点击热力图中的格子查看对应段落" });
+  }
+
+  private renderHeader(container: HTMLElement): void {
+    const headerEl = container.createDiv({ cls: "chinese-writer-header" });
+    const titleEl = headerEl.createDiv({ cls: "chinese-writer-title" });
+    const iconEl = titleEl.createSpan({ cls: "chinese-writer-icon" });
+    setIcon(iconEl, "grid-3x3");
+
+    const settingFolders = this.plugin.highlightManager.getMappedSettingFolders();
+    if (settingFolders.length > 1) {
+      const selectEl = titleEl.createEl("select", { cls: "dropdown cw-report-folder-select" });
+      for (const folder of settingFolders) {
+        selectEl.createEl("option", { text: folder, value: folder });
+      }
+      selectEl.value = this.settingFolder ?? "";
+      selectEl.addEventListener("change", () => {
+        void this.showSettingFolder(selectEl.value);
+      });
+    } else {
+      titleEl.createSpan({
+        text: this.settingFolder ?? "未设置目录",
+        cls: "chinese-writer-folder-name",
+      });
+    }
+
+    const refreshBtn = headerEl.createEl("button", { cls: "chinese-writer-toggle-btn" });
+    setIcon(refreshBtn, "refresh-cw");
+    refreshBtn.setAttribute("aria-label", "重新统计");
+    refreshBtn.addEventListener("click", () => {
+      void this.refresh();
+    });
+  }
+
+  private renderFilterBar(contentEl: HTMLElement, h1Titles: string[]): void {
+    const barEl = contentEl.createDiv({ cls: "cw-cooccurrence-filter-bar" });
+    const selectEl = barEl.createEl("select", { cls: "dropdown" });
+    selectEl.createEl("option", { text: "全部分类", value: ALL_OPTION });
+    for (const h1Title of h1Titles) {
+      selectEl.createEl("option", { text: h1Title, value: h1Title });
+    }
+    selectEl.value = this.h1Filter;
+    selectEl.addEventListener("change", () => {
+      this.h1Filter = selectEl.value;
+      void this.refresh();
+    });
+    barEl.createSpan({
+      cls: "cw-cooccurrence-hint",
+      text: `按出现次数取前 ${MAX_ENTITIES} 个设定，H3 计入所属 H2`,
+    });
+  }
+
+  private renderPairSection(contentEl: HTMLElement, matrix: CooccurrenceMatrix): void {
+    const sectionEl = contentEl.createDiv({ cls: "cw-report-section" });
+    sectionEl.createDiv({ cls: "cw-report-section-title", text: "同段共现" });
+    const tableEl = sectionEl.createDiv({ cls: "cw-cooccurrence-table-wrap" }).createEl("table", {
+      cls: "cw-cooccurrence-table",
+    });
+
+    const headRow = tableEl.createEl("thead").createEl("tr");
+    headRow.createEl("th");
+    for (const entity of matrix.entities) {
+      headRow.createEl("th", { cls: "cw-cooccurrence-col-head", text: entity.keyword });
+    }
+
+    const bodyEl = tableEl.createEl("tbody");
+    matrix.entities.forEach((rowEntity, rowIndex) => {
+      const rowEl = bodyEl.createEl("tr");
+      rowEl.createEl("th", { cls: "cw-cooccurrence-row-head", text: rowEntity.keyword });
+      matrix.entities.forEach((colEntity, colIndex) => {
+        const count = matrix.pairCounts[rowIndex]?.[colIndex] ?? 0;
+        if (rowIndex === colIndex) {
+          rowEl.createEl("td", { cls: "cw-cooccurrence-cell is-diagonal" });
+          return;
+        }
+        this.renderCell(rowEl, count, matrix.maxPairCount, `${rowEntity.keyword} × ${colEntity.keyword}：${count} 段`, {
+          title: `${rowEntity.keyword} × ${colEntity.keyword}`,
+          groupIds: [rowEntity.groupId, colEntity.groupId],
+          chapterPaths: null,
+        });
+      });
+    });
+  }
+
+  private renderChapterSection(contentEl: HTMLElement, matrix: CooccurrenceMatrix): void {
+    const sectionEl = contentEl.createDiv({ cls: "cw-report-section" });
+    sectionEl.createDiv({ cls: "cw-report-section-title", text: "章节分布" });
+    const tableEl = sectionEl.createDiv({ cls: "cw-cooccurrence-table-wrap" }).createEl("table", {
+      cls: "cw-cooccurrence-table",
+    });
+
+    const headRow = tableEl.createEl("thead").createEl("tr");
+    headRow.createEl("th");
+    for (const entity of matrix.entities) {
+      headRow.createEl("th", { cls: "cw-cooccurrence-col-head", text: entity.keyword });
+    }
+
+    const bodyEl = tableEl.createEl("tbody");
+    matrix.chapters.forEach((chapter, chapterIndex) => {
+      const rowEl = bodyEl.createEl("tr");
+      rowEl.createEl("th", { cls: "cw-cooccurrence-row-head", text: chapter.chapterLabel });
+      matrix.entities.forEach((entity, entityIndex) => {
+        const count = matrix.chapterCounts[chapterIndex]?.[entityIndex] ?? 0;
+        this.renderCell(rowEl, count, matrix.maxChapterCount, `${chapter.chapterLabel} · ${entity.keyword}：${count} 次`, {
+          title: `${chapter.chapterLabel} · ${entity.keyword}`,
+          groupIds: [entity.groupId],
+          chapterPaths: [chapter.filePath],
+        });
+      });
+    });
+  }
+
+  private renderCell(rowEl: HTMLElement, count: number, maxCount: number, tooltip: string, selection: CellSelection): void {
+    const cellEl = rowEl.createEl("td", { cls: "cw-cooccurrence-cell" });
+    cellEl.setAttribute("title", tooltip);
+    if (count === 0) return;
+
+    // 取平方根压缩高频值，让低频格子也能看出差异
+    const ratio = maxCount > 0 ? Math.sqrt(count / maxCount) : 0;
+    cellEl.style.setProperty("--cw-heat", `${Math.round(15 + ratio * 75)}%`);
+    cellEl.addClass("is-filled");
+    cellEl.setText(String(count));
+    cellEl.addEventListener("click", () => {
+      void this.showLocations(selection);
+    });
+  }
+
+  /**
+   * 在下方列出格子对应的段落
+   */
+  private async showLocations(selection: CellSelection): Promise<void> {
+    const detailEl = this.detailEl;
+    const matrix = this.matrix;
+    const settingFolder = this.settingFolder;
+    if (!detailEl || !matrix || !settingFolder) return;
+
+    const runId = this.renderRunId;
+    const locations = this.builder.findLocations(settingFolder, matrix, selection.groupIds, selection.chapterPaths);
+    const paragraphs: Array<{ location: CooccurrenceLocation; text: string }> = [];
+    for (const location of locations.slice(0, MAX_LOCATIONS)) {
+      const file = this.app.vault.getAbstractFileByPath(location.filePath);
+      if (!(file instanceof TFile)) continue;
+      const paragraph = (await this.plugin.parser.parseParagraphs(file)).find(
+        (item) => item.lineNumber === location.line
+      );
+      if (paragraph) {
+        paragraphs.push({ location, text: paragraph.text });
+      }
+    }
+    if (runId !== this.renderRunId) return;
+
+    detailEl.empty();
+    detailEl.createDiv({
+      cls: "cw-report-section-title",
+      text: `${selection.title}（${locations.length} 段）`,
+    });
+    if (locations.length > MAX_LOCATIONS) {
+      detailEl.createDiv({ cls: "cw-report-empty", text: `仅显示前 ${MAX_LOCATIONS} 段` });
+    }
+
+    const listEl = detailEl.createEl("ul", { cls: "cw-report-list" });
+    for (const { location, text } of paragraphs) {
+      const itemEl = listEl.createEl("li", { cls: "cw-report-item cw-cooccurrence-paragraph" });
+      itemEl.createSpan({ cls: "cw-report-item-meta", text: location.chapterLabel });
+      itemEl.createSpan({ cls: "cw-cooccurrence-paragraph-text", text });
+      itemEl.addEventListener("click", () => {
+        const file = this.app.vault.getAbstractFileByPath(location.filePath);
+        if (!(file instanceof TFile)) return;
+        void this.plugin.highlightManager.openFileAtLine(file, location.line);
+      });
+    }
+    detailEl.scrollIntoView({ block: "nearest" });
+  }
+
+  private resolveDefaultSettingFolder(): string | null {
+    const activeFile = this.app.workspace.getActiveFile();
+    if (activeFile) {
+      const settingFolder = this.plugin.highlightManager.getSettingFolderForFile(activeFile.path);
+      if (settingFolder) return settingFolder;
+    }
+    return this.plugin.highlightManager.getMappedSettingFolders()[0] ?? null;
+  }
+}
@@ -1,29 +1,90 @@
-import { App, TFile, TFolder, MarkdownView, setIcon } from "obsidian";
+import { App, TFile, TFolder, MarkdownView, Notice, setIcon } from "obsidian";
 import type ChineseWriterPlugin from "./main";
 import { EditorView, Decoration, DecorationSet, ViewPlugin, ViewUpdate, PluginValue } from "@codemirror/view";
 import { RangeSetBuilder, Transaction } from "@codemirror/state";
-
-interface KeywordPreviewData {
+import { SettingStatusCodec, type StatusTimelineEntry } from "./setting-status-codec";
+import { SettingFieldCodec, type SettingFieldDefinition, type SettingFieldValue } from "./setting-field-codec";
+import { AliasDirectiveCodec } from "./alias-directive-codec";
+import { KeywordMatchRuleCodec, type KeywordMatchRule } from "./keyword-match-rule-codec";
+import {
+  TYPO_SEVERITY_LABELS,
+  TypoRuleCodec,
+  type TypoFix,
+  type TypoRule,
+  type TypoRuleMatch,
+  type TypoRuleSet,
+  type TypoSeverity,
+} from "./typo-rule-codec";
+
+export interface KeywordPreviewData {
   keyword: string;
+  groupId: string;
+  /** 条目所在的设定库（本书设定库或共享设定库） */
+  libraryFolder: string;
   filePath: string;
   fileName: string;
   h1Title: string;
   h2Title: string;
   status?: string;
+  statusTimeline: StatusTimelineEntry[];
   aliases: string[];
+  fields: SettingFieldValue[];
   bodyLines: string[];
+  /** 【排除】【语境】【整词】匹配规则，没有时为 null */
+  matchRule: KeywordMatchRule | null;
 }
 
 interface H3SectionData {
   title: string;
   status?: string;
+  statusTimeline: StatusTimelineEntry[];
   aliases: string[];
+  fields: SettingFieldValue[];
   bodyLines: string[];
+  matchRule: KeywordMatchRule | null;
 }
 
-interface TypoDictionaryEntry {
-  typo: string;
-  correction?: string;
+/**
+ * 正文中的一次关键字命中
+ */
+export interface KeywordMatch {
+  from: number;
+  to: number;
+  keyword: string;
+  groupId: string;
+}
+
+/**
+ * 同一个关键字或别名对应多个设定条目
+ */
+export interface AliasCollision {
+  variant: string;
+  candidates: KeywordPreviewData[];
+}
+
+/**
+ * 一处待修正的错别字或标点，用于修正审阅
+ */
+export interface ProofreadChange {
+  kind: "typo" | "punctuation";
+  from: number;
+  to: number;
+  text: string;
+  replacement: string;
+  ruleName: string;
+}
+
+/**
+ * 全书校对中的一处问题；replacement 为 null 表示只提示、需人工处理
+ */
+export interface ProofreadIssue {
+  kind: "typo" | "punctuation";
+  from: number;
+  to: number;
+  ruleName: string;
+  /** 错别字词条的级别，标点问题为 null */
+  severity: TypoSeverity | null;
+  replacement: string | null;
 }
 
 export interface TypoDictionaryReloadResult {
@@ -32,6 +93,40 @@ export interface TypoDictionaryReloadResult {
   path: string;
 }
 
+/**
+ * 生成 H2 设定条目的分组标识（同一条目的标题与别名共用）
+ */
+export function buildH2KeywordGroupId(filePath: string, h1Title: string, h2Title: string): string {
+  return `h2::${filePath}::${h1Title}::${h2Title}`;
+}
+
+/**
+ * 生成 H3 设定条目的分组标识
+ */
+export function buildH3KeywordGroupId(filePath: string, h1Title: string, h2Title: string, h3Title: string): string {
+  return `h3::${filePath}::${h1Title}::${h2Title}::${h3Title}`;
+}
+
+/** 标点修正的规则名，显示在审阅面板中 */
+const PUNCTUATION_RULE_NAMES = {
+  comma: "英文逗号",
+  period: "英文句号",
+  colon: "英文冒号",
+  semicolon: "英文分号",
+  exclamation: "英文感叹号",
+  question: "英文问号",
+  doubleQuote: "双引号配对",
+  singleQuote: "单引号配对",
+  otherCnPairs: "括号配对",
+} as const;
+
+/** 配对类修正依赖上下文的开闭判断，不作为安全修正批量应用 */
+const PAIRING_RULE_NAMES: ReadonlySet<string> = new Set([
+  PUNCTUATION_RULE_NAMES.doubleQuote,
+  PUNCTUATION_RULE_NAMES.singleQuote,
+  PUNCTUATION_RULE_NAMES.otherCnPairs,
+]);
+
 const CN_BRACKET_PAIRS: ReadonlyArray<readonly [string, string]> = [
   ["《", "》"],
   ["（", "）"],
@@ -44,6 +139,36 @@ const CN_BRACKET_PAIRS: ReadonlyArray<readonly [string, string]> = [
   ["｛", "｝"],
 ];
 
+/**
+ * 批量修正时不改动的 Markdown 区域：YAML 头、代码块与行内代码、HTML 注释、双链、链接与网址
+ * 这些区域中的标点是语法的一部分（如 title: …、https://a.b），文字是链接目标，改动会使链接失效
+ */
+const PROTECTED_MARKDOWN_PATTERNS: ReadonlyArray<RegExp> = [
+  /^---\r?\n[\s\S]*?\r?\n---(?=\r?\n|$)/g,
+  /(`{3,}|~{3,})[\s\S]*?(?:\1|$)/g,
+  /`[^`\n]+`/g,
+  /<!--[\s\S]*?-->/g,
+  /!?\[\[[^\]\n]*\]\]/g,
+  /!?\[[^\]\n]*\]\([^)\n]*\)/g,
+  /<[a-z][a-z0-9+.-]*:[^>\s]*>/gi,
+  /\b(?:[a-z][a-z0-9+.-]*:\/\/|www\.|mailto:)[\w\-.~:/?#@!$&'*+,;=%]*/gi,
+];
+
+/** 修正命令提示中最多列出的不成对段落数 */
+const UNBALANCED_SUMMARY_LIMIT = 5;
+
+/**
+ * 下一个非空段落是否以开引号起首（多段引语的延续写法：各段以开引号起首，只在最后一段闭合）
+ */
+function continuesIntoNextParagraph(text: string, lineEnd: number, openChars: string): boolean {
+  for (let i = lineEnd; i < text.length; i++) {
+    const ch = text[i] ?? "";
+    if (/\s/.test(ch)) continue;
+    return openChars.includes(ch);
+  }
+  return false;
+}
+
 /**
  * 高亮管理器
  * 负责在编辑器中高亮显示设定库中的关键字
@@ -54,6 +179,8 @@ export class HighlightManager {
   private keywordsCache: Map<string, Set<string>> = new Map();
   private keywordPreviewCache: Map<string, Map<string, KeywordPreviewData>> = new Map();
   private keywordGroupCache: Map<string, Map<string, string>> = new Map();
+  /** 关键字/别名 -> 全部对应的设定条目（按解析顺序，第一个为默认） */
+  private keywordCandidateCache: Map<string, Map<string, KeywordPreviewData[]>> = new Map();
   private keywordRegexCache: Map<string, { version: number; regex: RegExp | null }> = new Map();
   private keywordsVersion = 0;
   private previewEl: HTMLElement | null = null;
@@ -68,17 +195,13 @@ export class HighlightManager {
   private treePreviewInFlightPromise: Promise<void> | null = null;
   private treePreviewRunId = 0;
   private markdownViewCache: WeakMap<EditorView, MarkdownView> = new WeakMap();
-  private typoDictionaryEntries: TypoDictionaryEntry[] = [];
-  private typoWarningWords: string[] = [];
-  private typoCorrectionMap: Map<string, string> = new Map();
-  private typoWarningRegexCache: { signature: string; regex: RegExp | null } = {
-    signature: "",
-    regex: null,
-  };
-  private typoReplacementRegexCache: { signature: string; regex: RegExp | null } = {
-    signature: "",
-    regex: null,
-  };
+  private statusCodec = new SettingStatusCodec();
+  private fieldCodec = new SettingFieldCodec();
+  private aliasDirectiveCodec = new AliasDirectiveCodec();
+  private matchRuleCodec = new KeywordMatchRuleCodec();
+  private typoRuleCodec = new TypoRuleCodec();
+  /** 键为平台词典方案名，"" 为只含通用词典的规则集 */
+  private typoRuleSets: Map<string, TypoRuleSet> = new Map();
 
   constructor(plugin: ChineseWriterPlugin) {
     this.plugin = plugin;
@@ -107,6 +230,122 @@ export class HighlightManager {
     return null;
   }
 
+  /**
+   * 获取文件所关联的设定库：小说库文件取对应设定库，设定库文件取使用它的第一个设定库
+   */
+  getSettingFolderForContextFile(filePath: string): string | null {
+    return this.getSettingFolderForFile(filePath) ?? this.getSettingFoldersUsingPath(filePath)[0] ?? null;
+  }
+
+  /**
+   * 获取文件所关联的小说库：小说库文件取其所在小说库，设定库文件取使用该设定库的第一个小说库
+   */
+  getNovelFolderForContextFile(filePath: string): string | null {
+    const normalizedFilePath = filePath.replace(/^\/+/, "");
+    for (const mapping of this.plugin.settings.folderMappings) {
+      const normalizedNovelFolder = mapping.novelFolder.replace(/^\/+|\/+$/g, "");
+      if (normalizedNovelFolder && normalizedFilePath.startsWith(`${normalizedNovelFolder}/`)) {
+        return mapping.novelFolder;
+      }
+    }
+
+    const settingFolder = this.getSettingFoldersUsingPath(filePath)[0];
+    const mapping = this.plugin.settings.folderMappings.find(
+      (item) => item.settingFolder === settingFolder && !!item.novelFolder
+    );
+    return mapping?.novelFolder ?? null;
+  }
+
+  /**
+   * 获取已对应小说库的设定库（本书设定库，不含共享设定库），按对应关系的顺序去重
+   */
+  getMappedSettingFolders(): string[] {
+    const folders = new Set<string>();
+    for (const mapping of this.plugin.settings.folderMappings) {
+      if (mapping.novelFolder && mapping.settingFolder) {
+        folders.add(mapping.settingFolder);
+      }
+    }
+    return Array.from(folders);
+  }
+
+  /**
+   * 获取设定库叠加后的全部目录：本书设定库在前，其后按优先级排列共享设定库
+   */
+  getSettingLibraryFolders(settingFolder: string): string[] {
+    const folders = [settingFolder];
+    for (const mapping of this.plugin.settings.folderMappings) {
+      if (mapping.settingFolder !== settingFolder) continue;
+      for (const sharedFolder of mapping.sharedSettingFolders) {
+        const normalized = sharedFolder.replace(/^\/+|\/+$/g, "");
+        if (normalized && !folders.includes(normalized)) {
+          folders.push(normalized);
+        }
+      }
+    }
+    return folders;
+  }
+
+  /**
+   * 获取所有对应关系中出现的设定库目录（含共享设定库）
+   */
+  getAllSettingLibraryFolders(): string[] {
+    const folders = new Set<string>();
+    for (const mapping of this.plugin.settings.folderMappings) {
+      if (!mapping.settingFolder) continue;
+      for (const folder of this.getSettingLibraryFolders(mapping.settingFolder)) {
+        folders.add(folder);
+      }
+    }
+    return Array.from(folders);
+  }
+
+  /**
+   * 获取使用了某个设定文件的设定库（文件可能位于被多本书共用的共享设定库中）
+   */
+  getSettingFoldersUsingPath(filePath: string): string[] {
+    const result: string[] = [];
+    for (const mapping of this.plugin.settings.folderMappings) {
+      if (!mapping.settingFolder || result.includes(mapping.settingFolder)) continue;
+      const folders = this.getSettingLibraryFolders(mapping.settingFolder);
+      if (folders.some((folder) => this.isFileInFolder(filePath, folder))) {
+        result.push(mapping.settingFolder);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 获取叠加后的全部设定文件，按设定库优先级排列
+   */
+  getSettingLibraryFiles(settingFolder: string): TFile[] {
+    const seen = new Set<string>();
+    const files: TFile[] = [];
+    for (const folder of this.getSettingLibraryFolders(settingFolder)) {
+      for (const file of this.plugin.parser.getMarkdownFilesInFolder(folder)) {
+        if (seen.has(file.path)) continue;
+        seen.add(file.path);
+        files.push(file);
+      }
+    }
+    return files;
+  }
+
+  /**
+   * 文件是否属于该设定库叠加后的任一目录
+   */
+  isFileInSettingLibraries(filePath: string, settingFolder: string): boolean {
+    return this.getSettingLibraryFolders(settingFolder).some((folder) => this.isFileInFolder(filePath, folder));
+  }
+
+  /**
+   * 叠加了共享设定库时，返回条目来源设定库的显示名；未叠加时返回 null
+   */
+  getLibraryLabel(settingFolder: string, libraryFolder: string): string | null {
+    if (this.getSettingLibraryFolders(settingFolder).length <= 1) return null;
+    return libraryFolder.split("/").pop() || libraryFolder;
+  }
+
   /**
    * 从设定库中提取所有H2标题（关键字）
    */
@@ -115,7 +354,8 @@ export class HighlightManager {
     if (
       this.keywordsCache.has(settingFolder) &&
       this.keywordPreviewCache.has(settingFolder) &&
-      this.keywordGroupCache.has(settingFolder)
+      this.keywordGroupCache.has(settingFolder) &&
+      this.keywordCandidateCache.has(settingFolder)
     ) {
       return this.keywordsCache.get(settingFolder)!;
     }
@@ -123,60 +363,88 @@ export class HighlightManager {
     const keywords = new Set<string>();
     const previewMap = new Map<string, KeywordPreviewData>();
     const groupMap = new Map<string, string>();
+    const candidateMap = new Map<string, KeywordPreviewData[]>();
 
     if (!settingFolder) {
       return keywords;
     }
 
-    // 获取设定库中的所有文件
-    const files = this.plugin.parser.getMarkdownFilesInFolder(settingFolder);
+    // 获取设定库（含共享设定库）中的所有文件，高优先级的库在前
+    const libraryFolders = this.getSettingLibraryFolders(settingFolder);
+    const files = this.getSettingLibraryFiles(settingFolder);
 
     // 并行解析每个文件，提取H2标题
     const parsedList = await Promise.all(files.map((file) => this.plugin.parser.parseFile(file)));
+    // H2 标题 -> 定义它的设定库序号；低优先级库中的同名设定被覆盖
+    const h2LibraryIndex = new Map<string, number>();
     for (const parseResult of parsedList) {
       if (!parseResult) continue;
+      const libraryIndex = Math.max(
+        0,
+        libraryFolders.findIndex((folder) => this.isFileInFolder(parseResult.filePath, folder))
+      );
+      const libraryFolder = libraryFolders[libraryIndex] ?? settingFolder;
       // 遍历所有H1
       for (const h1 of parseResult.h1List) {
+        const fieldDefinitions = this.fieldCodec.resolveDefinitions(
+          this.plugin.settings.settingFieldSchemas,
+          parseResult.fileName,
+          h1.text
+        );
         // 遍历所有H2
         for (const h2 of h1.h2List) {
           // H2的文本就是关键字
           const keyword = h2.text.trim();
+          const definedInLibrary = h2LibraryIndex.get(keyword);
+          if (definedInLibrary !== undefined && definedInLibrary < libraryIndex) continue;
           if (keyword) {
+            h2LibraryIndex.set(keyword, libraryIndex);
             const h2Aliases = this.extractAliases(h2.content);
-            const h2GroupId = `h2::${parseResult.filePath}::${h1.text}::${h2.text}`;
+            const h2StatusTimeline = this.statusCodec.parseTimeline(h2.content);
+            const h2GroupId = buildH2KeywordGroupId(parseResult.filePath, h1.text, h2.text);
             const h2PreviewData: KeywordPreviewData = {
               keyword,
+              groupId: h2GroupId,
+              libraryFolder,
               filePath: parseResult.filePath,
               fileName: parseResult.fileName,
               h1Title: h1.text,
               h2Title: h2.text,
-              status: this.extractPreferredStatus(h2.content),
+              status: this.statusCodec.resolveStatus(h2StatusTimeline, null),
+              statusTimeline: h2StatusTimeline,
               aliases: h2Aliases,
-              bodyLines: this.extractBodyLines(h2.content),
+              fields: this.fieldCodec.extractFields(h2.content, fieldDefinitions),
+              bodyLines: this.extractBodyLines(h2.content, fieldDefinitions),
+              matchRule: this.matchRuleCodec.parseRule(h2.content),
             };
 
-            this.addKeywordVariant(keywords, previewMap, groupMap, keyword, h2PreviewData, h2GroupId);
+            this.addKeywordVariant(keywords, previewMap, groupMap, candidateMap, keyword, h2PreviewData, h2GroupId);
             for (const alias of h2Aliases) {
-              this.addKeywordVariant(keywords, previewMap, groupMap, alias, h2PreviewData, h2GroupId);
+              this.addKeywordVariant(keywords, previewMap, groupMap, candidateMap, alias, h2PreviewData, h2GroupId);
             }
 
-            const h3Sections = this.extractH3Sections(h2.content);
+            const h3Sections = this.extractH3Sections(h2.content, fieldDefinitions);
             for (const h3 of h3Sections) {
               if (!h3.title) continue;
-              const h3GroupId = `h3::${parseResult.filePath}::${h1.text}::${h2.text}::${h3.title}`;
+              const h3GroupId = buildH3KeywordGroupId(parseResult.filePath, h1.text, h2.text, h3.title);
               const h3PreviewData: KeywordPreviewData = {
                 keyword: h3.title,
+                groupId: h3GroupId,
+                libraryFolder,
                 filePath: parseResult.filePath,
                 fileName: parseResult.fileName,
                 h1Title: h1.text,
                 h2Title: h2.text,
                 status: h3.status,
+                statusTimeline: h3.statusTimeline,
                 aliases: h3.aliases,
+                fields: h3.fields,
                 bodyLines: h3.bodyLines,
+                matchRule: h3.matchRule,
               };
-              this.addKeywordVariant(keywords, previewMap, groupMap, h3.title, h3PreviewData, h3GroupId);
+              this.addKeywordVariant(keywords, previewMap, groupMap, candidateMap, h3.title, h3PreviewData, h3GroupId);
               for (const alias of h3.aliases) {
-                this.addKeywordVariant(keywords, previewMap, groupMap, alias, h3PreviewData, h3GroupId);
+                this.addKeywordVariant(keywords, previewMap, groupMap, candidateMap, alias, h3PreviewData, h3GroupId);
               }
             }
           }
@@ -188,6 +456,7 @@ export class HighlightManager {
     this.keywordsCache.set(settingFolder, keywords);
     this.keywordPreviewCache.set(settingFolder, previewMap);
     this.keywordGroupCache.set(settingFolder, groupMap);
+    this.keywordCandidateCache.set(settingFolder, candidateMap);
 
     return keywords;
   }
@@ -199,56 +468,37 @@ export class HighlightManager {
     this.keywordsCache.clear();
     this.keywordPreviewCache.clear();
     this.keywordGroupCache.clear();
+    this.keywordCandidateCache.clear();
     this.keywordRegexCache.clear();
     this.keywordsVersion++;
   }
 
+  /**
+   * 重新加载通用词典与各平台词典方案；返回值只反映通用词典的状态
+   */
   async reloadTypoDictionary(): Promise<TypoDictionaryReloadResult> {
     const path = this.plugin.settings.typoDictionaryFolderPath.trim();
-    if (!this.plugin.settings.enableTypoDictionary || !path) {
-      this.resetTypoDictionaryCache();
+    this.resetTypoDictionaryCache();
+    if (!this.plugin.settings.enableTypoDictionary) {
       return { status: "missing-path", count: 0, path };
     }
 
-    const folder = this.plugin.app.vault.getAbstractFileByPath(path);
-    if (!(folder instanceof TFolder)) {
-      this.resetTypoDictionaryCache();
-      return { status: "invalid-folder", count: 0, path };
-    }
-
     try {
-      const prefix = folder.path ? `${folder.path}/` : "";
-      const files = this.plugin.app.vault
-        .getMarkdownFiles()
-        .filter((file) => file.path.startsWith(prefix))
-        .sort((a, b) => a.path.localeCompare(b.path, "zh-Hans-CN"));
-
-      const firstSeenEntryByTypo = new Map<string, TypoDictionaryEntry>();
-      for (const file of files) {
-        const content = await this.plugin.app.vault.cachedRead(file);
-        const parsed = this.parseTypoDictionary(content);
-        for (const entry of parsed) {
-          if (!firstSeenEntryByTypo.has(entry.typo)) {
-            firstSeenEntryByTypo.set(entry.typo, entry);
-          }
-        }
+      const commonRules = path ? await this.loadTypoRules(path) : [];
+      const commonUniqueRules = this.dedupeTypoRules(commonRules ?? []);
+      this.typoRuleSets.set("", this.typoRuleCodec.compile(commonUniqueRules));
+      for (const profile of this.plugin.settings.typoProfiles) {
+        // 方案词典在前：与通用词典重复的词条以方案为准
+        const profileRules = (await this.loadTypoRules(profile.dictionaryFolderPath)) ?? [];
+        this.typoRuleSets.set(
+          profile.name,
+          this.typoRuleCodec.compile(this.dedupeTypoRules([...profileRules, ...commonUniqueRules]))
+        );
       }
 
-      this.typoDictionaryEntries = Array.from(firstSeenEntryByTypo.values());
-      this.typoWarningWords = this.typoDictionaryEntries
-        .map((entry) => entry.typo)
-        .sort((a, b) => {
-          if (a.length !== b.length) return b.length - a.length;
-          return a.localeCompare(b, "zh-Hans-CN");
-        });
-      this.typoCorrectionMap = new Map(
-        this.typoDictionaryEntries
-          .filter((entry) => !!entry.correction && entry.correction.length > 0)
-          .map((entry) => [entry.typo, entry.correction as string])
-      );
-      this.typoWarningRegexCache = { signature: "", regex: null };
-      this.typoReplacementRegexCache = { signature: "", regex: null };
-      return { status: "ok", count: this.typoDictionaryEntries.length, path };
+      if (!path) return { status: "missing-path", count: 0, path };
+      if (commonRules === null) return { status: "invalid-folder", count: 0, path };
+      return { status: "ok", count: commonUniqueRules.length, path };
     } catch (error) {
       console.error("Failed to load typo dictionary:", error);
       this.resetTypoDictionaryCache();
@@ -256,12 +506,45 @@ export class HighlightManager {
     }
   }
 
+  /**
+   * 读取目录及子目录下的全部词典文件；目录不存在时返回 null
+   */
+  private async loadTypoRules(path: string): Promise<TypoRule[] | null> {
+    const folder = this.plugin.app.vault.getAbstractFileByPath(path);
+    if (!(folder instanceof TFolder)) return null;
+
+    const prefix = folder.path ? `${folder.path}/` : "";
+    const files = this.plugin.app.vault
+      .getMarkdownFiles()
+      .filter((file) => file.path.startsWith(prefix))
+      .sort((a, b) => a.path.localeCompare(b.path, "zh-Hans-CN"));
+
+    const rules: TypoRule[] = [];
+    for (const file of files) {
+      const content = await this.plugin.app.vault.cachedRead(file);
+      rules.push(...this.typoRuleCodec.parseDictionary(content));
+    }
+    return rules;
+  }
+
+  private dedupeTypoRules(rules: TypoRule[]): TypoRule[] {
+    const firstSeenRuleByKey = new Map<string, TypoRule>();
+    for (const rule of rules) {
+      if (!firstSeenRuleByKey.has(rule.key)) {
+        firstSeenRuleByKey.set(rule.key, rule);
+      }
+    }
+    return Array.from(firstSeenRuleByKey.values());
+  }
+
   onVaultPathChanged(path: string, oldPath?: string): void {
-    const configured = this.plugin.settings.typoDictionaryFolderPath.trim();
-    if (!configured) return;
-    const inConfigured = path === configured || path.startsWith(`${configured}/`);
-    const oldInConfigured = oldPath === configured || (!!oldPath && oldPath.startsWith(`${configured}/`));
-    if (inConfigured || oldInConfigured) {
+    const configuredFolders = [
+      this.plugin.settings.typoDictionaryFolderPath.trim(),
+      ...this.plugin.settings.typoProfiles.map((profile) => profile.dictionaryFolderPath),
+    ].filter((folder) => folder.length > 0);
+    const isInConfigured = (target?: string) =>
+      !!target && configuredFolders.some((folder) => target === folder || target.startsWith(`${folder}/`));
+    if (isInConfigured(path) || isInConfigured(oldPath)) {
       void this.reloadTypoDictionary().then(() => {
         this.refreshCurrentEditor();
       });
@@ -350,48 +633,117 @@ export class HighlightManager {
     return [...new Set(aliases)];
   }
 
-  private extractBodyLines(lines: string[]): string[] {
+  private extractBodyLines(lines: string[], fieldDefinitions: SettingFieldDefinition[]): string[] {
     const metaLinePattern = /【(?:别名|状态)】/;
     return lines
       .map((line) => line.trim())
       .map((line) => line.replace(/^[-*+]\s+/, "").trim())
       .filter((line) => line.length > 0)
       .filter((line) => !metaLinePattern.test(line))
+      .filter((line) => !this.matchRuleCodec.isRuleLine(line))
+      .filter((line) => !this.fieldCodec.isFieldLine(line, fieldDefinitions))
       .filter((line) => line.length > 0);
   }
 
-  private extractPreferredStatus(lines: string[]): string | undefined {
-    const statusValues: string[] = [];
-
-    for (const line of lines) {
-      const statusTag = "【状态】";
-      const statusIndex = line.indexOf(statusTag);
-      if (statusIndex === -1) continue;
-
-      const rawValue = line.slice(statusIndex + statusTag.length).trim();
-      if (!rawValue) continue;
-
-      const normalizedRaw = rawValue.replace(/\s+/g, " ").trim();
-      if (normalizedRaw.includes("死亡")) {
-        statusValues.push("死亡");
+  /**
+   * 在文本中查找设定关键字（需先调用 extractKeywordsFromSettingFolder 填充缓存）
+   */
+  findKeywordMatches(settingFolder: string, keywords: Set<string>, text: string): KeywordMatch[] {
+    const matches: KeywordMatch[] = [];
+    const keywordRegex = this.getKeywordRegex(settingFolder, keywords);
+    if (!keywordRegex) return matches;
+
+    const keywordGroupMap = this.getKeywordGroupMap(settingFolder);
+    const candidateMap = this.keywordCandidateCache.get(settingFolder);
+    const directives = this.aliasDirectiveCodec.parse(text);
+    const directiveRanges = this.aliasDirectiveCodec.collectDirectiveRanges(text);
+    const segmentCache = new Map<number, Set<number>>();
+    keywordRegex.lastIndex = 0;
+    let match: RegExpExecArray | null = null;
+    while ((match = keywordRegex.exec(text)) !== null) {
+      const matchedKeyword = match[0] ?? "";
+      if (!matchedKeyword) {
+        // 防御性处理：避免零宽匹配导致死循环
+        keywordRegex.lastIndex++;
+        continue;
       }
-      if (normalizedRaw.includes("失效")) {
-        statusValues.push("失效");
+      const from = match.index;
+      if (directiveRanges.some((range) => from >= range.from && from < range.to)) continue;
+
+      let groupId = keywordGroupMap.get(matchedKeyword) ?? `kw::${matchedKeyword}`;
+      const candidates = candidateMap?.get(matchedKeyword);
+      if (candidates && candidates.length > 1 && directives.length > 0) {
+        const target = this.aliasDirectiveCodec.resolveTarget(directives, matchedKeyword, from);
+        const resolved = target ? this.findCandidateByTarget(candidates, target) : null;
+        if (resolved) groupId = resolved.groupId;
       }
 
-      const parts = normalizedRaw.split(/[，,、/|；;]+/);
-      for (const part of parts) {
-        const status = part.trim();
-        if (status) {
-          statusValues.push(status);
+      const matchRule = this.getPreviewForMatch(settingFolder, matchedKeyword, groupId)?.matchRule;
+      if (matchRule && !this.matchRuleCodec.accepts(matchRule, text, from, from + matchedKeyword.length, segmentCache)) {
+        continue;
+      }
+      matches.push({
+        from,
+        to: from + matchedKeyword.length,
+        keyword: matchedKeyword,
+        groupId,
+      });
+    }
+    return matches;
+  }
+
+  /**
+   * 获取设定库中全部条目的预览数据（同一条目的别名只保留一条）
+   */
+  getKeywordEntries(settingFolder: string): KeywordPreviewData[] {
+    const candidateMap = this.keywordCandidateCache.get(settingFolder);
+    if (!candidateMap) return [];
+    const byGroup = new Map<string, KeywordPreviewData>();
+    for (const candidates of candidateMap.values()) {
+      for (const previewData of candidates) {
+        if (!byGroup.has(previewData.groupId)) {
+          byGroup.set(previewData.groupId, previewData);
         }
       }
     }
+    return Array.from(byGroup.values());
+  }
 
-    if (statusValues.length === 0) return undefined;
-    if (statusValues.includes("死亡")) return "死亡";
-    if (statusValues.includes("失效")) return "失效";
-    return statusValues[0];
+  /**
+   * 获取同一关键字/别名对应多个设定条目的冲突列表（需先调用 extractKeywordsFromSettingFolder 填充缓存）
+   */
+  getAliasCollisions(settingFolder: string): AliasCollision[] {
+    const candidateMap = this.keywordCandidateCache.get(settingFolder);
+    if (!candidateMap) return [];
+    const collisions: AliasCollision[] = [];
+    for (const [variant, candidates] of candidateMap) {
+      if (candidates.length > 1) {
+        collisions.push({ variant, candidates: [...candidates] });
+      }
+    }
+    return collisions.sort((a, b) => a.variant.localeCompare(b.variant, "zh-Hans-CN"));
+  }
+
+  /**
+   * 获取关键字命中对应的设定条目（按指令解析后的分组）
+   */
+  getPreviewForMatch(settingFolder: string, keyword: string, groupId: string): KeywordPreviewData | null {
+    const candidates = this.keywordCandidateCache.get(settingFolder)?.get(keyword) ?? [];
+    return candidates.find((candidate) => candidate.groupId === groupId) ?? this.getKeywordPreview(settingFolder, keyword);
+  }
+
+  /**
+   * 按指令中的设定名称找到候选条目：先比对标题，再比对“文件名/标题”“分类/标题”
+   */
+  private findCandidateByTarget(candidates: KeywordPreviewData[], target: string): KeywordPreviewData | null {
+    return (
+      candidates.find((candidate) => candidate.keyword === target) ??
+      candidates.find((candidate) =>
+        target === `${candidate.fileName}/${candidate.keyword}` ||
+        target === `${candidate.h1Title}/${candidate.keyword}`
+      ) ??
+      null
+    );
   }
 
   private getKeywordPreview(settingFolder: string, keyword: string): KeywordPreviewData | null {
@@ -434,30 +786,42 @@ export class HighlightManager {
     keywords: Set<string>,
     previewMap: Map<string, KeywordPreviewData>,
     groupMap: Map<string, string>,
+    candidateMap: Map<string, KeywordPreviewData[]>,
     variant: string,
     previewData: KeywordPreviewData,
     groupId: string
   ): void {
     const normalized = variant.trim();
     if (!normalized) return;
+
+    // 同名关键字记录全部候选，默认指向第一个解析到的条目
+    const candidates = candidateMap.get(normalized) ?? [];
+    if (!candidates.some((candidate) => candidate.groupId === groupId)) {
+      candidates.push(previewData);
+      candidateMap.set(normalized, candidates);
+    }
     if (previewMap.has(normalized)) return;
     keywords.add(normalized);
     previewMap.set(normalized, previewData);
     groupMap.set(normalized, groupId);
   }
 
-  private extractH3Sections(lines: string[]): H3SectionData[] {
+  private extractH3Sections(lines: string[], fieldDefinitions: SettingFieldDefinition[]): H3SectionData[] {
     const sections: H3SectionData[] = [];
     let currentTitle = "";
     let currentLines: string[] = [];
 
     const flush = () => {
       if (!currentTitle) return;
+      const statusTimeline = this.statusCodec.parseTimeline(currentLines);
       sections.push({
         title: currentTitle,
-        status: this.extractPreferredStatus(currentLines),
+        status: this.statusCodec.resolveStatus(statusTimeline, null),
+        statusTimeline,
         aliases: this.extractAliases(currentLines),
-        bodyLines: this.extractBodyLines(currentLines),
+        fields: this.fieldCodec.extractFields(currentLines, fieldDefinitions),
+        bodyLines: this.extractBodyLines(currentLines, fieldDefinitions),
+        matchRule: this.matchRuleCodec.parseRule(currentLines),
       });
     };
 
@@ -579,15 +943,17 @@ export class HighlightManager {
       return;
     }
 
-    const previewData = this.getKeywordPreview(settingFolder, keyword);
+    const groupId = highlightEl.dataset.cwGroupId ?? "";
+    const previewData = this.getPreviewForMatch(settingFolder, keyword, groupId);
     if (!previewData) {
       this.scheduleHidePreview();
       return;
     }
 
     this.clearScheduledHidePreview();
-    const hoverKey = `${settingFolder}::${keyword}`;
-    this.showPreview(previewData, hoverKey, highlightEl, event.clientX, event.clientY);
+    const hoverKey = `${settingFolder}::${keyword}::${groupId}`;
+    const candidates = this.keywordCandidateCache.get(settingFolder)?.get(keyword) ?? [];
+    this.showPreview(previewData, settingFolder, hoverKey, highlightEl, event.clientX, event.clientY, candidates);
   }
 
   async showPreviewForTreeNodeAnchor(anchorEl: HTMLElement, mouseX: number, mouseY: number): Promise<void> {
@@ -632,7 +998,7 @@ export class HighlightManager {
 
     this.clearScheduledHidePreview();
     const hoverKey = `tree::${filePath}::${h1Title}::${h2Title}`;
-    this.showPreview(previewData, hoverKey, anchorEl, mouseX, mouseY);
+    this.showPreview(previewData, settingFolder, hoverKey, anchorEl, mouseX, mouseY);
   }
 
   private findTreeNodePreviewData(
@@ -660,76 +1026,19 @@ export class HighlightManager {
 
   private showPreview(
     previewData: KeywordPreviewData,
+    settingFolder: string,
     hoverKey: string,
     anchorEl: HTMLElement,
     mouseX: number,
-    mouseY: number
+    mouseY: number,
+    candidates: KeywordPreviewData[] = []
   ): void {
     if (!this.previewEl) return;
     const isNewHover = this.previewHoverKey !== hoverKey;
     const isNewAnchor = this.previewAnchorEl !== anchorEl;
 
     if (isNewHover) {
-      this.previewEl.empty();
-
-      const headerEl = this.previewEl.createDiv({ cls: "cw-preview-header" });
-      const titleWrapEl = headerEl.createDiv({ cls: "cw-preview-header-main" });
-      const titleEl = titleWrapEl.createDiv({ cls: "cw-preview-title" });
-      const titleText = previewData.status
-        ? `${previewData.keyword}[${previewData.status}]`
-        : previewData.keyword;
-      titleEl.setText(titleText);
-
-      const locationEl = titleWrapEl.createDiv({ cls: "cw-preview-location" });
-      locationEl.setText(`${previewData.fileName}/${previewData.h1Title}`);
-
-      const actionsEl = headerEl.createDiv({ cls: "cw-preview-actions" });
-      const searchBtn = actionsEl.createEl("button", {
-        cls: "cw-preview-btn",
-        attr: { "aria-label": "搜索", title: "搜索" },
-      });
-      setIcon(searchBtn, "search");
-      searchBtn.addEventListener("click", async (e) => {
-        e.preventDefault();
-        e.stopPropagation();
-        await this.openGlobalSearch(previewData.keyword);
-      });
-
-      const editBtn = actionsEl.createEl("button", {
-        cls: "cw-preview-btn",
-        attr: { "aria-label": "编辑", title: "编辑" },
-      });
-      setIcon(editBtn, "pen");
-      editBtn.addEventListener("click", async (e) => {
-        e.preventDefault();
-        e.stopPropagation();
-        await this.openKeywordSource(previewData);
-      });
-
-      if (previewData.aliases.length > 0) {
-        const blankLineEl = this.previewEl.createDiv({ cls: "cw-preview-blank-line" });
-        blankLineEl.setText(" ");
-
-        const aliasLabelEl = this.previewEl.createDiv({ cls: "cw-preview-label" });
-        aliasLabelEl.setText("别名");
-
-        const aliasValueEl = this.previewEl.createDiv({ cls: "cw-preview-aliases" });
-        aliasValueEl.setText(previewData.aliases.join(" "));
-      }
-
-      this.previewEl.createDiv({ cls: "cw-preview-divider" });
-
-      const bodyContainer = this.previewEl.createDiv({ cls: "cw-preview-body" });
-      if (previewData.bodyLines.length === 0) {
-        bodyContainer.createDiv({ cls: "cw-preview-empty", text: "（无设定内容）" });
-      } else {
-        const bodyListEl = bodyContainer.createEl("ul", { cls: "cw-preview-list" });
-        for (const line of previewData.bodyLines) {
-          const lineEl = bodyListEl.createEl("li", { cls: "cw-preview-line" });
-          lineEl.setText(line);
-        }
-      }
-
+      this.renderPreviewContent(this.previewEl, previewData, settingFolder, candidates);
       this.previewHoverKey = hoverKey;
       this.previewAnchorEl = anchorEl;
       this.currentPreviewData = previewData;
@@ -762,6 +1071,130 @@ export class HighlightManager {
     }
   }
 
+  /**
+   * 渲染预览栏内容；同名关键字对应多个设定时显示候选标签页
+   */
+  private renderPreviewContent(
+    previewEl: HTMLElement,
+    previewData: KeywordPreviewData,
+    settingFolder: string,
+    candidates: KeywordPreviewData[]
+  ): void {
+    previewEl.empty();
+
+    if (candidates.length > 1) {
+      const tabsEl = previewEl.createDiv({ cls: "cw-preview-tabs" });
+      for (const candidate of candidates) {
+        const tabEl = tabsEl.createEl("button", {
+          cls: "cw-preview-tab",
+          text: candidate.keyword,
+          attr: { title: `${candidate.fileName}/${candidate.h1Title}` },
+        });
+        if (candidate.groupId === previewData.groupId) {
+          tabEl.addClass("is-active");
+        }
+        tabEl.addEventListener("click", (e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          if (candidate.groupId === this.currentPreviewData?.groupId) return;
+          this.renderPreviewContent(previewEl, candidate, settingFolder, candidates);
+          this.currentPreviewData = candidate;
+          this.applyBodyMaxHeight(
+            this.plugin.settings.highlightPreviewStyle.height,
+            this.plugin.settings.highlightPreviewStyle.maxBodyLines
+          );
+        });
+      }
+    }
+
+    const headerEl = previewEl.createDiv({ cls: "cw-preview-header" });
+    const titleWrapEl = headerEl.createDiv({ cls: "cw-preview-header-main" });
+    const titleEl = titleWrapEl.createDiv({ cls: "cw-preview-title" });
+    const status = this.statusCodec.resolveStatus(previewData.statusTimeline, this.getActiveChapterNumber());
+    const titleText = status
+      ? `${previewData.keyword}[${status}]`
+      : previewData.keyword;
+    titleEl.setText(titleText);
+
+    const locationEl = titleWrapEl.createDiv({ cls: "cw-preview-location" });
+    const libraryLabel = this.getLibraryLabel(settingFolder, previewData.libraryFolder);
+    locationEl.setText(
+      libraryLabel
+        ? `${libraryLabel}：${previewData.fileName}/${previewData.h1Title}`
+        : `${previewData.fileName}/${previewData.h1Title}`
+    );
+
+    const occurrenceSummary = this.plugin.keywordOccurrenceIndex.getSummary(settingFolder, previewData.groupId);
+    const occurrenceEl = titleWrapEl.createDiv({ cls: "cw-preview-occurrence" });
+    occurrenceEl.setText(
+      occurrenceSummary
+        ? this.plugin.keywordOccurrenceIndex.formatSummary(occurrenceSummary)
+        : "正文出现统计中…"
+    );
+
+    const actionsEl = headerEl.createDiv({ cls: "cw-preview-actions" });
+    const searchBtn = actionsEl.createEl("button", {
+      cls: "cw-preview-btn",
+      attr: { "aria-label": "搜索", title: "搜索" },
+    });
+    setIcon(searchBtn, "search");
+    searchBtn.addEventListener("click", async (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      await this.openGlobalSearch(previewData.keyword);
+    });
+
+    const editBtn = actionsEl.createEl("button", {
+      cls: "cw-preview-btn",
+      attr: { "aria-label": "编辑", title: "编辑" },
+    });
+    setIcon(editBtn, "pen");
+    editBtn.addEventListener("click", async (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      await this.openKeywordSource(previewData);
+    });
+
+    const timelineText = this.statusCodec.formatTimeline(previewData.statusTimeline);
+    if (timelineText) {
+      const timelineEl = titleWrapEl.createDiv({ cls: "cw-preview-status-timeline" });
+      timelineEl.setText(`状态变化：${timelineText}`);
+    }
+
+    if (previewData.aliases.length > 0) {
+      const blankLineEl = previewEl.createDiv({ cls: "cw-preview-blank-line" });
+      blankLineEl.setText(" ");
+
+      const aliasLabelEl = previewEl.createDiv({ cls: "cw-preview-label" });
+      aliasLabelEl.setText("别名");
+
+      const aliasValueEl = previewEl.createDiv({ cls: "cw-preview-aliases" });
+      aliasValueEl.setText(previewData.aliases.join(" "));
+    }
+
+    if (previewData.fields.length > 0) {
+      const fieldTableEl = previewEl.createEl("table", { cls: "cw-preview-fields" });
+      for (const field of previewData.fields) {
+        const rowEl = fieldTableEl.createEl("tr");
+        rowEl.createEl("th", { cls: "cw-preview-field-name", text: field.name });
+        rowEl.createEl("td", { cls: "cw-preview-field-value", text: this.fieldCodec.formatValue(field) });
+      }
+    }
+
+    previewEl.createDiv({ cls: "cw-preview-divider" });
+
+    const bodyContainer = previewEl.createDiv({ cls: "cw-preview-body" });
+    if (previewData.bodyLines.length === 0) {
+      bodyContainer.createDiv({ cls: "cw-preview-empty", text: "（无设定内容）" });
+    } else {
+      const bodyListEl = bodyContainer.createEl("ul", { cls: "cw-preview-list" });
+      for (const line of previewData.bodyLines) {
+        const lineEl = bodyListEl.createEl("li", { cls: "cw-preview-line" });
+        lineEl.setText(line);
+      }
+    }
+  }
+
   private hidePreview(): void {
     this.clearScheduledHidePreview();
     if (!this.previewEl) return;
@@ -828,22 +1261,31 @@ export class HighlightManager {
     }, 80);
   }
 
-  private async openKeywordSource(previewData: KeywordPreviewData): Promise<void> {
+  /**
+   * 打开设定条目所在文件，并定位到条目的第一行内容
+   */
+  async openKeywordSource(previewData: KeywordPreviewData): Promise<void> {
     const abstractFile = this.app.vault.getAbstractFileByPath(previewData.filePath);
     if (!(abstractFile instanceof TFile)) return;
 
     const content = await this.app.vault.read(abstractFile);
     const lines = content.split("\n");
     const targetLine = this.findFirstContentLine(lines, previewData.h1Title, previewData.h2Title);
+    await this.openFileAtLine(abstractFile, targetLine);
+  }
 
-    const targetLeaf = await this.plugin.openFileWithSettings(abstractFile, { revealWhenNewTab: true });
+  /**
+   * 打开文件并将光标定位、居中到指定行
+   */
+  async openFileAtLine(file: TFile, line: number, ch = 0): Promise<void> {
+    const targetLeaf = await this.plugin.openFileWithSettings(file, { revealWhenNewTab: true });
     if (!targetLeaf) return;
 
     const targetView = targetLeaf.view instanceof MarkdownView ? targetLeaf.view : null;
     if (!targetView?.editor) return;
 
-    targetView.editor.setCursor({ line: targetLine, ch: 0 });
-    this.centerEditorLine(targetView.editor, targetLine);
+    targetView.editor.setCursor({ line, ch });
+    this.centerEditorLine(targetView.editor, line);
     this.hidePreview();
   }
 
@@ -912,106 +1354,122 @@ export class HighlightManager {
   }
 
   private resetTypoDictionaryCache(): void {
-    this.typoDictionaryEntries = [];
-    this.typoWarningWords = [];
-    this.typoCorrectionMap.clear();
-    this.typoWarningRegexCache = { signature: "", regex: null };
-    this.typoReplacementRegexCache = { signature: "", regex: null };
-  }
-
-  private parseTypoDictionary(content: string): TypoDictionaryEntry[] {
-    const lines = content.split(/\r?\n/);
-    const entries: TypoDictionaryEntry[] = [];
-    for (const rawLine of lines) {
-      const line = rawLine.trim();
-      if (!line) continue;
-
-      const atIndex = line.indexOf("@");
-      if (atIndex === -1) {
-        entries.push({ typo: line });
-        continue;
-      }
-
-      const typo = line.slice(0, atIndex).trim();
-      const correctionRaw = line.slice(atIndex + 1).trim();
-      if (!typo) continue;
-      entries.push({
-        typo,
-        correction: correctionRaw.length > 0 ? correctionRaw : undefined,
-      });
-    }
-    return entries;
+    this.typoRuleSets.clear();
   }
 
-  private escapeRegex(value: string): string {
-    return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  /**
+   * 检测错别字，filePath 用于选择小说库的词典方案并判断只在部分小说库生效的规则
+   */
+  collectTypoWarnings(text: string, filePath: string): TypoRuleMatch[] {
+    if (!this.plugin.settings.enableTypoDictionary) {
+      return [];
+    }
+    const novelFolder = this.getNovelFolderForContextFile(filePath);
+    const profileName =
+      this.plugin.settings.folderMappings.find((mapping) => mapping.novelFolder === novelFolder)?.typoProfile ?? "";
+    const ruleSet = this.typoRuleSets.get(profileName) ?? this.typoRuleSets.get("");
+    if (!ruleSet || ruleSet.count === 0) {
+      return [];
+    }
+    return this.typoRuleCodec.findMatches(ruleSet, text, novelFolder);
   }
 
-  private getTypoWarningRegex(): RegExp | null {
-    if (this.typoWarningWords.length === 0) return null;
-    const signature = this.typoWarningWords.join("\u0001");
-    if (this.typoWarningRegexCache.signature === signature) {
-      return this.typoWarningRegexCache.regex;
+  /**
+   * 收集在死亡/失效章节之后、仍在对白中被提及的设定
+   */
+  private collectDeadMentionWarnings(
+    settingFolder: string,
+    file: TFile,
+    text: string,
+    matches: KeywordMatch[]
+  ): Array<{ from: number; to: number; message: string }> {
+    if (!this.plugin.settings.enableDeadMentionCheck || matches.length === 0) {
+      return [];
     }
+    const chapterNumber = this.plugin.chapterManager.extractChapterNumber(file.basename);
+    if (chapterNumber === null) return [];
+
+    const dialogueRanges = this.collectDialogueRanges(text);
+    if (dialogueRanges.length === 0) return [];
+
+    const warnings: Array<{ from: number; to: number; message: string }> = [];
+    const sortedMatches = [...matches].sort((a, b) => a.from - b.from);
+    let rangeIndex = 0;
+    for (const match of sortedMatches) {
+      while (rangeIndex < dialogueRanges.length && (dialogueRanges[rangeIndex]?.to ?? 0) <= match.from) {
+        rangeIndex++;
+      }
+      const range = dialogueRanges[rangeIndex];
+      if (!range || range.from > match.from || range.to < match.to) continue;
 
-    const pattern = this.typoWarningWords.map((word) => this.escapeRegex(word)).join("|");
-    const regex = pattern.length > 0 ? new RegExp(pattern, "g") : null;
-    this.typoWarningRegexCache = { signature, regex };
-    return regex;
-  }
+      const previewData = this.getPreviewForMatch(settingFolder, match.keyword, match.groupId);
+      if (!previewData) continue;
+      // 按当前章节生效的状态判断，复活后的章节不再标记
+      const deadFromChapter = this.statusCodec.getDeadFromChapter(previewData.statusTimeline, chapterNumber);
+      if (deadFromChapter === null || chapterNumber <= deadFromChapter) continue;
 
-  private getTypoReplacementRegex(): RegExp | null {
-    const typos = Array.from(this.typoCorrectionMap.keys()).sort((a, b) => {
-      if (a.length !== b.length) return b.length - a.length;
-      return a.localeCompare(b, "zh-Hans-CN");
-    });
-    if (typos.length === 0) return null;
-
-    const signature = typos.join("\u0001");
-    if (this.typoReplacementRegexCache.signature === signature) {
-      return this.typoReplacementRegexCache.regex;
+      const status = this.statusCodec.resolveStatus(previewData.statusTimeline, chapterNumber) ?? "死亡";
+      warnings.push({
+        from: match.from,
+        to: match.to,
+        message: `${previewData.keyword}自第${deadFromChapter}章起已${status}，却在对白中出现`,
+      });
     }
-
-    const pattern = typos.map((typo) => this.escapeRegex(typo)).join("|");
-    const regex = pattern.length > 0 ? new RegExp(pattern, "g") : null;
-    this.typoReplacementRegexCache = { signature, regex };
-    return regex;
+    return warnings;
   }
 
-  private collectTypoWarnings(text: string): Array<{ from: number; to: number }> {
-    if (!this.plugin.settings.enableTypoDictionary || this.typoWarningWords.length === 0) {
-      return [];
-    }
-    const regex = this.getTypoWarningRegex();
-    if (!regex) return [];
+  /**
+   * 收集对白（中文引号、直角引号内）的范围，引号不跨行
+   */
+  private collectDialogueRanges(text: string): Array<{ from: number; to: number }> {
+    const ranges: Array<{ from: number; to: number }> = [];
+    const closeByOpen: Record<string, string> = { "“": "”", "「": "」", "『": "』" };
+    let openFrom = -1;
+    let expectedClose = "";
 
-    const warnings: Array<{ from: number; to: number }> = [];
-    regex.lastIndex = 0;
-    let match: RegExpExecArray | null = null;
-    while ((match = regex.exec(text)) !== null) {
-      const matched = match[0] ?? "";
-      if (!matched) {
-        regex.lastIndex++;
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i] ?? "";
+      if (ch === "\n") {
+        openFrom = -1;
+        expectedClose = "";
         continue;
       }
-      warnings.push({
-        from: match.index,
-        to: match.index + matched.length,
-      });
+      if (openFrom === -1) {
+        const close = closeByOpen[ch];
+        if (close) {
+          openFrom = i + 1;
+          expectedClose = close;
+        }
+        continue;
+      }
+      if (ch === expectedClose) {
+        ranges.push({ from: openFrom, to: i });
+        openFrom = -1;
+        expectedClose = "";
+      }
     }
-    return warnings;
+    return ranges;
   }
 
   /**
-   * 收集需要标记的常见标点位置
+   * 当前正在编辑的章节号（活动文件不是章节时返回 null）
    */
-  private collectPunctuationWarnings(text: string): number[] {
+  private getActiveChapterNumber(): number | null {
+    const activeFile = this.app.workspace.getActiveFile();
+    if (!activeFile) return null;
+    return this.plugin.chapterManager.extractChapterNumber(activeFile.basename);
+  }
+
+  /**
+   * 收集需要标记的常见标点位置及其规则名
+   */
+  private collectPunctuationWarnings(text: string): Array<{ index: number; ruleName: string }> {
     const config = this.plugin.settings.punctuationCheck;
     if (!config?.enabled) {
       return [];
     }
 
-    const warningIndexes = new Set<number>();
+    const warningRules = new Map<number, string>();
     const openDoubleQuoteIndexes: number[] = [];
     const openSingleQuoteIndexes: number[] = [];
     const otherPairOpenIndexes = new Map<string, number[]>();
@@ -1023,21 +1481,34 @@ export class HighlightManager {
       }
     }
 
+    // 引号按段落配对：段末仍未闭合的引号，仅在允许跨段延续且下一段以开引号起首时不标记
+    const flushOpenQuotes = (openIndexes: number[], lineEnd: number, openChars: string, ruleName: string): void => {
+      if (openIndexes.length > 0 && config.quoteContinuation && continuesIntoNextParagraph(text, lineEnd, openChars)) {
+        openIndexes.shift();
+      }
+      for (const index of openIndexes) warningRules.set(index, ruleName);
+      openIndexes.length = 0;
+    };
+
     for (let i = 0; i < text.length; i++) {
       const ch = text[i] ?? "";
-      if (config.comma && ch === ",") warningIndexes.add(i);
+      if (ch === "\n") {
+        flushOpenQuotes(openDoubleQuoteIndexes, i, "\"“", PUNCTUATION_RULE_NAMES.doubleQuote);
+        flushOpenQuotes(openSingleQuoteIndexes, i, "'‘", PUNCTUATION_RULE_NAMES.singleQuote);
+      }
+      if (config.comma && ch === ",") warningRules.set(i, PUNCTUATION_RULE_NAMES.comma);
       if (config.period && ch === ".") {
         const prevChar = i > 0 ? (text[i - 1] ?? "") : "";
         const nextChar = i + 1 < text.length ? (text[i + 1] ?? "") : "";
         const isBetweenDigits = /\d/.test(prevChar) && /\d/.test(nextChar);
-        if (!isBetweenDigits) warningIndexes.add(i);
+        if (!isBetweenDigits) warningRules.set(i, PUNCTUATION_RULE_NAMES.period);
       }
-      if (config.colon && ch === ":") warningIndexes.add(i);
-      if (config.semicolon && ch === ";") warningIndexes.add(i);
-      if (config.exclamation && ch === "!") warningIndexes.add(i);
-      if (config.question && ch === "?") warningIndexes.add(i);
-      if (config.doubleQuote && ch === "\"") warningIndexes.add(i);
-      if (config.singleQuote && ch === "'") warningIndexes.add(i);
+      if (config.colon && ch === ":") warningRules.set(i, PUNCTUATION_RULE_NAMES.colon);
+      if (config.semicolon && ch === ";") warningRules.set(i, PUNCTUATION_RULE_NAMES.semicolon);
+      if (config.exclamation && ch === "!") warningRules.set(i, PUNCTUATION_RULE_NAMES.exclamation);
+      if (config.question && ch === "?") warningRules.set(i, PUNCTUATION_RULE_NAMES.question);
+      if (config.doubleQuote && ch === "\"") warningRules.set(i, PUNCTUATION_RULE_NAMES.doubleQuote);
+      if (config.singleQuote && ch === "'") warningRules.set(i, PUNCTUATION_RULE_NAMES.singleQuote);
 
       if (config.doubleQuote) {
         if (ch === "“") {
@@ -1046,7 +1517,7 @@ export class HighlightManager {
           if (openDoubleQuoteIndexes.length > 0) {
             openDoubleQuoteIndexes.pop();
           } else {
-            warningIndexes.add(i);
+            warningRules.set(i, PUNCTUATION_RULE_NAMES.doubleQuote);
           }
         }
       }
@@ -1058,7 +1529,7 @@ export class HighlightManager {
           if (openSingleQuoteIndexes.length > 0) {
             openSingleQuoteIndexes.pop();
           } else {
-            warningIndexes.add(i);
+            warningRules.set(i, PUNCTUATION_RULE_NAMES.singleQuote);
           }
         }
       }
@@ -1074,20 +1545,103 @@ export class HighlightManager {
             if (targetStack && targetStack.length > 0) {
               targetStack.pop();
             } else {
-              warningIndexes.add(i);
+              warningRules.set(i, PUNCTUATION_RULE_NAMES.otherCnPairs);
             }
           }
         }
       }
     }
 
-    for (const index of openDoubleQuoteIndexes) warningIndexes.add(index);
-    for (const index of openSingleQuoteIndexes) warningIndexes.add(index);
+    flushOpenQuotes(openDoubleQuoteIndexes, text.length, "\"“", PUNCTUATION_RULE_NAMES.doubleQuote);
+    flushOpenQuotes(openSingleQuoteIndexes, text.length, "'‘", PUNCTUATION_RULE_NAMES.singleQuote);
     for (const openIndexes of otherPairOpenIndexes.values()) {
-      for (const index of openIndexes) warningIndexes.add(index);
+      for (const index of openIndexes) warningRules.set(index, PUNCTUATION_RULE_NAMES.otherCnPairs);
     }
 
-    return Array.from(warningIndexes).sort((a, b) => a - b);
+    return Array.from(warningRules.entries())
+      .map(([index, ruleName]) => ({ index, ruleName }))
+      .sort((a, b) => a.index - b.index);
+  }
+
+  /**
+   * 仅已配置小说库中的文件执行修正（与检测行为一致）
+   */
+  isProofreadableFile(filePath: string): boolean {
+    const settingFolder = this.getSettingFolderForFile(filePath);
+    return !!settingFolder && !this.isFileInSettingLibraries(filePath, settingFolder);
+  }
+
+  /**
+   * 汇总文本中的错别字与标点修正，按位置排序；标点落在错别字范围内时以错别字为准
+   */
+  collectProofreadChanges(text: string, filePath: string): ProofreadChange[] {
+    const typoChanges: ProofreadChange[] = this.applyTypoFixes(text, filePath).fixes.map((fix) => ({
+      kind: "typo",
+      from: fix.from,
+      to: fix.to,
+      text: fix.text,
+      replacement: fix.replacement,
+      ruleName: fix.ruleName,
+    }));
+    const punctuationChanges = this.applyPunctuationFixes(text).fixes.filter(
+      (change) => !typoChanges.some((typo) => change.from < typo.to && change.to > typo.from)
+    );
+    return [...typoChanges, ...punctuationChanges].sort((a, b) => a.from - b.from);
+  }
+
+  /**
+   * 全书校对：与正文标记一致的错别字与标点问题，按位置排序
+   */
+  collectProofreadIssues(text: string, filePath: string): ProofreadIssue[] {
+    const typoIssues: ProofreadIssue[] = this.collectTypoWarnings(text, filePath).map((warning) => ({
+      kind: "typo",
+      from: warning.from,
+      to: warning.to,
+      ruleName: warning.ruleName,
+      severity: warning.severity,
+      replacement: warning.replacement,
+    }));
+    const punctuationIssues: ProofreadIssue[] = this.collectPunctuationWarnings(text).map((warning) => ({
+      kind: "punctuation",
+      from: warning.index,
+      to: warning.index + 1,
+      ruleName: warning.ruleName,
+      severity: null,
+      replacement: null,
+    }));
+    return [...typoIssues, ...punctuationIssues].sort((a, b) => a.from - b.from);
+  }
+
+  /**
+   * 应用可安全批量执行的修正：词典中带正确词的错别字与英文标点替换，不含引号与括号配对
+   */
+  applySafeProofreadFixes(text: string, filePath: string): { text: string; changes: ProofreadChange[] } {
+    const protectedRanges = this.getProtectedMarkdownRanges(text);
+    const changes = this.collectProofreadChanges(text, filePath).filter(
+      (change) =>
+        (change.kind === "typo" || !PAIRING_RULE_NAMES.has(change.ruleName)) &&
+        !protectedRanges.some((range) => change.from < range.to && change.to > range.from)
+    );
+    return { text: this.replaceRanges(text, changes), changes };
+  }
+
+  /**
+   * 批量修正需要跳过的区域，见 PROTECTED_MARKDOWN_PATTERNS
+   */
+  private getProtectedMarkdownRanges(text: string): Array<{ from: number; to: number }> {
+    const ranges: Array<{ from: number; to: number }> = [];
+    for (const pattern of PROTECTED_MARKDOWN_PATTERNS) {
+      pattern.lastIndex = 0;
+      let match: RegExpExecArray | null = null;
+      while ((match = pattern.exec(text)) !== null) {
+        if (match[0].length === 0) {
+          pattern.lastIndex++;
+          continue;
+        }
+        ranges.push({ from: match.index, to: match.index + match[0].length });
+      }
+    }
+    return ranges;
   }
 
   /**
@@ -1104,18 +1658,20 @@ export class HighlightManager {
       return;
     }
 
-    const settingFolder = this.getSettingFolderForFile(activeView.file.path);
-    if (!settingFolder) {
-      return;
-    }
-
-    // 仅在已配置小说库中的文件执行（与检测行为一致）
-    if (this.isFileInFolder(activeView.file.path, settingFolder)) {
+    if (!this.isProofreadableFile(activeView.file.path)) {
       return;
     }
 
     const originalText = activeView.editor.getValue();
-    const { text: fixedText, changedCount } = this.applyPunctuationFixes(originalText);
+    const { text: fixedText, changedCount, unbalanced } = this.applyPunctuationFixes(originalText);
+    if (unbalanced.length > 0) {
+      const listed = unbalanced
+        .slice(0, UNBALANCED_SUMMARY_LIMIT)
+        .map((paragraph) => `第 ${paragraph.line} 行（${paragraph.ruleName}）`)
+        .join("、");
+      const more = unbalanced.length > UNBALANCED_SUMMARY_LIMIT ? ` 等 ${unbalanced.length} 段` : "";
+      new Notice(`以下段落引号不成对，未自动修正：${listed}${more}`, 8000);
+    }
     if (changedCount <= 0 || fixedText === originalText) {
       return;
     }
@@ -1136,18 +1692,12 @@ export class HighlightManager {
       return { replacementCount: 0 };
     }
 
-    const settingFolder = this.getSettingFolderForFile(activeView.file.path);
-    if (!settingFolder) {
-      return { replacementCount: 0 };
-    }
-
-    // 仅在已配置小说库中的文件执行（与检测行为一致）
-    if (this.isFileInFolder(activeView.file.path, settingFolder)) {
+    if (!this.isProofreadableFile(activeView.file.path)) {
       return { replacementCount: 0 };
     }
 
     const originalText = activeView.editor.getValue();
-    const { text: fixedText, replacementCount } = this.applyTypoFixes(originalText);
+    const { text: fixedText, replacementCount, fixes } = this.applyTypoFixes(originalText, activeView.file.path);
     if (replacementCount <= 0 || fixedText === originalText) {
       return { replacementCount: 0 };
     }
@@ -1156,19 +1706,77 @@ export class HighlightManager {
     activeView.editor.setValue(fixedText);
     activeView.editor.setCursor(cursor);
     this.refreshCurrentEditor();
+
+    const countByRule = new Map<string, number>();
+    for (const fix of fixes) {
+      countByRule.set(fix.ruleName, (countByRule.get(fix.ruleName) ?? 0) + 1);
+    }
+    const summary = Array.from(countByRule.entries())
+      .map(([ruleName, count]) => `${ruleName} ×${count}`)
+      .join("，");
+    new Notice(`已修正 ${replacementCount} 处错别字：${summary}`);
     return { replacementCount };
   }
 
-  private applyPunctuationFixes(text: string): { text: string; changedCount: number } {
+  /**
+   * 按段落（行）确定引号的开闭：段内引号依次交替开闭，段落之间互不影响
+   * 段内引号为奇数个时，若允许跨段延续且下一段以开引号起首，最后一个引号保持开引号；否则整段不修正，记为不成对
+   */
+  private planQuoteFixes(
+    text: string,
+    straightChar: string,
+    openChar: string,
+    closeChar: string
+  ): { expected: Map<number, string>; unbalancedLines: number[] } {
+    const allowContinuation = this.plugin.settings.punctuationCheck.quoteContinuation;
+    const expected = new Map<number, string>();
+    const unbalancedLines: number[] = [];
+    let lineStart = 0;
+    let lineNumber = 1;
+    while (lineStart <= text.length) {
+      const newline = text.indexOf("\n", lineStart);
+      const lineEnd = newline === -1 ? text.length : newline;
+      const quoteIndexes: number[] = [];
+      for (let i = lineStart; i < lineEnd; i++) {
+        const ch = text[i];
+        if (ch === straightChar || ch === openChar || ch === closeChar) quoteIndexes.push(i);
+      }
+
+      const balanced =
+        quoteIndexes.length % 2 === 0 ||
+        (allowContinuation && continuesIntoNextParagraph(text, lineEnd, straightChar + openChar));
+      if (balanced) {
+        quoteIndexes.forEach((index, order) => expected.set(index, order % 2 === 0 ? openChar : closeChar));
+      } else {
+        unbalancedLines.push(lineNumber);
+      }
+
+      if (newline === -1) break;
+      lineStart = newline + 1;
+      lineNumber++;
+    }
+    return { expected, unbalancedLines };
+  }
+
+  private applyPunctuationFixes(text: string): {
+    text: string;
+    changedCount: number;
+    fixes: ProofreadChange[];
+    unbalanced: Array<{ line: number; ruleName: string }>;
+  } {
     const config = this.plugin.settings.punctuationCheck;
     if (!config?.enabled) {
-      return { text, changedCount: 0 };
+      return { text, changedCount: 0, fixes: [], unbalanced: [] };
     }
 
     const chars = text.split("");
     let changedCount = 0;
-    let needOpenDoubleQuote = true;
-    let needOpenSingleQuote = true;
+    const doubleQuotePlan = config.doubleQuote
+      ? this.planQuoteFixes(text, "\"", "“", "”")
+      : { expected: new Map<number, string>(), unbalancedLines: [] };
+    const singleQuotePlan = config.singleQuote
+      ? this.planQuoteFixes(text, "'", "‘", "’")
+      : { expected: new Map<number, string>(), unbalancedLines: [] };
     const otherPairNeedOpen = new Map<string, boolean>();
     const otherPairOpenToClose = new Map<string, string>();
     const otherPairCloseToOpen = new Map<string, string>();
@@ -1180,9 +1788,11 @@ export class HighlightManager {
       }
     }
 
-    const replaceAt = (index: number, expected: string): void => {
+    const ruleByIndex = new Map<number, string>();
+    const replaceAt = (index: number, expected: string, ruleName: string): void => {
       if (chars[index] !== expected) {
         chars[index] = expected;
+        ruleByIndex.set(index, ruleName);
         changedCount++;
       }
     };
@@ -1191,7 +1801,7 @@ export class HighlightManager {
       let ch = chars[i] ?? "";
 
       if (config.comma && ch === ",") {
-        replaceAt(i, "，");
+        replaceAt(i, "，", PUNCTUATION_RULE_NAMES.comma);
         ch = chars[i] ?? "";
       }
       if (config.period && ch === ".") {
@@ -1199,38 +1809,36 @@ export class HighlightManager {
         const nextChar = i + 1 < text.length ? (text[i + 1] ?? "") : "";
         const isBetweenDigits = /\d/.test(prevChar) && /\d/.test(nextChar);
         if (!isBetweenDigits) {
-          replaceAt(i, "。");
+          replaceAt(i, "。", PUNCTUATION_RULE_NAMES.period);
           ch = chars[i] ?? "";
         }
       }
       if (config.semicolon && ch === ";") {
-        replaceAt(i, "；");
+        replaceAt(i, "；", PUNCTUATION_RULE_NAMES.semicolon);
         ch = chars[i] ?? "";
       }
       if (config.exclamation && ch === "!") {
-        replaceAt(i, "！");
+        replaceAt(i, "！", PUNCTUATION_RULE_NAMES.exclamation);
         ch = chars[i] ?? "";
       }
       if (config.question && ch === "?") {
-        replaceAt(i, "？");
+        replaceAt(i, "？", PUNCTUATION_RULE_NAMES.question);
         ch = chars[i] ?? "";
       }
       if (config.colon && ch === ":") {
-        replaceAt(i, "：");
+        replaceAt(i, "：", PUNCTUATION_RULE_NAMES.colon);
         ch = chars[i] ?? "";
       }
 
-      if (config.doubleQuote && (ch === "\"" || ch === "“" || ch === "”")) {
-        const expected = needOpenDoubleQuote ? "“" : "”";
-        replaceAt(i, expected);
-        needOpenDoubleQuote = !needOpenDoubleQuote;
+      const expectedDoubleQuote = doubleQuotePlan.expected.get(i);
+      if (expectedDoubleQuote) {
+        replaceAt(i, expectedDoubleQuote, PUNCTUATION_RULE_NAMES.doubleQuote);
         ch = chars[i] ?? "";
       }
 
-      if (config.singleQuote && (ch === "'" || ch === "‘" || ch === "’")) {
-        const expected = needOpenSingleQuote ? "‘" : "’";
-        replaceAt(i, expected);
-        needOpenSingleQuote = !needOpenSingleQuote;
+      const expectedSingleQuote = singleQuotePlan.expected.get(i);
+      if (expectedSingleQuote) {
+        replaceAt(i, expectedSingleQuote, PUNCTUATION_RULE_NAMES.singleQuote);
         ch = chars[i] ?? "";
       }
 
@@ -1240,36 +1848,53 @@ export class HighlightManager {
           const closeChar = otherPairOpenToClose.get(openChar) ?? "";
           const needOpen = otherPairNeedOpen.get(openChar) ?? true;
           const expected = needOpen ? openChar : closeChar;
-          replaceAt(i, expected);
+          replaceAt(i, expected, PUNCTUATION_RULE_NAMES.otherCnPairs);
           otherPairNeedOpen.set(openChar, !needOpen);
         }
       }
     }
 
-    return { text: chars.join(""), changedCount };
-  }
-
-  private applyTypoFixes(text: string): { text: string; replacementCount: number } {
-    if (!this.plugin.settings.enableTypoDictionary || this.typoCorrectionMap.size === 0) {
-      return { text, replacementCount: 0 };
+    const fixes: ProofreadChange[] = [];
+    for (const [index, ruleName] of Array.from(ruleByIndex.entries()).sort((a, b) => a[0] - b[0])) {
+      const replacement = chars[index] ?? "";
+      const original = text[index] ?? "";
+      if (replacement === original) continue;
+      fixes.push({ kind: "punctuation", from: index, to: index + 1, text: original, replacement, ruleName });
     }
 
-    const regex = this.getTypoReplacementRegex();
-    if (!regex) {
-      return { text, replacementCount: 0 };
+    const unbalanced = [
+      ...doubleQuotePlan.unbalancedLines.map((line) => ({ line, ruleName: PUNCTUATION_RULE_NAMES.doubleQuote })),
+      ...singleQuotePlan.unbalancedLines.map((line) => ({ line, ruleName: PUNCTUATION_RULE_NAMES.singleQuote })),
+    ].sort((a, b) => a.line - b.line);
+
+    return { text: chars.join(""), changedCount, fixes, unbalanced };
+  }
+
+  /**
+   * 按词典修正错别字，返回每处修正及其规则名
+   */
+  private applyTypoFixes(text: string, filePath: string): { text: string; replacementCount: number; fixes: TypoFix[] } {
+    const fixes: TypoFix[] = this.collectTypoWarnings(text, filePath).filter(
+      (match): match is TypoFix => match.replacement !== null && match.replacement !== match.text
+    );
+    if (fixes.length === 0) {
+      return { text, replacementCount: 0, fixes };
     }
 
-    let replacementCount = 0;
-    const replaced = text.replace(regex, (matched) => {
-      const correction = this.typoCorrectionMap.get(matched);
-      if (!correction || correction === matched) {
-        return matched;
-      }
-      replacementCount++;
-      return correction;
-    });
+    return { text: this.replaceRanges(text, fixes), replacementCount: fixes.length, fixes };
+  }
 
-    return { text: replaced, replacementCount };
+  /**
+   * 按位置升序替换互不重叠的范围
+   */
+  private replaceRanges(text: string, ranges: Array<{ from: number; to: number; replacement: string }>): string {
+    let replaced = "";
+    let lastIndex = 0;
+    for (const range of ranges) {
+      replaced += text.slice(lastIndex, range.from) + range.replacement;
+      lastIndex = range.to;
+    }
+    return replaced + text.slice(lastIndex);
   }
 
   /**
@@ -1316,7 +1941,7 @@ export class HighlightManager {
           }
 
           // 若当前文件本身就在对应设定库中，则跳过关键字高亮和标点检测
-          if (manager.isFileInFolder(file.path, settingFolder)) {
+          if (manager.isFileInSettingLibraries(file.path, settingFolder)) {
             if (runId === this.updateRunId) {
               this.decorations = Decoration.none;
             }
@@ -1335,40 +1960,19 @@ export class HighlightManager {
           const text = doc.toString();
 
           // 收集所有匹配位置
-          const matches: { from: number; to: number; keyword: string }[] = [];
-          const keywordGroupMap = manager.getKeywordGroupMap(settingFolder);
+          const matches = manager.findKeywordMatches(settingFolder, keywords, text);
 
           // 获取高亮模式
           const highlightMode = manager.plugin.settings.highlightStyle.mode;
 
-          const keywordRegex = manager.getKeywordRegex(settingFolder, keywords);
-          if (keywordRegex) {
-            keywordRegex.lastIndex = 0;
-            let match: RegExpExecArray | null = null;
-            while ((match = keywordRegex.exec(text)) !== null) {
-              const matchedKeyword = match[0] ?? "";
-              if (!matchedKeyword) {
-                // 防御性处理：避免零宽匹配导致死循环
-                keywordRegex.lastIndex++;
-                continue;
-              }
-              matches.push({
-                from: match.index,
-                to: match.index + matchedKeyword.length,
-                keyword: matchedKeyword,
-              });
-            }
-          }
-
           const finalMatches =
             highlightMode === "first"
               ? (() => {
-                const firstByGroup = new Map<string, { from: number; to: number; keyword: string }>();
+                const firstByGroup = new Map<string, KeywordMatch>();
                 const sortedMatches = [...matches].sort((a, b) => a.from - b.from);
                 for (const match of sortedMatches) {
-                  const groupId = keywordGroupMap.get(match.keyword) ?? `kw::${match.keyword}`;
-                  if (!firstByGroup.has(groupId)) {
-                    firstByGroup.set(groupId, match);
+                  if (!firstByGroup.has(match.groupId)) {
+                    firstByGroup.set(match.groupId, match);
                   }
                 }
                 return Array.from(firstByGroup.values());
@@ -1387,32 +1991,52 @@ export class HighlightManager {
                 class: "chinese-writer-highlight",
                 attributes: {
                   "data-cw-keyword": match.keyword,
+                  "data-cw-group-id": match.groupId,
                   "data-cw-setting-folder": settingFolder,
                 },
               }),
             });
           }
 
+          // 已死亡角色在对白中被提及
+          const deadMentionWarnings = manager.collectDeadMentionWarnings(settingFolder, file, text, matches);
+          for (const warning of deadMentionWarnings) {
+            decorationRanges.push({
+              from: warning.from,
+              to: warning.to,
+              decoration: Decoration.mark({
+                class: "chinese-writer-dead-mention-warning",
+                attributes: { title: warning.message },
+              }),
+            });
+          }
+
           // 标点检测装饰器（仅在开启且当前文件属于已配置小说库时生效）
           const punctuationWarnings = manager.collectPunctuationWarnings(text);
-          for (const index of punctuationWarnings) {
+          for (const warning of punctuationWarnings) {
             decorationRanges.push({
-              from: index,
-              to: index + 1,
+              from: warning.index,
+              to: warning.index + 1,
               decoration: Decoration.mark({
                 class: "chinese-writer-punctuation-warning",
+                attributes: { title: warning.ruleName },
               }),
             });
           }
 
           // 错别字字典检测装饰器
-          const typoWarnings = manager.collectTypoWarnings(text);
+          const typoWarnings = manager.collectTypoWarnings(text, file.path);
           for (const warning of typoWarnings) {
             decorationRanges.push({
               from: warning.from,
               to: warning.to,
               decoration: Decoration.mark({
-                class: "chinese-writer-typo-warning",
+                class: `chinese-writer-typo-warning chinese-writer-typo-${warning.severity}`,
+                attributes: {
+                  title:
+                    `【${TYPO_SEVERITY_LABELS[warning.severity]}】${warning.ruleName}` +
+                    (warning.replacement !== null ? `：建议改为“${warning.replacement}”` : ""),
+                },
               }),
             });
           }
@@ -0,0 +1,153 @@
+/**
+ * 设定条目的关键字匹配规则
+ */
+export interface KeywordMatchRule {
+  /** 【排除】：命中处于这些词之中时不算出现，如“天”排除“今天” */
+  exclusions: string[];
+  /** 【语境】：所在段落须包含其中任意一个词才算出现 */
+  contexts: string[];
+  /** 【整词】：命中须恰好是一个完整的分词结果 */
+  wholeWord: boolean;
+}
+
+interface WordSegmenter {
+  segment(input: string): Iterable<{ segment: string; index: number }>;
+}
+
+type WordSegmenterConstructor = new (
+  locale: string,
+  options: { granularity: "word" }
+) => WordSegmenter;
+
+const RULE_TAG_PATTERN = /【(排除|语境|整词)】(.*)$/;
+const FALSE_VALUES = ["否", "关", "false", "no", "0"];
+
+/**
+ * 关键字匹配规则解析与判断
+ */
+export class KeywordMatchRuleCodec {
+  private segmenter: WordSegmenter | null | undefined;
+
+  /**
+   * 从设定内容中解析匹配规则；没有任何规则时返回 null
+   * H2 内容遇到 H3 标题即停止，H3 子设定使用各自的规则
+   */
+  parseRule(lines: string[]): KeywordMatchRule | null {
+    const rule: KeywordMatchRule = { exclusions: [], contexts: [], wholeWord: false };
+    let hasRule = false;
+
+    for (const line of lines) {
+      if (/^\s*###\s/.test(line)) break;
+      const match = RULE_TAG_PATTERN.exec(line);
+      if (!match) continue;
+
+      const value = (match[2] ?? "").trim();
+      switch (match[1]) {
+        case "排除":
+          rule.exclusions.push(...this.splitWords(value));
+          break;
+        case "语境":
+          rule.contexts.push(...this.splitWords(value));
+          break;
+        default:
+          rule.wholeWord = !FALSE_VALUES.includes(value.toLowerCase());
+          break;
+      }
+      hasRule = true;
+    }
+
+    if (!hasRule) return null;
+    rule.exclusions = Array.from(new Set(rule.exclusions));
+    rule.contexts = Array.from(new Set(rule.contexts));
+    return rule;
+  }
+
+  /**
+   * 是否为规则行（预览正文中不再重复显示）
+   */
+  isRuleLine(line: string): boolean {
+    return RULE_TAG_PATTERN.test(line);
+  }
+
+  /**
+   * 判断文本中 [from, to) 处的命中是否满足规则
+   * @param segmentCache 同一段文本多次判断时复用的分词边界缓存（段落起点 -> 边界位置）
+   */
+  accepts(
+    rule: KeywordMatchRule,
+    text: string,
+    from: number,
+    to: number,
+    segmentCache: Map<number, Set<number>>
+  ): boolean {
+    const keyword = text.slice(from, to);
+    for (const exclusion of rule.exclusions) {
+      if (this.isInsideWord(text, from, keyword, exclusion)) return false;
+    }
+
+    if (rule.contexts.length === 0 && !rule.wholeWord) return true;
+
+    const lineStart = text.lastIndexOf("\n", from - 1) + 1;
+    const nextLineBreak = text.indexOf("\n", to);
+    const lineEnd = nextLineBreak === -1 ? text.length : nextLineBreak;
+
+    if (rule.contexts.length > 0) {
+      const paragraph = text.slice(lineStart, lineEnd);
+      if (!rule.contexts.some((context) => paragraph.includes(context))) return false;
+    }
+
+    if (rule.wholeWord) {
+      const boundaries = this.getSegmentBoundaries(text, lineStart, lineEnd, segmentCache);
+      // 当前环境不支持分词时不做限制
+      if (boundaries && (!boundaries.has(from) || !boundaries.has(to))) return false;
+    }
+    return true;
+  }
+
+  private isInsideWord(text: string, from: number, keyword: string, word: string): boolean {
+    if (!keyword || word.length <= keyword.length) return false;
+    let offset = word.indexOf(keyword);
+    while (offset !== -1) {
+      const start = from - offset;
+      if (start >= 0 && text.startsWith(word, start)) return true;
+      offset = word.indexOf(keyword, offset + 1);
+    }
+    return false;
+  }
+
+  private getSegmentBoundaries(
+    text: string,
+    lineStart: number,
+    lineEnd: number,
+    segmentCache: Map<number, Set<number>>
+  ): Set<number> | null {
+    const cached = segmentCache.get(lineStart);
+    if (cached) return cached;
+
+    const segmenter = this.getSegmenter();
+    if (!segmenter) return null;
+
+    const boundaries = new Set<number>([lineStart, lineEnd]);
+    for (const item of segmenter.segment(text.slice(lineStart, lineEnd))) {
+      boundaries.add(lineStart + item.index);
+      boundaries.add(lineStart + item.index + item.segment.length);
+    }
+    segmentCache.set(lineStart, boundaries);
+    return boundaries;
+  }
+
+  private getSegmenter(): WordSegmenter | null {
+    if (this.segmenter === undefined) {
+      const Segmenter = (Intl as unknown as { Segmenter?: WordSegmenterConstructor }).Segmenter;
+      this.segmenter = Segmenter ? new Segmenter("zh", { granularity: "word" }) : null;
+    }
+    return this.segmenter;
+  }
+
+  private splitWords(value: string): string[] {
+    return value
+      .split(/[，,、\s]+/)
+      .map((word) => word.trim())
+      .filter((word) => word.length > 0);
+  }
+}
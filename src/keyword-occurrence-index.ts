@@ -0,0 +1,468 @@
+import { TFile } from "obsidian";
+import type ChineseWriterPlugin from "./main";
+import { buildH2KeywordGroupId } from "./highlight-manager";
+
+/**
+ * 关键字在正文中的一次出现
+ */
+export interface KeywordOccurrence {
+  keyword: string;
+  groupId: string;
+  /** 行号（从 0 开始） */
+  line: number;
+  /** 行内列号（从 0 开始） */
+  ch: number;
+  /** 命中位置附近的上下文 */
+  snippet: string;
+}
+
+/**
+ * 单个章节文件的出现记录
+ */
+export interface ChapterOccurrences {
+  filePath: string;
+  /** 章节显示名：能解析章节号时为“第X章”，否则为文件名 */
+  chapterLabel: string;
+  chapterNumber: number | null;
+  occurrences: KeywordOccurrence[];
+}
+
+/**
+ * 某个设定条目的出现统计
+ */
+export interface KeywordOccurrenceSummary {
+  chapterCount: number;
+  occurrenceCount: number;
+  firstChapter: ChapterOccurrences | null;
+  lastChapter: ChapterOccurrences | null;
+}
+
+interface FolderIndex {
+  /** 对应的小说库与叠加的设定库（拼接后用于检测映射变化） */
+  mappingSignature: string;
+  chapters: Map<string, ChapterOccurrences>;
+  /** 分组 -> 出现过的章节路径 */
+  chaptersByGroup: Map<string, Set<string>>;
+  ready: boolean;
+}
+
+const SNIPPET_RADIUS = 16;
+
+/**
+ * 关键字出现索引
+ * 在后台扫描小说库的全部章节，记录每个设定关键字出现的章节、行号与上下文
+ */
+export class KeywordOccurrenceIndex {
+  private plugin: ChineseWriterPlugin;
+  private indexes: Map<string, FolderIndex> = new Map();
+  private buildRunIds: Map<string, number> = new Map();
+  private pendingFilePaths: Set<string> = new Set();
+  private pendingRebuildFolders: Set<string> = new Set();
+  /** 设定库索引构建期间改动的章节：构建可能已读到改动前的内容，构建结束后重新索引 */
+  private filePathsChangedDuringBuild: Map<string, Set<string>> = new Map();
+  private flushTimer: number | null = null;
+  private readonly flushDelayMs = 600;
+  private version = 0;
+
+  constructor(plugin: ChineseWriterPlugin) {
+    this.plugin = plugin;
+    this.plugin.register(() => this.clearFlushTimer());
+  }
+
+  /**
+   * 索引版本号（任意设定库索引更新后递增）
+   */
+  getVersion(): number {
+    return this.version;
+  }
+
+  /**
+   * 后台构建全部设定库的索引
+   */
+  rebuildAll(): void {
+    for (const settingFolder of this.plugin.highlightManager.getMappedSettingFolders()) {
+      this.pendingRebuildFolders.add(settingFolder);
+    }
+    this.scheduleFlush();
+  }
+
+  /**
+   * 获取指定设定库的章节出现记录（按章节顺序），索引未就绪时返回 null
+   */
+  getChapters(settingFolder: string): ChapterOccurrences[] | null {
+    const index = this.getReadyIndex(settingFolder);
+    if (!index) return null;
+    return this.sortChapters(Array.from(index.chapters.values()));
+  }
+
+  /**
+   * 获取设定条目的出现统计，索引未就绪时返回 null
+   */
+  getSummary(settingFolder: string, groupId: string): KeywordOccurrenceSummary | null {
+    const index = this.getReadyIndex(settingFolder);
+    if (!index) return null;
+
+    const chapterPaths = index.chaptersByGroup.get(groupId);
+    const chapters = chapterPaths
+      ? this.sortChapters(
+        Array.from(chapterPaths)
+          .map((path) => index.chapters.get(path))
+          .filter((item): item is ChapterOccurrences => !!item)
+      )
+      : [];
+
+    let occurrenceCount = 0;
+    for (const chapter of chapters) {
+      occurrenceCount += chapter.occurrences.filter((item) => item.groupId === groupId).length;
+    }
+
+    return {
+      chapterCount: chapters.length,
+      occurrenceCount,
+      firstChapter: chapters[0] ?? null,
+      lastChapter: chapters[chapters.length - 1] ?? null,
+    };
+  }
+
+  getSummaryForH2(settingFolder: string, filePath: string, h1Title: string, h2Title: string): KeywordOccurrenceSummary | null {
+    return this.getSummary(settingFolder, buildH2KeywordGroupId(filePath, h1Title, h2Title));
+  }
+
+  /**
+   * 生成出现统计的简要描述
+   */
+  formatSummary(summary: KeywordOccurrenceSummary): string {
+    if (summary.chapterCount === 0 || !summary.firstChapter || !summary.lastChapter) {
+      return "正文中尚未出现";
+    }
+    if (summary.chapterCount === 1) {
+      return `出现于 1 章：${summary.firstChapter.chapterLabel}`;
+    }
+    return `出现于 ${summary.chapterCount} 章，首次 ${summary.firstChapter.chapterLabel}，最后 ${summary.lastChapter.chapterLabel}`;
+  }
+
+  /**
+   * 文件新增或修改
+   */
+  onVaultFileChanged(filePath: string): void {
+    const settingFolders = this.plugin.highlightManager.getSettingFoldersUsingPath(filePath);
+    if (settingFolders.length > 0) {
+      // 设定变化会改变关键字集合，需整体重建（共享设定库会影响多本书）
+      for (const settingFolder of settingFolders) {
+        this.pendingRebuildFolders.add(settingFolder);
+      }
+    } else {
+      this.pendingFilePaths.add(filePath);
+    }
+    this.scheduleFlush();
+  }
+
+  onVaultFileDeleted(filePath: string): void {
+    const settingFolders = this.plugin.highlightManager.getSettingFoldersUsingPath(filePath);
+    if (settingFolders.length > 0) {
+      for (const settingFolder of settingFolders) {
+        this.pendingRebuildFolders.add(settingFolder);
+      }
+      this.scheduleFlush();
+      return;
+    }
+    if (this.removeChapter(filePath)) {
+      this.bumpVersion();
+    }
+  }
+
+  onVaultFileRenamed(filePath: string, oldPath: string): void {
+    this.onVaultFileDeleted(oldPath);
+    this.onVaultFileChanged(filePath);
+  }
+
+  /**
+   * 目录被删除或重命名：若涉及已映射的目录，丢弃全部索引并重建
+   */
+  onVaultFolderChanged(path: string, oldPath?: string): void {
+    const changedPaths = [path, oldPath].filter((item): item is string => !!item);
+    const related = this.plugin.settings.folderMappings.some((mapping) =>
+      [mapping.novelFolder, mapping.settingFolder, ...mapping.sharedSettingFolders].some((folder) =>
+        !!folder && changedPaths.some((changed) =>
+          folder === changed || this.isPathInFolder(folder, changed) || this.isPathInFolder(changed, folder)
+        )
+      )
+    );
+    if (!related) return;
+    this.indexes.clear();
+    this.rebuildAll();
+  }
+
+  private getReadyIndex(settingFolder: string): FolderIndex | null {
+    const index = this.indexes.get(settingFolder);
+    const signature = this.getMappingSignature(settingFolder);
+    if (!index || index.mappingSignature !== signature) {
+      // 首次访问或映射已变化，后台构建
+      if (!this.pendingRebuildFolders.has(settingFolder) && !this.buildRunIds.has(settingFolder)) {
+        this.pendingRebuildFolders.add(settingFolder);
+        this.scheduleFlush();
+      }
+      return index?.ready && index.mappingSignature === signature ? index : null;
+    }
+    return index.ready ? index : null;
+  }
+
+  private scheduleFlush(): void {
+    this.clearFlushTimer();
+    this.flushTimer = window.setTimeout(() => {
+      this.flushTimer = null;
+      void this.flush();
+    }, this.flushDelayMs);
+  }
+
+  private clearFlushTimer(): void {
+    if (this.flushTimer !== null) {
+      window.clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+  }
+
+  private async flush(): Promise<void> {
+    const rebuildFolders = Array.from(this.pendingRebuildFolders);
+    const filePaths = Array.from(this.pendingFilePaths);
+    this.pendingRebuildFolders.clear();
+    this.pendingFilePaths.clear();
+
+    let changed = false;
+    for (const settingFolder of rebuildFolders) {
+      changed = (await this.buildFolder(settingFolder)) || changed;
+    }
+
+    for (const filePath of filePaths) {
+      const settingFolder = this.findSettingFolderForChapter(filePath);
+      if (!settingFolder || rebuildFolders.includes(settingFolder)) continue;
+      if (this.buildRunIds.has(settingFolder)) {
+        const deferred = this.filePathsChangedDuringBuild.get(settingFolder) ?? new Set<string>();
+        deferred.add(filePath);
+        this.filePathsChangedDuringBuild.set(settingFolder, deferred);
+        continue;
+      }
+      const index = this.indexes.get(settingFolder);
+      if (!index?.ready) continue;
+      const file = this.plugin.app.vault.getAbstractFileByPath(filePath);
+      if (!(file instanceof TFile) || file.extension !== "md") continue;
+      try {
+        const chapter = await this.indexChapter(settingFolder, file);
+        this.removeChapter(filePath);
+        this.putChapter(index, chapter);
+        changed = true;
+      } catch (error) {
+        console.error("Failed to index chapter:", error);
+      }
+    }
+
+    if (changed) {
+      this.bumpVersion();
+    }
+  }
+
+  private async buildFolder(settingFolder: string): Promise<boolean> {
+    const runId = (this.buildRunIds.get(settingFolder) ?? 0) + 1;
+    this.buildRunIds.set(settingFolder, runId);
+
+    const novelFolders = this.getNovelFolders(settingFolder);
+    if (novelFolders.length === 0) {
+      this.finishBuild(settingFolder);
+      return this.indexes.delete(settingFolder);
+    }
+
+    const index: FolderIndex = {
+      mappingSignature: this.getMappingSignature(settingFolder),
+      chapters: new Map(),
+      chaptersByGroup: new Map(),
+      ready: false,
+    };
+
+    try {
+      await this.plugin.highlightManager.extractKeywordsFromSettingFolder(settingFolder);
+      const files = this.getChapterFiles(settingFolder, novelFolders);
+      for (const file of files) {
+        const chapter = await this.indexChapter(settingFolder, file);
+        if (this.buildRunIds.get(settingFolder) !== runId) return false;
+        this.putChapter(index, chapter);
+        // 让出主线程，避免大库扫描时卡顿
+        await new Promise<void>((resolve) => window.setTimeout(resolve, 0));
+      }
+    } catch (error) {
+      console.error("Failed to build keyword occurrence index:", error);
+      if (this.buildRunIds.get(settingFolder) === runId) {
+        this.finishBuild(settingFolder);
+      }
+      return false;
+    }
+
+    if (this.buildRunIds.get(settingFolder) !== runId) return false;
+    index.ready = true;
+    this.indexes.set(settingFolder, index);
+    this.finishBuild(settingFolder);
+    return true;
+  }
+
+  /**
+   * 结束构建，并把构建期间改动的章节重新排入队列
+   */
+  private finishBuild(settingFolder: string): void {
+    this.buildRunIds.delete(settingFolder);
+    const deferred = this.filePathsChangedDuringBuild.get(settingFolder);
+    if (!deferred) return;
+    this.filePathsChangedDuringBuild.delete(settingFolder);
+    for (const filePath of deferred) {
+      this.pendingFilePaths.add(filePath);
+    }
+    this.scheduleFlush();
+  }
+
+  private async indexChapter(settingFolder: string, file: TFile): Promise<ChapterOccurrences> {
+    const highlightManager = this.plugin.highlightManager;
+    const keywords = await highlightManager.extractKeywordsFromSettingFolder(settingFolder);
+    const text = await this.plugin.app.vault.cachedRead(file);
+    const lineStarts = this.computeLineStarts(text);
+    const occurrences: KeywordOccurrence[] = [];
+
+    for (const match of highlightManager.findKeywordMatches(settingFolder, keywords, text)) {
+      const line = this.findLineIndex(lineStarts, match.from);
+      const lineStart = lineStarts[line] ?? 0;
+      const nextLineStart = lineStarts[line + 1];
+      const lineEnd = nextLineStart === undefined ? text.length : nextLineStart - 1;
+      const snippetStart = Math.max(lineStart, match.from - SNIPPET_RADIUS);
+      const snippetEnd = Math.min(lineEnd, match.to + SNIPPET_RADIUS);
+      occurrences.push({
+        keyword: match.keyword,
+        groupId: match.groupId,
+        line,
+        ch: match.from - lineStart,
+        snippet: text.slice(snippetStart, snippetEnd).trim(),
+      });
+    }
+
+    const chapterNumber = this.plugin.chapterManager.extractChapterNumber(file.basename);
+    return {
+      filePath: file.path,
+      chapterLabel: chapterNumber !== null ? `第${chapterNumber}章` : file.basename,
+      chapterNumber,
+      occurrences,
+    };
+  }
+
+  private putChapter(index: FolderIndex, chapter: ChapterOccurrences): void {
+    index.chapters.set(chapter.filePath, chapter);
+    for (const occurrence of chapter.occurrences) {
+      let paths = index.chaptersByGroup.get(occurrence.groupId);
+      if (!paths) {
+        paths = new Set();
+        index.chaptersByGroup.set(occurrence.groupId, paths);
+      }
+      paths.add(chapter.filePath);
+    }
+  }
+
+  private removeChapter(filePath: string): boolean {
+    let removed = false;
+    for (const index of this.indexes.values()) {
+      const chapter = index.chapters.get(filePath);
+      if (!chapter) continue;
+      index.chapters.delete(filePath);
+      for (const occurrence of chapter.occurrences) {
+        const paths = index.chaptersByGroup.get(occurrence.groupId);
+        if (!paths) continue;
+        paths.delete(filePath);
+        if (paths.size === 0) {
+          index.chaptersByGroup.delete(occurrence.groupId);
+        }
+      }
+      removed = true;
+    }
+    return removed;
+  }
+
+  private bumpVersion(): void {
+    this.version++;
+    this.plugin.onKeywordOccurrenceIndexUpdated();
+  }
+
+  private sortChapters(chapters: ChapterOccurrences[]): ChapterOccurrences[] {
+    return chapters.sort((a, b) => {
+      if (a.chapterNumber !== null && b.chapterNumber !== null && a.chapterNumber !== b.chapterNumber) {
+        return a.chapterNumber - b.chapterNumber;
+      }
+      if (a.chapterNumber !== null && b.chapterNumber === null) return -1;
+      if (a.chapterNumber === null && b.chapterNumber !== null) return 1;
+      return a.filePath.localeCompare(b.filePath, "zh-Hans-CN");
+    });
+  }
+
+  /**
+   * 设定库对应小说库中的全部章节文件（不含设定库本身）
+   */
+  getChapterFilesForSettingFolder(settingFolder: string): TFile[] {
+    return this.getChapterFiles(settingFolder, this.getNovelFolders(settingFolder));
+  }
+
+  private getChapterFiles(settingFolder: string, novelFolders: string[]): TFile[] {
+    const highlightManager = this.plugin.highlightManager;
+    return this.plugin.app.vault
+      .getMarkdownFiles()
+      .filter((file) => !highlightManager.isFileInSettingLibraries(file.path, settingFolder))
+      .filter((file) => novelFolders.some((folder) => this.isPathInFolder(file.path, folder)));
+  }
+
+  private getMappingSignature(settingFolder: string): string {
+    const novelFolders = this.getNovelFolders(settingFolder).join("\n");
+    const libraryFolders = this.plugin.highlightManager.getSettingLibraryFolders(settingFolder).join("\n");
+    return `${novelFolders}|${libraryFolders}`;
+  }
+
+  private getNovelFolders(settingFolder: string): string[] {
+    return this.plugin.settings.folderMappings
+      .filter((mapping) => mapping.settingFolder === settingFolder && !!mapping.novelFolder)
+      .map((mapping) => mapping.novelFolder)
+      .sort();
+  }
+
+  private findSettingFolderForChapter(filePath: string): string | null {
+    for (const settingFolder of this.plugin.highlightManager.getMappedSettingFolders()) {
+      if (this.plugin.highlightManager.isFileInSettingLibraries(filePath, settingFolder)) continue;
+      const novelFolders = this.getNovelFolders(settingFolder);
+      if (novelFolders.some((folder) => this.isPathInFolder(filePath, folder))) {
+        return settingFolder;
+      }
+    }
+    return null;
+  }
+
+  private isPathInFolder(filePath: string, folderPath: string): boolean {
+    const normalizedFolder = folderPath.replace(/^\/+|\/+$/g, "");
+    const normalizedFilePath = filePath.replace(/^\/+/, "");
+    if (!normalizedFolder) return false;
+    return normalizedFilePath.startsWith(normalizedFolder + "/");
+  }
+
+  private computeLineStarts(text: string): number[] {
+    const starts = [0];
+    for (let i = 0; i < text.length; i++) {
+      if (text.charCodeAt(i) === 10) {
+        starts.push(i + 1);
+      }
+    }
+    return starts;
+  }
+
+  private findLineIndex(lineStarts: number[], offset: number): number {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if ((lineStarts[mid] ?? 0) <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return low;
+  }
+}
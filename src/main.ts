@@ -1,6 +1,7 @@
 import { Plugin, TFile, TFolder, MarkdownView, WorkspaceLeaf, setIcon, Notice } from "obsidian";
 import { ChineseWriterSettings, DEFAULT_SETTINGS, ChineseWriterSettingTab } from "./settings";
 import { FileParser } from "./parser";
+import type { H2Candidate } from "./types";
 import { TreeView, VIEW_TYPE_TREE } from "./tree-view";
 import { InspirationView, VIEW_TYPE_INSPIRATION } from "./inspiration-view";
 import { OrderManager } from "./order-manager";
@@ -8,9 +9,21 @@ import { HighlightManager } from "./highlight-manager";
 import { EditorTypographyManager } from "./editor-typography-manager";
 import { MdStatsManager } from "./md-stats-manager";
 import { ChapterManager } from "./chapter-manager";
+import { SettingImportManager } from "./setting-import-manager";
+import { SettingRenameManager } from "./setting-rename-manager";
+import { StructureJournal } from "./structure-journal";
+import { StructureHistoryModal } from "./modals";
+import { WorldBibleExporter } from "./world-bible-exporter";
+import { ChapterTextExporter } from "./chapter-text-exporter";
 import { SlashH2CompleteManager } from "./slash-h2-complete-manager";
 import { SlashSnippetCompleteManager } from "./slash-snippet-complete-manager";
 import { CnPunctuationAutoPairManager } from "./cn-punctuation-auto-pair-manager";
+import { KeywordOccurrenceIndex } from "./keyword-occurrence-index";
+import { SettingReportView, VIEW_TYPE_SETTING_REPORT } from "./setting-report-view";
+import { RelationshipGraphView, VIEW_TYPE_RELATIONSHIP_GRAPH } from "./relationship-graph-view";
+import { CooccurrenceView, VIEW_TYPE_COOCCURRENCE } from "./cooccurrence-view";
+import { ProofreadReviewView, VIEW_TYPE_PROOFREAD_REVIEW } from "./proofread-review-view";
+import { ProofreadReportView, VIEW_TYPE_PROOFREAD_REPORT } from "./proofread-report-view";
 
 /**
  * 中文小说写作插件主类
@@ -23,9 +36,15 @@ export default class ChineseWriterPlugin extends Plugin {
   editorTypographyManager: EditorTypographyManager;
   mdStatsManager: MdStatsManager;
   chapterManager: ChapterManager;
+  settingImportManager: SettingImportManager;
+  settingRenameManager: SettingRenameManager;
+  structureJournal: StructureJournal;
+  worldBibleExporter: WorldBibleExporter;
+  chapterTextExporter: ChapterTextExporter;
   slashH2CompleteManager: SlashH2CompleteManager;
   slashSnippetCompleteManager: SlashSnippetCompleteManager;
   cnPunctuationAutoPairManager: CnPunctuationAutoPairManager;
+  keywordOccurrenceIndex: KeywordOccurrenceIndex;
   private pluginDir = "";
   private settingsFilePath = "";
   private settingMenuRootEl: HTMLElement | null = null;
@@ -62,6 +81,12 @@ export default class ChineseWriterPlugin extends Plugin {
     this.mdStatsManager = new MdStatsManager(this);
     // 初始化章节管理器
     this.chapterManager = new ChapterManager(this);
+    this.settingImportManager = new SettingImportManager(this);
+    this.settingRenameManager = new SettingRenameManager(this, this.pluginDir);
+    // 初始化设定视图结构操作日志
+    this.structureJournal = new StructureJournal(this);
+    this.worldBibleExporter = new WorldBibleExporter(this);
+    this.chapterTextExporter = new ChapterTextExporter(this);
     // 初始化 //H2 候选管理器
     this.slashH2CompleteManager = new SlashH2CompleteManager(this);
     // 初始化 //英文片段候选管理器
@@ -69,6 +94,8 @@ export default class ChineseWriterPlugin extends Plugin {
     await this.slashSnippetCompleteManager.reloadSnippets();
     // 初始化中文标点自动补齐管理器
     this.cnPunctuationAutoPairManager = new CnPunctuationAutoPairManager(this);
+    // 初始化关键字出现索引（布局就绪后后台构建）
+    this.keywordOccurrenceIndex = new KeywordOccurrenceIndex(this);
 
     // 注册编辑器扩展（关键字高亮）
     this.registerEditorExtension(this.highlightManager.createEditorExtension());
@@ -102,6 +129,26 @@ export default class ChineseWriterPlugin extends Plugin {
       VIEW_TYPE_INSPIRATION,
       (leaf) => new InspirationView(leaf, this)
     );
+    this.registerView(
+      VIEW_TYPE_SETTING_REPORT,
+      (leaf) => new SettingReportView(leaf, this)
+    );
+    this.registerView(
+      VIEW_TYPE_RELATIONSHIP_GRAPH,
+      (leaf) => new RelationshipGraphView(leaf, this)
+    );
+    this.registerView(
+      VIEW_TYPE_COOCCURRENCE,
+      (leaf) => new CooccurrenceView(leaf, this)
+    );
+    this.registerView(
+      VIEW_TYPE_PROOFREAD_REVIEW,
+      (leaf) => new ProofreadReviewView(leaf, this)
+    );
+    this.registerView(
+      VIEW_TYPE_PROOFREAD_REPORT,
+      (leaf) => new ProofreadReportView(leaf, this)
+    );
 
     // 添加打开视图的命令
     this.addCommand({
@@ -170,6 +217,137 @@ export default class ChineseWriterPlugin extends Plugin {
       },
     });
 
+    // 修正审阅：逐条确认错别字与标点修正后再写入
+    this.addCommand({
+      id: "open-proofread-review-view",
+      name: "审阅当前文档错别字与标点修正",
+      callback: async () => {
+        await this.activateProofreadReviewView();
+      },
+    });
+
+    // 导出章节正文：投稿前检查屏蔽级与警告级词条
+    this.addCommand({
+      id: "export-current-chapter-text",
+      name: "导出当前章节正文",
+      callback: async () => {
+        await this.chapterTextExporter.exportActiveChapter();
+      },
+    });
+
+    // 全书校对：扫描小说库全部章节的错别字与标点问题
+    this.addCommand({
+      id: "open-proofread-report-view",
+      name: "全书校对",
+      callback: async () => {
+        await this.activateProofreadReportView();
+      },
+    });
+
+    // 设定使用报告：未使用的设定与未收录的高频词
+    this.addCommand({
+      id: "open-setting-report-view",
+      name: "打开设定使用报告",
+      callback: async () => {
+        await this.activateSettingReportView();
+      },
+    });
+
+    // 设定关系图：设定之间的相互引用
+    this.addCommand({
+      id: "open-relationship-graph-view",
+      name: "打开设定关系图",
+      callback: async () => {
+        await this.activateRelationshipGraphView();
+      },
+    });
+
+    // 设定共现热力图：章节分布与同段共现
+    this.addCommand({
+      id: "open-cooccurrence-view",
+      name: "打开设定共现热力图",
+      callback: async () => {
+        await this.activateCooccurrenceView();
+      },
+    });
+
+    // 快捷键触发候选栏：无需输入触发符，在光标处直接打开
+    this.addCommand({
+      id: "open-slash-h2-candidate-bar",
+      name: "在光标处打开设定候选栏",
+      editorCallback: (editor) => {
+        if (!this.slashH2CompleteManager.openByHotkey(editor)) {
+          new Notice("设定候选栏未启用");
+        }
+      },
+    });
+    this.addCommand({
+      id: "open-slash-snippet-candidate-bar",
+      name: "在光标处打开文本片段候选栏",
+      editorCallback: (editor) => {
+        if (!this.slashSnippetCompleteManager.openByHotkey(editor)) {
+          new Notice("文本片段候选栏未启用");
+        }
+      },
+    });
+
+    // 从 CSV / JSON 表格导入设定
+    this.addCommand({
+      id: "import-settings-from-table",
+      name: "从表格导入设定",
+      callback: async () => {
+        await this.settingImportManager.startImport();
+      },
+    });
+
+    // 设定视图结构操作（移动、排序、新建、重命名、删除）的撤销与重做
+    this.addCommand({
+      id: "undo-structure-operation",
+      name: "撤销设定视图结构操作",
+      callback: async () => {
+        await this.structureJournal.undo();
+      },
+    });
+    this.addCommand({
+      id: "redo-structure-operation",
+      name: "重做设定视图结构操作",
+      callback: async () => {
+        await this.structureJournal.redo();
+      },
+    });
+    this.addCommand({
+      id: "open-structure-history",
+      name: "查看设定视图结构操作历史",
+      callback: () => {
+        new StructureHistoryModal(this.app, this.structureJournal).open();
+      },
+    });
+
+    // 撤销最近一次“重命名并替换正文”
+    this.addCommand({
+      id: "undo-last-setting-rename",
+      name: "撤销上一次设定批量重命名",
+      callback: async () => {
+        await this.settingRenameManager.undoLastRename();
+      },
+    });
+
+    // 导出设定集：整理为一份带目录、别名索引的文档，便于发给合作者
+    this.addCommand({
+      id: "export-world-bible-markdown",
+      name: "导出设定集（Markdown）",
+      callback: async () => {
+        await this.worldBibleExporter.exportActiveSettingFolder("markdown");
+      },
+    });
+    this.addCommand({
+      id: "export-world-bible-html",
+      name: "导出设定集（HTML）",
+      callback: async () => {
+        await this.worldBibleExporter.exportActiveSettingFolder("html");
+      },
+    });
+
     // 新建章节：按当前文件所在目录的最大章节号 +1 创建
     this.addCommand({
       id: "create-next-chapter-file",
@@ -205,6 +383,7 @@ export default class ChineseWriterPlugin extends Plugin {
           this.highlightManager.refreshCurrentEditor();
         }
       }, 100);
+      this.keywordOccurrenceIndex.rebuildAll();
     });
 
     // 监听文件变化事件
@@ -215,6 +394,7 @@ export default class ChineseWriterPlugin extends Plugin {
           this.mdStatsManager.onVaultFileChanged(file.path);
           this.slashSnippetCompleteManager.onVaultPathChanged(file.path);
           this.highlightManager.onVaultPathChanged(file.path);
+          this.keywordOccurrenceIndex.onVaultFileChanged(file.path);
           this.smartUpdateView();
           if (this.shouldRefreshInspirationForPath(file.path) &&
             !this.consumeSuppressedInspirationRefreshPath(file.path)) {
@@ -222,9 +402,9 @@ export default class ChineseWriterPlugin extends Plugin {
           }
           this.updateH3CacheForSettingFile(file.path);
 
-          // 如果修改的是设定库中的文件，清除关键字缓存并刷新编辑器
-          for (const mapping of this.settings.folderMappings) {
-            if (mapping.settingFolder && file.path.startsWith(mapping.settingFolder + "/")) {
+          // 如果修改的是设定库（含共享设定库）中的文件，清除关键字缓存并刷新编辑器
+          for (const libraryFolder of this.highlightManager.getAllSettingLibraryFolders()) {
+            if (file.path.startsWith(libraryFolder + "/")) {
               this.highlightManager.clearCache();
               // 触发编辑器重新渲染以更新高亮
               // 延迟执行以确保文件修改完成
@@ -245,6 +425,7 @@ export default class ChineseWriterPlugin extends Plugin {
           this.mdStatsManager.onVaultFileChanged(file.path);
           this.slashSnippetCompleteManager.onVaultPathChanged(file.path);
           this.highlightManager.onVaultPathChanged(file.path);
+          this.keywordOccurrenceIndex.onVaultFileChanged(file.path);
           this.syncOrderOnFileCreate(file);
           if (!this.consumeSuppressedInspirationRefreshPath(file.path) &&
             this.shouldRefreshInspirationForPath(file.path)) {
@@ -262,6 +443,7 @@ export default class ChineseWriterPlugin extends Plugin {
           this.mdStatsManager.onVaultFileChanged(file.path);
           this.slashSnippetCompleteManager.onVaultPathChanged(file.path);
           this.highlightManager.onVaultPathChanged(file.path);
+          this.keywordOccurrenceIndex.onVaultFileDeleted(file.path);
           this.syncOrderOnFileDelete(file);
           if (this.shouldRefreshInspirationForPath(file.path)) {
             this.scheduleInspirationRefresh();
@@ -272,6 +454,7 @@ export default class ChineseWriterPlugin extends Plugin {
 
         if (file instanceof TFolder) {
           this.highlightManager.onVaultPathChanged(file.path);
+          this.keywordOccurrenceIndex.onVaultFolderChanged(file.path);
           if (this.shouldRefreshInspirationForPath(file.path)) {
             this.scheduleInspirationRefresh();
           }
@@ -288,6 +471,7 @@ export default class ChineseWriterPlugin extends Plugin {
           this.mdStatsManager.onVaultFileChanged(file.path);
           this.slashSnippetCompleteManager.onVaultPathChanged(file.path, oldPath);
           this.highlightManager.onVaultPathChanged(file.path, oldPath);
+          this.keywordOccurrenceIndex.onVaultFileRenamed(file.path, oldPath);
           this.syncOrderOnFileRename(file, oldPath);
           if (this.shouldRefreshInspirationForPath(file.path) || this.shouldRefreshInspirationForPath(oldPath)) {
             this.scheduleInspirationRefresh();
@@ -299,6 +483,7 @@ export default class ChineseWriterPlugin extends Plugin {
 
         if (file instanceof TFolder) {
           this.highlightManager.onVaultPathChanged(file.path, oldPath);
+          this.keywordOccurrenceIndex.onVaultFolderChanged(file.path, oldPath);
           if (this.shouldRefreshInspirationForPath(file.path) || this.shouldRefreshInspirationForPath(oldPath)) {
             this.scheduleInspirationRefresh();
           }
@@ -379,6 +564,134 @@ export default class ChineseWriterPlugin extends Plugin {
     workspace.revealLeaf(rightLeaf);
   }
 
+  async activateSettingReportView() {
+    const { workspace } = this.app;
+    const activeFile = workspace.getActiveFile();
+    const settingFolder = activeFile ? this.highlightManager.getSettingFolderForFile(activeFile.path) : null;
+
+    let leaf = workspace.getLeavesOfType(VIEW_TYPE_SETTING_REPORT)[0];
+    if (!leaf) {
+      leaf = workspace.getLeaf("tab");
+      await leaf.setViewState({
+        type: VIEW_TYPE_SETTING_REPORT,
+        active: true,
+      });
+    }
+
+    await workspace.revealLeaf(leaf);
+    if (settingFolder && leaf.view instanceof SettingReportView) {
+      await leaf.view.showSettingFolder(settingFolder);
+    }
+  }
+
+  async activateRelationshipGraphView() {
+    const { workspace } = this.app;
+
+    let leaf = workspace.getLeavesOfType(VIEW_TYPE_RELATIONSHIP_GRAPH)[0];
+    if (!leaf) {
+      const rightLeaf = workspace.getRightLeaf(false);
+      if (!rightLeaf) return;
+      await rightLeaf.setViewState({
+        type: VIEW_TYPE_RELATIONSHIP_GRAPH,
+        active: true,
+      });
+      leaf = rightLeaf;
+    }
+
+    await workspace.revealLeaf(leaf);
+  }
+
+  async activateProofreadReportView() {
+    const { workspace } = this.app;
+    const activeFile = workspace.getActiveFile();
+    const novelFolder = activeFile ? this.highlightManager.getNovelFolderForContextFile(activeFile.path) : null;
+
+    let leaf = workspace.getLeavesOfType(VIEW_TYPE_PROOFREAD_REPORT)[0];
+    if (!leaf) {
+      leaf = workspace.getLeaf("tab");
+      await leaf.setViewState({
+        type: VIEW_TYPE_PROOFREAD_REPORT,
+        active: true,
+      });
+    }
+
+    await workspace.revealLeaf(leaf);
+    if (novelFolder && leaf.view instanceof ProofreadReportView) {
+      await leaf.view.showNovelFolder(novelFolder);
+    }
+  }
+
+  async activateProofreadReviewView() {
+    const { workspace } = this.app;
+    const markdownView = workspace.getActiveViewOfType(MarkdownView);
+    if (!markdownView?.file) {
+      new Notice("请先打开要审阅的文档");
+      return;
+    }
+
+    let leaf = workspace.getLeavesOfType(VIEW_TYPE_PROOFREAD_REVIEW)[0];
+    if (!leaf) {
+      const rightLeaf = workspace.getRightLeaf(false);
+      if (!rightLeaf) return;
+      await rightLeaf.setViewState({
+        type: VIEW_TYPE_PROOFREAD_REVIEW,
+        active: true,
+      });
+      leaf = rightLeaf;
+    }
+
+    await workspace.revealLeaf(leaf);
+    if (leaf.view instanceof ProofreadReviewView) {
+      leaf.view.review(markdownView);
+    }
+  }
+
+  async activateCooccurrenceView() {
+    const { workspace } = this.app;
+    const activeFile = workspace.getActiveFile();
+    const settingFolder = activeFile ? this.highlightManager.getSettingFolderForFile(activeFile.path) : null;
+
+    let leaf = workspace.getLeavesOfType(VIEW_TYPE_COOCCURRENCE)[0];
+    if (!leaf) {
+      leaf = workspace.getLeaf("tab");
+      await leaf.setViewState({
+        type: VIEW_TYPE_COOCCURRENCE,
+        active: true,
+      });
+    }
+
+    await workspace.revealLeaf(leaf);
+    if (settingFolder && leaf.view instanceof CooccurrenceView) {
+      await leaf.view.showSettingFolder(settingFolder);
+    }
+  }
+
+  /**
+   * 关键字出现索引更新后，刷新依赖它的视图
+   */
+  onKeywordOccurrenceIndexUpdated(): void {
+    void this.smartUpdateView();
+    const leaves = this.app.workspace.getLeavesOfType(VIEW_TYPE_SETTING_REPORT);
+    for (const leaf of leaves) {
+      const view = leaf.view;
+      if (view instanceof SettingReportView) {
+        void view.refresh();
+      }
+    }
+    for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_RELATIONSHIP_GRAPH)) {
+      const view = leaf.view;
+      if (view instanceof RelationshipGraphView) {
+        void view.refreshIfChanged();
+      }
+    }
+    for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_COOCCURRENCE)) {
+      const view = leaf.view;
+      if (view instanceof CooccurrenceView) {
+        void view.refresh();
+      }
+    }
+  }
+
   closeInspirationView(): void {
     this.app.workspace.detachLeavesOfType(VIEW_TYPE_INSPIRATION);
   }
@@ -568,12 +881,12 @@ export default class ChineseWriterPlugin extends Plugin {
     }
   }
 
-  getCurrentTreeH2Texts(): string[] {
+  getCurrentTreeH2Candidates(): H2Candidate[] {
     const leaves = this.app.workspace.getLeavesOfType(VIEW_TYPE_TREE);
     for (const leaf of leaves) {
       const view = leaf.view;
       if (view instanceof TreeView) {
-        return view.getH2TextsSnapshot();
+        return view.getH2CandidatesSnapshot();
       }
     }
     return [];
@@ -649,6 +962,24 @@ export default class ChineseWriterPlugin extends Plugin {
       );
     }
 
+    if (!Array.isArray(this.settings.settingFieldSchemas)) {
+      this.settings.settingFieldSchemas = [];
+    }
+
+    if (!Array.isArray(this.settings.typoProfiles)) {
+      this.settings.typoProfiles = [];
+    }
+
+    // 兼容旧版本：对应关系没有共享设定库与词典方案
+    for (const mapping of this.settings.folderMappings) {
+      if (!Array.isArray(mapping.sharedSettingFolders)) {
+        mapping.sharedSettingFolders = [];
+      }
+      if (typeof mapping.typoProfile !== "string") {
+        mapping.typoProfile = "";
+      }
+    }
+
     // 兼容旧版本：openInCurrentTab -> openInNewTab（取反）
     const legacyOpenInCurrentTab = (data as { openInCurrentTab?: boolean } | null)?.openInCurrentTab;
     const hasOpenInNewTab = typeof (data as { openInNewTab?: boolean } | null)?.openInNewTab === "boolean";
@@ -869,11 +1200,18 @@ export default class ChineseWriterPlugin extends Plugin {
 
   private async collectSettingFileOptions(settingFolder: string): Promise<Array<{
     file: TFile;
+    libraryLabel: string | null;
     h1Options: Array<{ label: string; lineNumber: number }>;
   }>> {
-    const files = this.parser.getMarkdownFilesInFolder(settingFolder);
+    const libraryFolders = this.highlightManager.getSettingLibraryFolders(settingFolder);
+    const getLibraryIndex = (file: TFile) =>
+      libraryFolders.findIndex((folder) => file.path.startsWith(`${folder}/`));
+    const files = this.highlightManager.getSettingLibraryFiles(settingFolder);
     const fileOrder = this.orderManager.getFileOrder();
     const orderedFiles = [...files].sort((a, b) => {
+      // 先按设定库优先级，再按文件顺序
+      const libraryDiff = getLibraryIndex(a) - getLibraryIndex(b);
+      if (libraryDiff !== 0) return libraryDiff;
       const indexA = fileOrder.indexOf(a.path);
       const indexB = fileOrder.indexOf(b.path);
       if (indexA === -1 && indexB === -1) return a.path.localeCompare(b.path);
@@ -881,7 +1219,11 @@ export default class ChineseWriterPlugin extends Plugin {
       if (indexB === -1) return -1;
       return indexA - indexB;
     });
-    const results: Array<{ file: TFile; h1Options: Array<{ label: string; lineNumber: number }> }> = [];
+    const results: Array<{
+      file: TFile;
+      libraryLabel: string | null;
+      h1Options: Array<{ label: string; lineNumber: number }>;
+    }> = [];
 
     for (const file of orderedFiles) {
       const parsed = await this.parser.parseFile(file);
@@ -890,7 +1232,12 @@ export default class ChineseWriterPlugin extends Plugin {
       for (const h1 of parsed.h1List) {
         h1Options.push({ label: h1.text, lineNumber: h1.lineNumber });
       }
-      results.push({ file, h1Options });
+      const libraryFolder = libraryFolders[getLibraryIndex(file)] ?? settingFolder;
+      results.push({
+        file,
+        libraryLabel: this.highlightManager.getLibraryLabel(settingFolder, libraryFolder),
+        h1Options,
+      });
     }
 
     return results;
@@ -923,6 +1270,9 @@ export default class ChineseWriterPlugin extends Plugin {
       const iconEl = itemEl.createSpan({ cls: "cw-setting-submenu-item-icon" });
       setIcon(iconEl, "file-text");
       itemEl.createSpan({ text: option.file.basename, cls: "cw-setting-submenu-label" });
+      if (option.libraryLabel) {
+        itemEl.createSpan({ text: option.libraryLabel, cls: "cw-setting-submenu-library" });
+      }
 
       const hasChildren = option.h1Options.length > 0;
       const arrowEl = itemEl.createSpan({ cls: "cw-setting-submenu-item-arrow" });
@@ -1163,7 +1513,7 @@ export default class ChineseWriterPlugin extends Plugin {
 
   private async rebuildH3TitleCacheForFolder(settingFolder: string): Promise<void> {
     const titleSet = new Set<string>();
-    const files = this.parser.getMarkdownFilesInFolder(settingFolder);
+    const files = this.highlightManager.getSettingLibraryFiles(settingFolder);
     const contents = await Promise.all(files.map((file) => this.app.vault.read(file)));
     for (const content of contents) {
       const lines = content.split("\n");
@@ -1191,18 +1541,9 @@ export default class ChineseWriterPlugin extends Plugin {
   }
 
   private updateH3CacheForSettingFile(filePath: string): void {
-    const settingFolder = this.findSettingFolderByFilePath(filePath);
-    if (!settingFolder) return;
-    void this.rebuildH3TitleCacheForFolder(settingFolder);
-  }
-
-  private findSettingFolderByFilePath(filePath: string): string | null {
-    for (const mapping of this.settings.folderMappings) {
-      if (mapping.settingFolder && filePath.startsWith(`${mapping.settingFolder}/`)) {
-        return mapping.settingFolder;
-      }
+    for (const settingFolder of this.highlightManager.getSettingFoldersUsingPath(filePath)) {
+      void this.rebuildH3TitleCacheForFolder(settingFolder);
     }
-    return null;
   }
 
   private replacePathPrefix(path: string, oldPrefix: string, newPrefix: string): string {
@@ -1258,12 +1599,14 @@ export default class ChineseWriterPlugin extends Plugin {
     }
 
     const renamedSettingFolders: Array<{ oldPath: string; newPath: string }> = [];
+    const renamedNovelFolders: Array<{ oldPath: string; newPath: string }> = [];
     let mappingChanged = false;
 
     for (const mapping of this.settings.folderMappings) {
       if (mapping.novelFolder) {
         const nextNovel = this.replacePathPrefix(mapping.novelFolder, oldPath, newPath);
         if (nextNovel !== mapping.novelFolder) {
+          renamedNovelFolders.push({ oldPath: mapping.novelFolder, newPath: nextNovel });
           mapping.novelFolder = nextNovel;
           mappingChanged = true;
         }
@@ -1278,6 +1621,14 @@ export default class ChineseWriterPlugin extends Plugin {
           mappingChanged = true;
         }
       }
+
+      const nextSharedFolders = mapping.sharedSettingFolders.map((folder) =>
+        this.replacePathPrefix(folder, oldPath, newPath)
+      );
+      if (nextSharedFolders.some((folder, index) => folder !== mapping.sharedSettingFolders[index])) {
+        mapping.sharedSettingFolders = nextSharedFolders;
+        mappingChanged = true;
+      }
     }
 
     if (!mappingChanged) {
@@ -1287,6 +1638,9 @@ export default class ChineseWriterPlugin extends Plugin {
     for (const folderPair of renamedSettingFolders) {
       await this.migrateOrderDataForRenamedSettingFolder(folderPair.oldPath, folderPair.newPath);
     }
+    for (const folderPair of renamedNovelFolders) {
+      await this.orderManager.renameCompletionUsageFolder(folderPair.oldPath, folderPair.newPath);
+    }
 
     await this.saveSettings();
     this.highlightManager.clearCache();
@@ -1307,7 +1661,10 @@ export default class ChineseWriterPlugin extends Plugin {
       const settingAffected = mapping.settingFolder
         ? this.matchesPathOrChild(mapping.settingFolder, deletedFolderPath)
         : false;
-      return novelAffected || settingAffected;
+      const sharedAffected = mapping.sharedSettingFolders.some((folder) =>
+        this.matchesPathOrChild(folder, deletedFolderPath)
+      );
+      return novelAffected || settingAffected || sharedAffected;
     });
 
     if (!affected) {
@@ -1326,9 +1683,9 @@ export default class ChineseWriterPlugin extends Plugin {
   private async syncOrderOnFileCreate(file: TFile): Promise<void> {
     // 检查文件是否在任何设定库中
     let folderPath: string | null = null;
-    for (const mapping of this.settings.folderMappings) {
-      if (mapping.settingFolder && file.path.startsWith(mapping.settingFolder + "/")) {
-        folderPath = mapping.settingFolder;
+    for (const libraryFolder of this.highlightManager.getAllSettingLibraryFolders()) {
+      if (file.path.startsWith(libraryFolder + "/")) {
+        folderPath = libraryFolder;
         break;
       }
     }
@@ -1363,9 +1720,9 @@ export default class ChineseWriterPlugin extends Plugin {
   private async syncOrderOnFileDelete(file: TFile): Promise<void> {
     // 检查文件是否在任何设定库中
     let folderPath: string | null = null;
-    for (const mapping of this.settings.folderMappings) {
-      if (mapping.settingFolder && file.path.startsWith(mapping.settingFolder + "/")) {
-        folderPath = mapping.settingFolder;
+    for (const libraryFolder of this.highlightManager.getAllSettingLibraryFolders()) {
+      if (file.path.startsWith(libraryFolder + "/")) {
+        folderPath = libraryFolder;
         break;
       }
     }
@@ -1405,16 +1762,14 @@ export default class ChineseWriterPlugin extends Plugin {
     let wasInFolder = false;
     let isInFolder = false;
 
-    for (const mapping of this.settings.folderMappings) {
-      if (mapping.settingFolder) {
-        if (oldPath.startsWith(mapping.settingFolder + "/")) {
-          wasInFolder = true;
-          folderPath = mapping.settingFolder;
-        }
-        if (file.path.startsWith(mapping.settingFolder + "/")) {
-          isInFolder = true;
-          folderPath = mapping.settingFolder;
-        }
+    for (const libraryFolder of this.highlightManager.getAllSettingLibraryFolders()) {
+      if (oldPath.startsWith(libraryFolder + "/")) {
+        wasInFolder = true;
+        folderPath = libraryFolder;
+      }
+      if (file.path.startsWith(libraryFolder + "/")) {
+        isInFolder = true;
+        folderPath = libraryFolder;
       }
     }
 
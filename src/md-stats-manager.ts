@@ -837,6 +837,12 @@ export class MdStatsManager {
       if (setting.length > 0) {
         roots.add(setting);
       }
+      for (const sharedFolder of mapping.sharedSettingFolders) {
+        const shared = this.normalizePath(sharedFolder);
+        if (shared.length > 0) {
+          roots.add(shared);
+        }
+      }
     }
     return Array.from(roots);
   }
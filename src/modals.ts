@@ -1,4 +1,12 @@
 import { App, Modal } from "obsidian";
+import {
+  SETTING_IMPORT_TARGET_LABELS,
+  type SettingImportColumnMapping,
+  type SettingImportPlanItem,
+  type SettingImportTarget,
+} from "./setting-import-codec";
+import type { SettingRenameChapter } from "./setting-rename-codec";
+import type { StructureJournal } from "./structure-journal";
 
 /**
  * 文本输入对话框
@@ -354,3 +362,334 @@ export class ConfirmModal extends Modal {
     contentEl.empty();
   }
 }
+
+/**
+ * 设定表格导入：列映射与合并预览
+ */
+export class SettingImportPreviewModal extends Modal {
+  private title: string;
+  private columns: string[];
+  private mapping: SettingImportColumnMapping;
+  private buildPreview: (mapping: SettingImportColumnMapping) => SettingImportPlanItem[];
+  private onConfirm: (mapping: SettingImportColumnMapping) => void;
+  private previewEl?: HTMLElement;
+  private confirmBtn?: HTMLButtonElement;
+
+  constructor(
+    app: App,
+    title: string,
+    columns: string[],
+    mapping: SettingImportColumnMapping,
+    buildPreview: (mapping: SettingImportColumnMapping) => SettingImportPlanItem[],
+    onConfirm: (mapping: SettingImportColumnMapping) => void
+  ) {
+    super(app);
+    this.title = title;
+    this.columns = columns;
+    this.mapping = { ...mapping };
+    this.buildPreview = buildPreview;
+    this.onConfirm = onConfirm;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.modalEl.addClass("cw-modal", "cw-import-modal");
+    this.modalEl.parentElement?.addClass("cw-modal-container");
+    contentEl.addClass("cw-modal-content");
+
+    contentEl.createEl("h2", { text: this.title, cls: "cw-modal-title" });
+
+    const mappingEl = contentEl.createDiv({ cls: "cw-import-mapping" });
+    for (const target of Object.keys(SETTING_IMPORT_TARGET_LABELS) as SettingImportTarget[]) {
+      const rowEl = mappingEl.createDiv({ cls: "cw-import-mapping-row" });
+      rowEl.createSpan({ text: SETTING_IMPORT_TARGET_LABELS[target], cls: "cw-import-mapping-label" });
+      const selectEl = rowEl.createEl("select", { cls: "dropdown" });
+      selectEl.createEl("option", { text: "（不导入）", value: "" });
+      for (const column of this.columns) {
+        selectEl.createEl("option", { text: column, value: column });
+      }
+      selectEl.value = this.mapping[target] ?? "";
+      selectEl.addEventListener("change", () => {
+        this.mapping[target] = selectEl.value || null;
+        this.renderPreview();
+      });
+    }
+
+    this.previewEl = contentEl.createDiv({ cls: "cw-import-preview" });
+
+    const buttonContainer = contentEl.createDiv({ cls: "cw-modal-buttons cw-modal-buttons-confirm" });
+    const cancelBtn = buttonContainer.createEl("button", { text: "取消" });
+    cancelBtn.addEventListener("click", () => {
+      this.close();
+    });
+    this.confirmBtn = buttonContainer.createEl("button", { text: "导入", cls: "mod-cta" });
+    this.confirmBtn.addEventListener("click", () => {
+      this.close();
+      this.onConfirm({ ...this.mapping });
+    });
+
+    this.renderPreview();
+  }
+
+  private renderPreview(): void {
+    if (!this.previewEl) return;
+    this.previewEl.empty();
+
+    const items = this.mapping.name === null ? [] : this.buildPreview({ ...this.mapping });
+    const counts = { add: 0, update: 0, skip: 0 };
+    for (const item of items) {
+      counts[item.action]++;
+    }
+    if (this.confirmBtn) {
+      this.confirmBtn.disabled = counts.add + counts.update === 0;
+    }
+
+    this.previewEl.createDiv({
+      text: this.mapping.name === null
+        ? "请先选择设定名所在的列"
+        : `新增 ${counts.add} 条，更新 ${counts.update} 条，跳过 ${counts.skip} 条`,
+      cls: "cw-import-summary",
+    });
+
+    const actionLabels: Record<SettingImportPlanItem["action"], string> = {
+      add: "新增",
+      update: "更新",
+      skip: "跳过",
+    };
+    for (const item of items) {
+      const itemEl = this.previewEl.createDiv({ cls: `cw-import-item cw-import-item-${item.action}` });
+      const headerEl = itemEl.createDiv({ cls: "cw-import-item-header" });
+      headerEl.createSpan({ text: actionLabels[item.action], cls: "cw-import-item-action" });
+      headerEl.createSpan({ text: item.name || "（无名）", cls: "cw-import-item-name" });
+      headerEl.createSpan({ text: item.reason ?? item.category, cls: "cw-import-item-meta" });
+
+      if (item.removedLines.length === 0 && item.addedLines.length === 0) continue;
+      const diffEl = itemEl.createDiv({ cls: "cw-import-diff" });
+      for (const line of item.removedLines) {
+        diffEl.createDiv({ text: `- ${line.trim()}`, cls: "cw-import-diff-removed" });
+      }
+      for (const line of item.addedLines) {
+        diffEl.createDiv({ text: `+ ${line.trim()}`, cls: "cw-import-diff-added" });
+      }
+    }
+  }
+
+  onClose() {
+    this.modalEl.removeClass("cw-modal", "cw-import-modal");
+    this.modalEl.parentElement?.removeClass("cw-modal-container");
+    this.contentEl.empty();
+  }
+}
+
+/**
+ * 设定批量重命名预览：按章节列出每一处命中，可逐处勾选
+ */
+export class SettingRenamePreviewModal extends Modal {
+  private title: string;
+  private newName: string;
+  private chapters: SettingRenameChapter[];
+  private onConfirm: (selectedIds: Set<string>) => void;
+  private selectedIds: Set<string>;
+  private includeAliases = false;
+  private previewEl?: HTMLElement;
+  private summaryEl?: HTMLElement;
+  private confirmBtn?: HTMLButtonElement;
+
+  constructor(
+    app: App,
+    title: string,
+    newName: string,
+    chapters: SettingRenameChapter[],
+    onConfirm: (selectedIds: Set<string>) => void
+  ) {
+    super(app);
+    this.title = title;
+    this.newName = newName;
+    this.chapters = chapters;
+    this.onConfirm = onConfirm;
+    // 默认只勾选设定名本身，别名需确认后再勾选
+    this.selectedIds = new Set(
+      chapters.flatMap((chapter) => chapter.occurrences.filter((item) => !item.isAlias).map((item) => item.id))
+    );
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.modalEl.addClass("cw-modal", "cw-rename-modal");
+    this.modalEl.parentElement?.addClass("cw-modal-container");
+    contentEl.addClass("cw-modal-content");
+
+    contentEl.createEl("h2", { text: this.title, cls: "cw-modal-title" });
+
+    const hasAliases = this.chapters.some((chapter) => chapter.occurrences.some((item) => item.isAlias));
+    if (hasAliases) {
+      const optionEl = contentEl.createEl("label", { cls: "cw-rename-option" });
+      const aliasCheckbox = optionEl.createEl("input", { type: "checkbox" });
+      optionEl.appendText("同时替换别名");
+      aliasCheckbox.addEventListener("change", () => {
+        this.includeAliases = aliasCheckbox.checked;
+        for (const chapter of this.chapters) {
+          for (const item of chapter.occurrences) {
+            if (!item.isAlias) continue;
+            if (this.includeAliases) this.selectedIds.add(item.id);
+            else this.selectedIds.delete(item.id);
+          }
+        }
+        this.renderPreview();
+      });
+    }
+
+    this.summaryEl = contentEl.createDiv({ cls: "cw-import-summary" });
+    this.previewEl = contentEl.createDiv({ cls: "cw-import-preview" });
+
+    const buttonContainer = contentEl.createDiv({ cls: "cw-modal-buttons cw-modal-buttons-confirm" });
+    const cancelBtn = buttonContainer.createEl("button", { text: "取消" });
+    cancelBtn.addEventListener("click", () => {
+      this.close();
+    });
+    this.confirmBtn = buttonContainer.createEl("button", { text: "重命名", cls: "mod-cta" });
+    this.confirmBtn.addEventListener("click", () => {
+      this.close();
+      this.onConfirm(new Set(this.selectedIds));
+    });
+
+    this.renderPreview();
+  }
+
+  private renderPreview(): void {
+    if (!this.previewEl) return;
+    const scrollTop = this.previewEl.scrollTop;
+    this.previewEl.empty();
+
+    for (const chapter of this.chapters) {
+      const occurrences = chapter.occurrences.filter((item) => this.includeAliases || !item.isAlias);
+      if (occurrences.length === 0) continue;
+
+      const chapterEl = this.previewEl.createDiv({ cls: "cw-rename-chapter" });
+      const headerEl = chapterEl.createEl("label", { cls: "cw-rename-chapter-header" });
+      const chapterCheckbox = headerEl.createEl("input", { type: "checkbox" });
+      const selectedCount = occurrences.filter((item) => this.selectedIds.has(item.id)).length;
+      chapterCheckbox.checked = selectedCount === occurrences.length;
+      chapterCheckbox.indeterminate = selectedCount > 0 && selectedCount < occurrences.length;
+      headerEl.createSpan({ text: chapter.chapterLabel, cls: "cw-import-item-name" });
+      headerEl.createSpan({ text: `${occurrences.length} 处`, cls: "cw-import-item-meta" });
+      chapterCheckbox.addEventListener("change", () => {
+        for (const item of occurrences) {
+          if (chapterCheckbox.checked) this.selectedIds.add(item.id);
+          else this.selectedIds.delete(item.id);
+        }
+        this.renderPreview();
+      });
+
+      for (const item of occurrences) {
+        const rowEl = chapterEl.createEl("label", { cls: "cw-rename-occurrence" });
+        const checkbox = rowEl.createEl("input", { type: "checkbox" });
+        checkbox.checked = this.selectedIds.has(item.id);
+        checkbox.addEventListener("change", () => {
+          if (checkbox.checked) this.selectedIds.add(item.id);
+          else this.selectedIds.delete(item.id);
+          this.renderPreview();
+        });
+        rowEl.createSpan({ text: `${item.line + 1}`, cls: "cw-rename-occurrence-line" });
+        const textEl = rowEl.createSpan({ cls: "cw-rename-occurrence-text" });
+        textEl.appendText(item.before);
+        textEl.createSpan({ text: item.matchedText, cls: "cw-import-diff-removed cw-rename-old" });
+        textEl.createSpan({ text: this.newName, cls: "cw-import-diff-added" });
+        textEl.appendText(item.after);
+      }
+    }
+
+    const total = this.chapters.reduce(
+      (count, chapter) => count + chapter.occurrences.filter((item) => this.includeAliases || !item.isAlias).length,
+      0
+    );
+    this.summaryEl?.setText(`共 ${total} 处，已选 ${this.selectedIds.size} 处；设定标题将一并改名`);
+    if (total === 0) {
+      this.previewEl.createDiv({ text: "正文中没有找到该设定", cls: "cw-import-summary" });
+    }
+    this.previewEl.scrollTop = scrollTop;
+  }
+
+  onClose() {
+    this.modalEl.removeClass("cw-modal", "cw-rename-modal");
+    this.modalEl.parentElement?.removeClass("cw-modal-container");
+    this.contentEl.empty();
+  }
+}
+
+/**
+ * 设定视图结构操作历史：列出最近的操作及其涉及的文件，可撤销或重做
+ */
+export class StructureHistoryModal extends Modal {
+  private journal: StructureJournal;
+  private listEl?: HTMLElement;
+  private undoBtn?: HTMLButtonElement;
+  private redoBtn?: HTMLButtonElement;
+  private unsubscribe?: () => void;
+
+  constructor(app: App, journal: StructureJournal) {
+    super(app);
+    this.journal = journal;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.modalEl.addClass("cw-modal", "cw-history-modal");
+    this.modalEl.parentElement?.addClass("cw-modal-container");
+    contentEl.addClass("cw-modal-content");
+
+    contentEl.createEl("h2", { text: "设定结构操作历史", cls: "cw-modal-title" });
+    this.listEl = contentEl.createDiv({ cls: "cw-import-preview" });
+
+    const buttonContainer = contentEl.createDiv({ cls: "cw-modal-buttons cw-modal-buttons-confirm" });
+    this.undoBtn = buttonContainer.createEl("button", { text: "撤销" });
+    this.undoBtn.addEventListener("click", () => {
+      void this.journal.undo();
+    });
+    this.redoBtn = buttonContainer.createEl("button", { text: "重做" });
+    this.redoBtn.addEventListener("click", () => {
+      void this.journal.redo();
+    });
+
+    this.unsubscribe = this.journal.onChange(() => this.renderList());
+    this.renderList();
+  }
+
+  private renderList(): void {
+    if (!this.listEl) return;
+    this.listEl.empty();
+
+    const history = this.journal.getHistory();
+    if (this.undoBtn) this.undoBtn.disabled = !history.some((item) => !item.undone);
+    if (this.redoBtn) this.redoBtn.disabled = !history.some((item) => item.undone);
+    if (history.length === 0) {
+      this.listEl.createDiv({ text: "本次打开 Obsidian 后还没有结构操作", cls: "cw-import-summary" });
+      return;
+    }
+
+    for (const { entry, undone } of history) {
+      const itemEl = this.listEl.createDiv({ cls: undone ? "cw-import-item cw-history-item is-undone" : "cw-import-item cw-history-item" });
+      const headerEl = itemEl.createDiv({ cls: "cw-import-item-header" });
+      headerEl.createSpan({ text: entry.label, cls: "cw-import-item-name" });
+      const time = new Date(entry.timestamp);
+      const pad = (value: number) => String(value).padStart(2, "0");
+      headerEl.createSpan({
+        text: `${pad(time.getHours())}:${pad(time.getMinutes())}:${pad(time.getSeconds())}${undone ? " · 已撤销" : ""}`,
+        cls: "cw-import-item-meta",
+      });
+
+      const paths = entry.rename
+        ? [`${entry.rename.from} → ${entry.rename.to}`]
+        : entry.changes.map((change) => change.path);
+      const filesEl = itemEl.createDiv({ cls: "cw-history-files" });
+      filesEl.setText(paths.length > 0 ? paths.join("、") : "仅调整集合顺序");
+    }
+  }
+
+  onClose() {
+    this.unsubscribe?.();
+    this.modalEl.removeClass("cw-modal", "cw-history-modal");
+    this.modalEl.parentElement?.removeClass("cw-modal-container");
+    this.contentEl.empty();
+  }
+}
@@ -1,5 +1,18 @@
 import { App, TFile } from "obsidian";
-import type { OrderData, H1Info, H2Info } from "./types";
+import type {
+  OrderData,
+  H1Info,
+  H2Info,
+  CompletionKind,
+  CompletionUsage,
+  CompletionUsageRecord,
+} from "./types";
+
+/** 每个小说库每类候选最多保留的采用记录数 */
+const COMPLETION_USAGE_LIMIT = 500;
+/** 使用热度的半衰期（天） */
+const COMPLETION_USAGE_HALF_LIFE_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 /**
  * 排序管理器
@@ -21,6 +34,7 @@ export class OrderManager {
     this.orderData = {
       files: [],
       expandedStatesByFolder: {},
+      completionUsageByFolder: {},
     };
   }
 
@@ -43,7 +57,7 @@ export class OrderManager {
 
       const exists = await adapter.exists(targetPath);
       if (!exists) {
-        this.orderData = { files: [], expandedStatesByFolder: {} };
+        this.orderData = { files: [], expandedStatesByFolder: {}, completionUsageByFolder: {} };
         return;
       }
 
@@ -67,7 +81,9 @@ export class OrderManager {
         }
       }
 
-      this.orderData = { files, expandedStatesByFolder };
+      const completionUsageByFolder = this.parseCompletionUsage(parsed?.completionUsageByFolder);
+
+      this.orderData = { files, expandedStatesByFolder, completionUsageByFolder };
 
       // 兼容迁移：若读取的是旧文件，写回新 cw-view-datas.json
       if (targetPath === this.legacyOrderFilePath && !hasViewDataFile) {
@@ -81,10 +97,35 @@ export class OrderManager {
       this.orderData = {
         files: [],
         expandedStatesByFolder: {},
+        completionUsageByFolder: {},
       };
     }
   }
 
+  /**
+   * 读取补全采用记录，丢弃格式不符的条目
+   */
+  private parseCompletionUsage(raw: unknown): Record<string, CompletionUsage> {
+    const result: Record<string, CompletionUsage> = {};
+    if (!raw || typeof raw !== "object") return result;
+
+    for (const [folder, folderUsage] of Object.entries(raw as Record<string, unknown>)) {
+      if (!folderUsage || typeof folderUsage !== "object") continue;
+      const usage: CompletionUsage = { h2: {}, snippet: {} };
+      for (const kind of ["h2", "snippet"] as const) {
+        const records = (folderUsage as Record<string, unknown>)[kind];
+        if (!records || typeof records !== "object") continue;
+        for (const [key, record] of Object.entries(records as Record<string, unknown>)) {
+          const { count, lastUsed } = (record ?? {}) as Partial<CompletionUsageRecord>;
+          if (typeof count !== "number" || typeof lastUsed !== "number" || count <= 0) continue;
+          usage[kind][key] = { count, lastUsed };
+        }
+      }
+      result[folder] = usage;
+    }
+    return result;
+  }
+
   /**
    * 保存排序数据（带防抖）
    */
@@ -146,6 +187,18 @@ export class OrderManager {
     return this.orderData.files;
   }
 
+  /**
+   * 按文件排序比较两个文件，未记录排序的文件排在后面
+   */
+  compareFileOrder(pathA: string, pathB: string): number {
+    const indexA = this.orderData.files.indexOf(pathA);
+    const indexB = this.orderData.files.indexOf(pathB);
+    if (indexA === -1 && indexB === -1) return 0;
+    if (indexA === -1) return 1;
+    if (indexB === -1) return -1;
+    return indexA - indexB;
+  }
+
   /**
    * 设置文件排序
    */
@@ -170,6 +223,54 @@ export class OrderManager {
     await this.save();
   }
 
+  /**
+   * 记录一次补全采用；每类候选只保留最近采用的若干条
+   */
+  async recordCompletionUsage(novelFolder: string, kind: CompletionKind, key: string): Promise<void> {
+    const folderUsage = this.orderData.completionUsageByFolder[novelFolder] ?? { h2: {}, snippet: {} };
+    this.orderData.completionUsageByFolder[novelFolder] = folderUsage;
+    const records = folderUsage[kind];
+    records[key] = { count: (records[key]?.count ?? 0) + 1, lastUsed: Date.now() };
+
+    const keys = Object.keys(records);
+    if (keys.length > COMPLETION_USAGE_LIMIT) {
+      keys
+        .sort((a, b) => (records[b]?.lastUsed ?? 0) - (records[a]?.lastUsed ?? 0))
+        .slice(COMPLETION_USAGE_LIMIT)
+        .forEach((staleKey) => delete records[staleKey]);
+    }
+    await this.save();
+  }
+
+  /**
+   * 候选的使用热度：采用次数取对数，再按距上次采用的时间衰减（半衰期一周）
+   * 常用且近期用过的候选得分最高；未采用过的候选不在结果中
+   */
+  getCompletionScores(novelFolder: string, kind: CompletionKind): Map<string, number> {
+    const scores = new Map<string, number>();
+    const records = this.orderData.completionUsageByFolder[novelFolder]?.[kind] ?? {};
+    const now = Date.now();
+    for (const [key, record] of Object.entries(records)) {
+      const ageDays = Math.max(0, now - record.lastUsed) / DAY_MS;
+      scores.set(key, Math.log2(1 + record.count) * Math.pow(0.5, ageDays / COMPLETION_USAGE_HALF_LIFE_DAYS));
+    }
+    return scores;
+  }
+
+  async renameCompletionUsageFolder(oldFolder: string, newFolder: string): Promise<void> {
+    const usage = this.orderData.completionUsageByFolder[oldFolder];
+    if (!usage || oldFolder === newFolder) return;
+    this.orderData.completionUsageByFolder[newFolder] = usage;
+    delete this.orderData.completionUsageByFolder[oldFolder];
+    await this.save();
+  }
+
+  async removeCompletionUsage(novelFolder: string): Promise<void> {
+    if (!this.orderData.completionUsageByFolder[novelFolder]) return;
+    delete this.orderData.completionUsageByFolder[novelFolder];
+    await this.save();
+  }
+
   /**
    * 重新排序文件中的 H1（直接修改文件）
    */
@@ -0,0 +1,119 @@
+/**
+ * 正文中反复出现、但设定库未收录的词
+ */
+export interface OrphanTerm {
+  term: string;
+  count: number;
+  chapterCount: number;
+  /** 首次出现位置 */
+  filePath: string;
+  line: number;
+  ch: number;
+}
+
+/**
+ * 单个章节中的候选词：词 -> 出现次数与首次出现位置（不排除已有设定，便于按章节缓存）
+ */
+export type OrphanFileTerms = Map<string, { count: number; line: number; ch: number }>;
+
+interface TermAccumulator {
+  term: string;
+  count: number;
+  chapters: Set<string>;
+  filePath: string;
+  line: number;
+  ch: number;
+}
+
+/** 书名号、直角引号等包裹的专名；不含“”，避免把“走吧”“好的”这类短对白当成专名 */
+const QUOTED_TERM_PATTERN = /[「『《〈]([\u4e00-\u9fffA-Za-z0-9·]{2,12})[」』》〉]/g;
+/** 首字母大写的英文词（可由多个大写词组成） */
+const CAPITALIZED_TERM_PATTERN = /\b[A-Z][A-Za-z0-9'-]+(?:\s+[A-Z][A-Za-z0-9'-]+)*\b/g;
+
+/**
+ * 未收录词扫描器
+ * 统计章节中被书名号/直角引号包裹或首字母大写的高频词，并排除已有设定
+ */
+export class OrphanTermScanner {
+  /**
+   * 收集单个章节中的候选词
+   */
+  collectFileTerms(text: string): OrphanFileTerms {
+    const terms: OrphanFileTerms = new Map();
+    const lines = text.split(/\r?\n/);
+    for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
+      const lineText = lines[lineIndex] ?? "";
+      if (!lineText.trim()) continue;
+      this.collectFromLine(lineText, QUOTED_TERM_PATTERN, 1, lineIndex, terms);
+      this.collectFromLine(lineText, CAPITALIZED_TERM_PATTERN, 0, lineIndex, terms);
+    }
+    return terms;
+  }
+
+  /**
+   * 按章节顺序汇总各章节的候选词，排除已有设定与低频词
+   */
+  merge(
+    files: Array<{ filePath: string; terms: OrphanFileTerms }>,
+    knownKeywords: Set<string>,
+    minCount: number
+  ): OrphanTerm[] {
+    const terms = new Map<string, TermAccumulator>();
+    for (const file of files) {
+      for (const [term, stat] of file.terms) {
+        if (knownKeywords.has(term)) continue;
+        const existing = terms.get(term);
+        if (existing) {
+          existing.count += stat.count;
+          existing.chapters.add(file.filePath);
+          continue;
+        }
+        terms.set(term, {
+          term,
+          count: stat.count,
+          chapters: new Set([file.filePath]),
+          filePath: file.filePath,
+          line: stat.line,
+          ch: stat.ch,
+        });
+      }
+    }
+
+    return Array.from(terms.values())
+      .filter((item) => item.count >= minCount)
+      .sort((a, b) => {
+        if (a.count !== b.count) return b.count - a.count;
+        return a.term.localeCompare(b.term, "zh-Hans-CN");
+      })
+      .map((item) => ({
+        term: item.term,
+        count: item.count,
+        chapterCount: item.chapters.size,
+        filePath: item.filePath,
+        line: item.line,
+        ch: item.ch,
+      }));
+  }
+
+  private collectFromLine(
+    lineText: string,
+    pattern: RegExp,
+    groupIndex: number,
+    lineIndex: number,
+    terms: OrphanFileTerms
+  ): void {
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null = null;
+    while ((match = pattern.exec(lineText)) !== null) {
+      const term = (match[groupIndex] ?? "").trim();
+      if (!term) continue;
+
+      const existing = terms.get(term);
+      if (existing) {
+        existing.count++;
+        continue;
+      }
+      terms.set(term, { count: 1, line: lineIndex, ch: match.index + match[0].indexOf(term) });
+    }
+  }
+}
@@ -1,5 +1,5 @@
 import { TFile, Vault } from "obsidian";
-import type { FileParseResult, H1Info, H2Info } from "./types";
+import type { FileParseResult, H1Info, H2Info, ParagraphInfo } from "./types";
 
 /**
  * 文件解析器
@@ -7,6 +7,7 @@ import type { FileParseResult, H1Info, H2Info } from "./types";
 export class FileParser {
   private vault: Vault;
   private parseCache: Map<string, { mtime: number; size: number; result: FileParseResult }> = new Map();
+  private paragraphCache: Map<string, { mtime: number; size: number; paragraphs: ParagraphInfo[] }> = new Map();
 
   constructor(vault: Vault) {
     this.vault = vault;
@@ -135,6 +136,47 @@ export class FileParser {
     return result;
   }
 
+  /**
+   * 解析正文段落（跳过空行、标题与 frontmatter）
+   * @param file 文件对象
+   * @returns 段落数组
+   */
+  async parseParagraphs(file: TFile): Promise<ParagraphInfo[]> {
+    if (file.extension !== "md") {
+      return [];
+    }
+
+    const cached = this.paragraphCache.get(file.path);
+    if (cached && cached.mtime === file.stat.mtime && cached.size === file.stat.size) {
+      return cached.paragraphs;
+    }
+
+    const content = await this.vault.cachedRead(file);
+    const lines = content.split("\n");
+    const paragraphs: ParagraphInfo[] = [];
+
+    let startIndex = 0;
+    if (lines[0]?.trim() === "---") {
+      const endIndex = lines.findIndex((line, index) => index > 0 && line.trim() === "---");
+      if (endIndex !== -1) {
+        startIndex = endIndex + 1;
+      }
+    }
+
+    for (let i = startIndex; i < lines.length; i++) {
+      const trimmedLine = (lines[i] ?? "").trim();
+      if (!trimmedLine || /^#{1,6}\s/.test(trimmedLine)) continue;
+      paragraphs.push({ lineNumber: i, text: trimmedLine });
+    }
+
+    this.paragraphCache.set(file.path, {
+      mtime: file.stat.mtime,
+      size: file.stat.size,
+      paragraphs,
+    });
+    return paragraphs;
+  }
+
   /**
    * 获取指定文件夹下的所有 Markdown 文件
    * @param folderPath 文件夹路径
@@ -0,0 +1,182 @@
+import { PINYIN_DICTIONARY, PINYIN_EXTRA_READINGS } from "./pinyin-dictionary";
+
+/**
+ * 文本中的命中范围（左闭右开）
+ */
+export interface TextMatchRange {
+  from: number;
+  to: number;
+}
+
+/**
+ * 拼音命中：initials 为逐字首字母，spelling 为全拼或全拼与首字母混合
+ */
+export interface PinyinMatch extends TextMatchRange {
+  kind: "initials" | "spelling";
+}
+
+/**
+ * 各声母区间的第一个汉字（按拼音排序规则），字典未收录的汉字据此推算首字母
+ */
+const INITIAL_BOUNDARIES: Array<[string, string]> = [
+  ["a", "阿"], ["b", "八"], ["c", "嚓"], ["d", "哒"], ["e", "妸"], ["f", "发"],
+  ["g", "旮"], ["h", "哈"], ["j", "讥"], ["k", "咔"], ["l", "垃"], ["m", "妈"],
+  ["n", "拏"], ["o", "噢"], ["p", "妑"], ["q", "七"], ["r", "呥"], ["s", "仨"],
+  ["t", "他"], ["w", "穵"], ["x", "夕"], ["y", "丫"], ["z", "帀"],
+];
+
+const CJK_PATTERN = /[\u4e00-\u9fff]/;
+const PINYIN_QUERY_PATTERN = /^[a-z]+$/;
+
+/** 汉字 -> 读音列表（第一个为常用读音），由字典展开，各实例共用 */
+let readingTable: Map<string, string[]> | null = null;
+
+function getReadingTable(): Map<string, string[]> {
+  if (readingTable) return readingTable;
+
+  const table = new Map<string, string[]>();
+  for (const syllable of Object.keys(PINYIN_DICTIONARY)) {
+    for (const char of PINYIN_DICTIONARY[syllable] ?? "") {
+      const readings = table.get(char);
+      if (readings) readings.push(syllable);
+      else table.set(char, [syllable]);
+    }
+  }
+  for (const char of Object.keys(PINYIN_EXTRA_READINGS)) {
+    const readings = table.get(char) ?? [];
+    for (const syllable of (PINYIN_EXTRA_READINGS[char] ?? "").split(" ")) {
+      if (syllable && !readings.includes(syllable)) readings.push(syllable);
+    }
+    table.set(char, readings);
+  }
+  readingTable = table;
+  return table;
+}
+
+/**
+ * 拼音匹配：支持首字母（mrf）、全拼（murongfu）及两者混合（murf）
+ * 读音取自内置字典，多音字的每个读音都参与匹配；字典外的汉字由系统拼音排序规则推算首字母
+ */
+export class PinyinCodec {
+  private collator: Intl.Collator | null | undefined;
+  private fallbackInitialCache = new Map<string, string>();
+
+  /**
+   * 取得与原文逐字对应的首字母串：汉字替换为常用读音的首字母，其他字符转为小写保留
+   * 结果与原文长度一致，可直接按下标映射回原文
+   */
+  getInitials(text: string): string {
+    let result = "";
+    for (const char of text) {
+      const initial = this.getReadings(char)[0]?.charAt(0) ?? char;
+      result += initial.length === char.length ? initial : char;
+    }
+    return result;
+  }
+
+  /**
+   * 查找命中范围：先按原文（忽略大小写）匹配，查询为纯字母时再按拼音匹配
+   */
+  findMatch(text: string, query: string): TextMatchRange | null {
+    const normalizedQuery = query.trim().toLowerCase();
+    if (!normalizedQuery) return null;
+
+    const directIndex = text.toLowerCase().indexOf(normalizedQuery);
+    if (directIndex !== -1) {
+      return { from: directIndex, to: directIndex + normalizedQuery.length };
+    }
+
+    const pinyinMatch = this.matchPinyin(text, normalizedQuery);
+    return pinyinMatch ? { from: pinyinMatch.from, to: pinyinMatch.to } : null;
+  }
+
+  /**
+   * 按拼音查找最靠前的命中；同一起点优先认作首字母命中
+   */
+  matchPinyin(text: string, query: string): PinyinMatch | null {
+    const normalizedQuery = query.trim().toLowerCase();
+    if (!PINYIN_QUERY_PATTERN.test(normalizedQuery) || !CJK_PATTERN.test(text)) return null;
+
+    const firstLetter = normalizedQuery.charAt(0);
+    for (let from = 0; from < text.length; from++) {
+      const readings = this.getReadings(text.charAt(from));
+      if (!readings.some((reading) => reading.startsWith(firstLetter))) continue;
+
+      const initialsEnd = this.consume(text, normalizedQuery, from, 0, true, new Set());
+      if (initialsEnd !== -1) return { from, to: initialsEnd, kind: "initials" };
+      const spellingEnd = this.consume(text, normalizedQuery, from, 0, false, new Set());
+      if (spellingEnd !== -1) return { from, to: spellingEnd, kind: "spelling" };
+    }
+    return null;
+  }
+
+  /**
+   * 从 textIndex 起逐字消耗查询串，每个字消耗某个读音的非空前缀（initialsOnly 时只消耗首字母）
+   * 返回命中结束位置，失败返回 -1；failed 记录已确认失败的状态，避免多音字组合重复搜索
+   */
+  private consume(
+    text: string,
+    query: string,
+    textIndex: number,
+    queryIndex: number,
+    initialsOnly: boolean,
+    failed: Set<number>
+  ): number {
+    if (queryIndex === query.length) return textIndex;
+    if (textIndex >= text.length) return -1;
+
+    const stateKey = textIndex * (query.length + 1) + queryIndex;
+    if (failed.has(stateKey)) return -1;
+
+    for (const reading of this.getReadings(text.charAt(textIndex))) {
+      const maxLength = initialsOnly ? 1 : Math.min(reading.length, query.length - queryIndex);
+      for (let length = maxLength; length >= 1; length--) {
+        if (!query.startsWith(reading.slice(0, length), queryIndex)) continue;
+        const end = this.consume(text, query, textIndex + 1, queryIndex + length, initialsOnly, failed);
+        if (end !== -1) return end;
+      }
+    }
+    failed.add(stateKey);
+    return -1;
+  }
+
+  /**
+   * 单个字符的读音：非汉字为其小写本身；字典外的汉字只有推算出的首字母
+   */
+  private getReadings(char: string): string[] {
+    if (!CJK_PATTERN.test(char)) return [char.toLowerCase()];
+
+    const readings = getReadingTable().get(char);
+    if (readings) return readings;
+
+    const initial = this.getFallbackInitial(char);
+    return initial ? [initial] : [];
+  }
+
+  private getFallbackInitial(char: string): string {
+    const cached = this.fallbackInitialCache.get(char);
+    if (cached !== undefined) return cached;
+
+    const collator = this.getCollator();
+    let initial = "";
+    if (collator) {
+      for (const [letter, boundary] of INITIAL_BOUNDARIES) {
+        if (collator.compare(char, boundary) < 0) break;
+        initial = letter;
+      }
+    }
+    this.fallbackInitialCache.set(char, initial);
+    return initial;
+  }
+
+  private getCollator(): Intl.Collator | null {
+    if (this.collator === undefined) {
+      try {
+        this.collator = new Intl.Collator("zh-Hans-CN-u-co-pinyin");
+      } catch {
+        this.collator = null;
+      }
+    }
+    return this.collator;
+  }
+}
@@ -0,0 +1,360 @@
+import { ItemView, Notice, TFile, WorkspaceLeaf, setIcon } from "obsidian";
+import type ChineseWriterPlugin from "./main";
+import type { ProofreadIssue } from "./highlight-manager";
+import { ConfirmModal } from "./modals";
+import { TYPO_SEVERITY_LABELS } from "./typo-rule-codec";
+
+export const VIEW_TYPE_PROOFREAD_REPORT = "chinese-writer-proofread-report-view";
+
+/** 问题处前后显示的字数 */
+const CONTEXT_RADIUS = 10;
+
+interface IssueLocation {
+  issue: ProofreadIssue;
+  line: number;
+  ch: number;
+  before: string;
+  text: string;
+  after: string;
+}
+
+interface ChapterProofreadResult {
+  file: TFile;
+  chapterLabel: string;
+  chapterNumber: number | null;
+  locations: IssueLocation[];
+  /** 可安全批量修正的处数 */
+  safeFixCount: number;
+}
+
+interface ApplySummaryItem {
+  chapterLabel: string;
+  typoCount: number;
+  punctuationCount: number;
+}
+
+/**
+ * 全书校对视图
+ * 扫描小说库中的全部章节，按章节与规则列出错别字与标点问题，可批量应用安全修正
+ */
+export class ProofreadReportView extends ItemView {
+  plugin: ChineseWriterPlugin;
+  private novelFolder: string | null = null;
+  private results: ChapterProofreadResult[] | null = null;
+  private applySummary: ApplySummaryItem[] | null = null;
+  private renderRunId = 0;
+  private applying = false;
+
+  constructor(leaf: WorkspaceLeaf, plugin: ChineseWriterPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType(): string {
+    return VIEW_TYPE_PROOFREAD_REPORT;
+  }
+
+  getDisplayText(): string {
+    return "全书校对";
+  }
+
+  getIcon(): string {
+    return "spell-check-2";
+  }
+
+  async onOpen(): Promise<void> {
+    this.novelFolder = this.getNovelFolders()[0] ?? null;
+    await this.refresh();
+  }
+
+  async onClose(): Promise<void> {
+    this.renderRunId++;
+  }
+
+  /**
+   * 切换到指定小说库并重新校对
+   */
+  async showNovelFolder(novelFolder: string): Promise<void> {
+    this.novelFolder = novelFolder;
+    this.applySummary = null;
+    await this.refresh();
+  }
+
+  /**
+   * 重新扫描全部章节
+   */
+  async refresh(): Promise<void> {
+    const runId = ++this.renderRunId;
+    this.results = null;
+    this.render();
+
+    const novelFolder = this.novelFolder;
+    if (!novelFolder || !this.getNovelFolders().includes(novelFolder)) return;
+
+    const results: ChapterProofreadResult[] = [];
+    for (const file of this.getChapterFiles(novelFolder)) {
+      const content = await this.app.vault.cachedRead(file);
+      if (runId !== this.renderRunId) return;
+      const result = this.scanChapter(file, content);
+      if (result) results.push(result);
+    }
+    if (runId !== this.renderRunId) return;
+
+    this.results = results.sort((a, b) => {
+      if (a.chapterNumber !== null && b.chapterNumber !== null && a.chapterNumber !== b.chapterNumber) {
+        return a.chapterNumber - b.chapterNumber;
+      }
+      if (a.chapterNumber !== null && b.chapterNumber === null) return -1;
+      if (a.chapterNumber === null && b.chapterNumber !== null) return 1;
+      return a.file.path.localeCompare(b.file.path, "zh-Hans-CN");
+    });
+    this.render();
+  }
+
+  private scanChapter(file: TFile, content: string): ChapterProofreadResult | null {
+    const highlightManager = this.plugin.highlightManager;
+    const issues = highlightManager.collectProofreadIssues(content, file.path);
+    if (issues.length === 0) return null;
+
+    const locations: IssueLocation[] = [];
+    let line = 0;
+    let lineStart = 0;
+    for (const issue of issues) {
+      let newline = content.indexOf("\n", lineStart);
+      while (newline !== -1 && newline < issue.from) {
+        line++;
+        lineStart = newline + 1;
+        newline = content.indexOf("\n", lineStart);
+      }
+      const lineEnd = content.indexOf("\n", issue.to);
+      locations.push({
+        issue,
+        line,
+        ch: issue.from - lineStart,
+        before: content.slice(Math.max(lineStart, issue.from - CONTEXT_RADIUS), issue.from),
+        text: content.slice(issue.from, issue.to),
+        after: content.slice(issue.to, Math.min(lineEnd === -1 ? content.length : lineEnd, issue.to + CONTEXT_RADIUS)),
+      });
+    }
+
+    const chapterNumber = this.plugin.chapterManager.extractChapterNumber(file.basename);
+    return {
+      file,
+      chapterLabel: chapterNumber !== null ? `第${chapterNumber}章` : file.basename,
+      chapterNumber,
+      locations,
+      safeFixCount: highlightManager.applySafeProofreadFixes(content, file.path).changes.length,
+    };
+  }
+
+  private render(): void {
+    const container = this.containerEl.children[1];
+    if (!container) return;
+
+    container.empty();
+    container.addClass("chinese-writer-view");
+    this.renderHeader(container as HTMLElement);
+
+    const contentEl = container.createDiv({ cls: "cw-report-content" });
+    if (!this.novelFolder || !this.getNovelFolders().includes(this.novelFolder)) {
+      contentEl.createDiv({ text: "请先在设置中配置小说库与设定库的对应关系", cls: "chinese-writer-empty" });
+      return;
+    }
+    if (this.applySummary) {
+      this.renderApplySummary(contentEl, this.applySummary);
+    }
+    if (!this.results) {
+      contentEl.createDiv({ text: "正在校对全部章节…", cls: "chinese-writer-empty" });
+      return;
+    }
+    if (this.results.length === 0) {
+      contentEl.createDiv({ text: "未发现错别字或标点问题", cls: "chinese-writer-empty" });
+      return;
+    }
+
+    this.renderToolbar(contentEl, this.results);
+    for (const result of this.results) {
+      this.renderChapter(contentEl, result);
+    }
+  }
+
+  private renderHeader(container: HTMLElement): void {
+    const headerEl = container.createDiv({ cls: "chinese-writer-header" });
+    const titleEl = headerEl.createDiv({ cls: "chinese-writer-title" });
+    const iconEl = titleEl.createSpan({ cls: "chinese-writer-icon" });
+    setIcon(iconEl, "spell-check-2");
+
+    const novelFolders = this.getNovelFolders();
+    if (novelFolders.length > 1) {
+      const selectEl = titleEl.createEl("select", { cls: "dropdown cw-report-folder-select" });
+      for (const folder of novelFolders) {
+        selectEl.createEl("option", { text: folder, value: folder });
+      }
+      selectEl.value = this.novelFolder ?? "";
+      selectEl.addEventListener("change", () => {
+        void this.showNovelFolder(selectEl.value);
+      });
+    } else {
+      titleEl.createSpan({
+        text: this.novelFolder ?? "未设置目录",
+        cls: "chinese-writer-folder-name",
+      });
+    }
+
+    const refreshBtn = headerEl.createEl("button", { cls: "chinese-writer-toggle-btn" });
+    setIcon(refreshBtn, "refresh-cw");
+    refreshBtn.setAttribute("aria-label", "重新校对");
+    refreshBtn.addEventListener("click", () => {
+      void this.refresh();
+    });
+  }
+
+  private renderToolbar(contentEl: HTMLElement, results: ChapterProofreadResult[]): void {
+    const issueCount = results.reduce((count, result) => count + result.locations.length, 0);
+    const safeResults = results.filter((result) => result.safeFixCount > 0);
+    const safeFixCount = safeResults.reduce((count, result) => count + result.safeFixCount, 0);
+
+    const toolbarEl = contentEl.createDiv({ cls: "cw-review-toolbar" });
+    toolbarEl.createSpan({
+      cls: "cw-review-summary",
+      text: `${results.length} 章共 ${issueCount} 处问题，其中 ${safeFixCount} 处可安全修正`,
+    });
+
+    const applyBtn = toolbarEl.createEl("button", { text: "批量应用安全修正", cls: "mod-cta" });
+    applyBtn.disabled = safeFixCount === 0 || this.applying;
+    applyBtn.addEventListener("click", () => {
+      new ConfirmModal(
+        this.app,
+        "批量应用安全修正",
+        `将修正 ${safeResults.length} 个章节中的 ${safeFixCount} 处错别字与英文标点。` +
+          "引号与括号配对、只提示不修正的词，以及 YAML 头、代码、链接与网址中的内容不会改动，请逐章审阅。是否继续？",
+        () => {
+          void this.applySafeFixes(safeResults);
+        }
+      ).open();
+    });
+  }
+
+  /**
+   * 章节内按规则分组；章节展开时才渲染具体位置
+   */
+  private renderChapter(contentEl: HTMLElement, result: ChapterProofreadResult): void {
+    const chapterEl = contentEl.createEl("details", { cls: "cw-proofread-chapter" });
+    const summaryEl = chapterEl.createEl("summary", { cls: "cw-proofread-chapter-summary" });
+    summaryEl.createSpan({ cls: "cw-report-item-text", text: result.chapterLabel });
+    summaryEl.createSpan({ cls: "cw-report-item-meta", text: `${result.locations.length} 处` });
+
+    let rendered = false;
+    chapterEl.addEventListener("toggle", () => {
+      if (!chapterEl.open || rendered) return;
+      rendered = true;
+
+      const groups = new Map<string, IssueLocation[]>();
+      for (const location of result.locations) {
+        const { issue } = location;
+        const kindLabel = issue.severity !== null ? `错别字（${TYPO_SEVERITY_LABELS[issue.severity]}）` : "标点";
+        const key = `${kindLabel} · ${issue.ruleName}`;
+        const group = groups.get(key) ?? [];
+        group.push(location);
+        groups.set(key, group);
+      }
+
+      for (const [ruleLabel, locations] of groups) {
+        const groupEl = chapterEl.createDiv({ cls: "cw-proofread-rule" });
+        const groupHeadEl = groupEl.createDiv({ cls: "cw-proofread-rule-head" });
+        groupHeadEl.createSpan({ cls: "cw-report-item-tag", text: ruleLabel });
+        groupHeadEl.createSpan({ cls: "cw-report-item-meta", text: `${locations.length} 处` });
+
+        const listEl = groupEl.createEl("ul", { cls: "cw-report-list" });
+        for (const location of locations) {
+          const itemEl = listEl.createEl("li", { cls: "cw-report-item" });
+          const textEl = itemEl.createSpan({ cls: "cw-report-item-text" });
+          textEl.createSpan({ text: location.before });
+          textEl.createSpan({ cls: "cw-review-old", text: location.text });
+          if (location.issue.replacement !== null) {
+            textEl.createSpan({ cls: "cw-review-new", text: location.issue.replacement });
+          }
+          textEl.createSpan({ text: location.after });
+          itemEl.createSpan({ cls: "cw-report-item-meta", text: `第 ${location.line + 1} 行` });
+          itemEl.addEventListener("click", () => {
+            void this.plugin.highlightManager.openFileAtLine(result.file, location.line, location.ch);
+          });
+        }
+      }
+    });
+  }
+
+  private renderApplySummary(contentEl: HTMLElement, summary: ApplySummaryItem[]): void {
+    const sectionEl = contentEl.createDiv({ cls: "cw-report-section" });
+    sectionEl.createDiv({ cls: "cw-report-section-title", text: `上次批量修正（${summary.length} 个章节）` });
+    if (summary.length === 0) {
+      sectionEl.createDiv({ cls: "cw-report-empty", text: "没有章节被修改" });
+      return;
+    }
+
+    const listEl = sectionEl.createEl("ul", { cls: "cw-report-list" });
+    for (const item of summary) {
+      const itemEl = listEl.createEl("li", { cls: "cw-report-item" });
+      itemEl.createSpan({ cls: "cw-report-item-text", text: item.chapterLabel });
+      itemEl.createSpan({
+        cls: "cw-report-item-meta",
+        text: `错别字 ${item.typoCount} 处 · 标点 ${item.punctuationCount} 处`,
+      });
+    }
+  }
+
+  /**
+   * 逐个章节重新读取最新内容后修正并写入
+   */
+  private async applySafeFixes(results: ChapterProofreadResult[]): Promise<void> {
+    if (this.applying) return;
+    this.applying = true;
+    const summary: ApplySummaryItem[] = [];
+    const failed: string[] = [];
+    try {
+      for (const result of results) {
+        try {
+          const content = await this.app.vault.read(result.file);
+          const fixed = this.plugin.highlightManager.applySafeProofreadFixes(content, result.file.path);
+          if (fixed.changes.length === 0 || fixed.text === content) continue;
+          await this.app.vault.modify(result.file, fixed.text);
+          const typoCount = fixed.changes.filter((change) => change.kind === "typo").length;
+          summary.push({
+            chapterLabel: result.chapterLabel,
+            typoCount,
+            punctuationCount: fixed.changes.length - typoCount,
+          });
+        } catch (error) {
+          console.error(`Failed to apply proofread fixes to ${result.file.path}:`, error);
+          failed.push(result.chapterLabel);
+        }
+      }
+    } finally {
+      this.applying = false;
+    }
+
+    this.applySummary = summary;
+    const total = summary.reduce((count, item) => count + item.typoCount + item.punctuationCount, 0);
+    const failedText = failed.length > 0 ? `，${failed.join("、")}修正失败` : "";
+    new Notice(`已修正 ${summary.length} 个章节共 ${total} 处${failedText}`);
+    await this.refresh();
+  }
+
+  private getChapterFiles(novelFolder: string): TFile[] {
+    const prefix = `${novelFolder.replace(/^\/+|\/+$/g, "")}/`;
+    return this.app.vault
+      .getMarkdownFiles()
+      .filter((file) => file.path.startsWith(prefix))
+      .filter((file) => this.plugin.highlightManager.isProofreadableFile(file.path));
+  }
+
+  private getNovelFolders(): string[] {
+    const folders = new Set<string>();
+    for (const mapping of this.plugin.settings.folderMappings) {
+      if (mapping.novelFolder && mapping.settingFolder) {
+        folders.add(mapping.novelFolder);
+      }
+    }
+    return Array.from(folders);
+  }
+}
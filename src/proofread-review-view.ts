@@ -0,0 +1,287 @@
+import { ItemView, MarkdownView, Notice, WorkspaceLeaf, setIcon } from "obsidian";
+import type ChineseWriterPlugin from "./main";
+import type { ProofreadChange } from "./highlight-manager";
+
+export const VIEW_TYPE_PROOFREAD_REVIEW = "chinese-writer-proofread-review-view";
+
+/** 修正处前后显示的字数 */
+const CONTEXT_RADIUS = 12;
+
+type ReviewDecision = "pending" | "accepted" | "skipped";
+
+interface ReviewItem {
+  change: ProofreadChange;
+  decision: ReviewDecision;
+}
+
+/**
+ * 修正审阅视图
+ * 逐条列出当前文档的错别字与标点修正，接受的修正在同一个编辑器事务中写入，撤销一次即可还原
+ */
+export class ProofreadReviewView extends ItemView {
+  plugin: ChineseWriterPlugin;
+  private markdownView: MarkdownView | null = null;
+  private filePath: string | null = null;
+  /** 扫描时的全文，应用前据此判断文档是否已被改动 */
+  private sourceText = "";
+  private items: ReviewItem[] = [];
+  private stale = false;
+
+  constructor(leaf: WorkspaceLeaf, plugin: ChineseWriterPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType(): string {
+    return VIEW_TYPE_PROOFREAD_REVIEW;
+  }
+
+  getDisplayText(): string {
+    return "修正审阅";
+  }
+
+  getIcon(): string {
+    return "spell-check";
+  }
+
+  async onOpen(): Promise<void> {
+    this.registerEvent(
+      this.app.workspace.on("editor-change", (editor, info) => {
+        if (this.stale || !this.filePath || info.file?.path !== this.filePath) return;
+        if (editor.getValue() === this.sourceText) return;
+        this.stale = true;
+        this.render();
+      })
+    );
+    this.render();
+  }
+
+  /**
+   * 审阅指定编辑器中的文档
+   */
+  review(markdownView: MarkdownView): void {
+    this.markdownView = markdownView;
+    this.filePath = markdownView.file?.path ?? null;
+    this.scan();
+  }
+
+  private scan(): void {
+    this.stale = false;
+    const view = this.getReviewedView();
+    if (!view || !this.filePath) {
+      this.sourceText = "";
+      this.items = [];
+      this.render();
+      return;
+    }
+
+    this.sourceText = view.editor.getValue();
+    const highlightManager = this.plugin.highlightManager;
+    this.items = highlightManager.isProofreadableFile(this.filePath)
+      ? highlightManager
+          .collectProofreadChanges(this.sourceText, this.filePath)
+          .map((change) => ({ change, decision: "pending" }))
+      : [];
+    this.render();
+  }
+
+  private render(): void {
+    const container = this.containerEl.children[1];
+    if (!container) return;
+
+    // 逐条确认时保持列表的滚动位置
+    const scrollTop = container.querySelector(".cw-report-content")?.scrollTop ?? 0;
+    container.empty();
+    container.addClass("chinese-writer-view");
+    this.renderHeader(container as HTMLElement);
+
+    const contentEl = container.createDiv({ cls: "cw-report-content" });
+    if (!this.filePath || !this.getReviewedView()) {
+      contentEl.createDiv({
+        text: "请在要审阅的文档中执行“审阅当前文档错别字与标点修正”命令",
+        cls: "chinese-writer-empty",
+      });
+      return;
+    }
+    if (!this.plugin.highlightManager.isProofreadableFile(this.filePath)) {
+      contentEl.createDiv({ text: "当前文档不在已配置的小说库中", cls: "chinese-writer-empty" });
+      return;
+    }
+    if (this.stale) {
+      contentEl.createDiv({ text: "文档在审阅期间被修改，请重新扫描后再应用", cls: "cw-review-stale" });
+    }
+    if (this.items.length === 0) {
+      contentEl.createDiv({ text: "没有需要修正的错别字或标点", cls: "chinese-writer-empty" });
+      return;
+    }
+
+    this.renderToolbar(contentEl);
+    const listEl = contentEl.createEl("ul", { cls: "cw-report-list" });
+    for (const item of this.items) {
+      this.renderItem(listEl, item);
+    }
+    contentEl.scrollTop = scrollTop;
+  }
+
+  private renderHeader(container: HTMLElement): void {
+    const headerEl = container.createDiv({ cls: "chinese-writer-header" });
+    const titleEl = headerEl.createDiv({ cls: "chinese-writer-title" });
+    const iconEl = titleEl.createSpan({ cls: "chinese-writer-icon" });
+    setIcon(iconEl, "spell-check");
+    titleEl.createSpan({
+      text: this.filePath?.split("/").pop()?.replace(/\.md$/, "") ?? "修正审阅",
+      cls: "chinese-writer-folder-name",
+    });
+
+    const refreshBtn = headerEl.createEl("button", { cls: "chinese-writer-toggle-btn" });
+    setIcon(refreshBtn, "refresh-cw");
+    refreshBtn.setAttribute("aria-label", "重新扫描");
+    refreshBtn.addEventListener("click", () => this.scan());
+  }
+
+  private renderToolbar(contentEl: HTMLElement): void {
+    const acceptedCount = this.items.filter((item) => item.decision === "accepted").length;
+    const skippedCount = this.items.filter((item) => item.decision === "skipped").length;
+
+    const toolbarEl = contentEl.createDiv({ cls: "cw-review-toolbar" });
+    toolbarEl.createSpan({
+      cls: "cw-review-summary",
+      text: `共 ${this.items.length} 处 · 接受 ${acceptedCount} · 跳过 ${skippedCount}`,
+    });
+
+    const acceptAllBtn = toolbarEl.createEl("button", { text: "全部接受" });
+    acceptAllBtn.addEventListener("click", () => {
+      for (const item of this.items) {
+        if (item.decision === "pending") item.decision = "accepted";
+      }
+      this.render();
+    });
+
+    const applyBtn = toolbarEl.createEl("button", { text: `应用已接受（${acceptedCount}）`, cls: "mod-cta" });
+    applyBtn.disabled = acceptedCount === 0 || this.stale;
+    applyBtn.addEventListener("click", () => this.applyAccepted());
+  }
+
+  private renderItem(listEl: HTMLElement, item: ReviewItem): void {
+    const { change } = item;
+    const itemEl = listEl.createEl("li", { cls: "cw-review-item" });
+    if (item.decision !== "pending") itemEl.addClass(`is-${item.decision}`);
+
+    const headEl = itemEl.createDiv({ cls: "cw-review-item-head" });
+    headEl.createSpan({ cls: "cw-report-item-tag", text: change.ruleName });
+    headEl.createSpan({
+      cls: "cw-report-item-meta",
+      text: `第 ${this.getLineNumber(change.from)} 行`,
+    });
+
+    const lineStart = this.sourceText.lastIndexOf("\n", change.from - 1) + 1;
+    const newline = this.sourceText.indexOf("\n", change.to);
+    const lineEnd = newline === -1 ? this.sourceText.length : newline;
+    const contextEl = itemEl.createDiv({ cls: "cw-review-context" });
+    contextEl.createSpan({
+      text: this.sourceText.slice(Math.max(lineStart, change.from - CONTEXT_RADIUS), change.from),
+    });
+    contextEl.createSpan({ cls: "cw-review-old", text: change.text });
+    contextEl.createSpan({ cls: "cw-review-new", text: change.replacement });
+    contextEl.createSpan({ text: this.sourceText.slice(change.to, Math.min(lineEnd, change.to + CONTEXT_RADIUS)) });
+    contextEl.setAttribute("aria-label", "跳转到该位置");
+    contextEl.addEventListener("click", () => this.jumpTo(change));
+
+    const actionsEl = itemEl.createDiv({ cls: "cw-review-actions" });
+    const acceptBtn = actionsEl.createEl("button", { text: item.decision === "accepted" ? "取消接受" : "接受" });
+    acceptBtn.addEventListener("click", () => {
+      item.decision = item.decision === "accepted" ? "pending" : "accepted";
+      this.render();
+    });
+    const skipBtn = actionsEl.createEl("button", { text: item.decision === "skipped" ? "取消跳过" : "跳过" });
+    skipBtn.addEventListener("click", () => {
+      item.decision = item.decision === "skipped" ? "pending" : "skipped";
+      this.render();
+    });
+    const acceptRuleBtn = actionsEl.createEl("button", { text: "接受该规则全部" });
+    acceptRuleBtn.addEventListener("click", () => {
+      for (const other of this.items) {
+        if (other.change.ruleName === change.ruleName && other.decision !== "skipped") {
+          other.decision = "accepted";
+        }
+      }
+      this.render();
+    });
+  }
+
+  private jumpTo(change: ProofreadChange): void {
+    const view = this.getReviewedView();
+    if (!view) {
+      new Notice("审阅的文档已关闭，请重新执行审阅");
+      return;
+    }
+
+    const editor = view.editor;
+    const from = editor.offsetToPos(change.from);
+    const to = editor.offsetToPos(change.to);
+    this.app.workspace.setActiveLeaf(view.leaf, { focus: true });
+    editor.setSelection(from, to);
+    editor.scrollIntoView({ from, to }, true);
+  }
+
+  /**
+   * 在同一个事务中写入所有已接受的修正；其余条目按写入后的位置保留原有的选择
+   */
+  private applyAccepted(): void {
+    const view = this.getReviewedView();
+    if (!view) {
+      new Notice("审阅的文档已关闭，请重新执行审阅");
+      return;
+    }
+    const editor = view.editor;
+    if (this.stale || editor.getValue() !== this.sourceText) {
+      this.stale = true;
+      this.render();
+      new Notice("文档在审阅期间被修改，请重新扫描");
+      return;
+    }
+
+    const accepted = this.items.filter((item) => item.decision === "accepted").map((item) => item.change);
+    if (accepted.length === 0) return;
+
+    editor.transaction({
+      changes: accepted.map((change) => ({
+        from: editor.offsetToPos(change.from),
+        to: editor.offsetToPos(change.to),
+        text: change.replacement,
+      })),
+    });
+
+    let delta = 0;
+    const remaining: ReviewItem[] = [];
+    for (const item of this.items) {
+      const { change } = item;
+      if (item.decision === "accepted") {
+        delta += change.replacement.length - (change.to - change.from);
+        continue;
+      }
+      remaining.push({ ...item, change: { ...change, from: change.from + delta, to: change.to + delta } });
+    }
+    this.items = remaining;
+    this.sourceText = editor.getValue();
+    this.stale = false;
+    this.render();
+    new Notice(`已应用 ${accepted.length} 处修正，可在编辑器中撤销`);
+  }
+
+  private getReviewedView(): MarkdownView | null {
+    const view = this.markdownView;
+    if (!view || !this.filePath || view.file?.path !== this.filePath) return null;
+    return view;
+  }
+
+  private getLineNumber(offset: number): number {
+    let line = 1;
+    let index = this.sourceText.indexOf("\n");
+    while (index !== -1 && index < offset) {
+      line++;
+      index = this.sourceText.indexOf("\n", index + 1);
+    }
+    return line;
+  }
+}
@@ -0,0 +1,510 @@
+import { ItemView, MarkdownView, WorkspaceLeaf, setIcon } from "obsidian";
+import type ChineseWriterPlugin from "./main";
+import type { KeywordPreviewData } from "./highlight-manager";
+import { SettingRelationBuilder, type SettingRelationGraph } from "./setting-relation-builder";
+
+export const VIEW_TYPE_RELATIONSHIP_GRAPH = "chinese-writer-relationship-graph-view";
+
+interface GraphNode {
+  entry: KeywordPreviewData;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  degree: number;
+  color: string;
+}
+
+interface GraphEdge {
+  source: GraphNode;
+  target: GraphNode;
+  weight: number;
+}
+
+const NODE_COLORS = ["#4A86E9", "#7B61FF", "#47B881", "#F59E0B", "#F05D6C", "#14B8A6", "#A855F7", "#64748B"];
+const ALL_OPTION = "";
+
+/**
+ * 设定关系图视图
+ * 以力导向图展示设定之间的相互引用
+ */
+export class RelationshipGraphView extends ItemView {
+  plugin: ChineseWriterPlugin;
+  private builder: SettingRelationBuilder;
+  private currentSettingFolder: string | null = null;
+  private lastObservedActiveFilePath: string | null = null;
+  private graph: SettingRelationGraph | null = null;
+  private h1Filter = ALL_OPTION;
+  private fileFilter = ALL_OPTION;
+  private nodes: GraphNode[] = [];
+  private edges: GraphEdge[] = [];
+  private canvasEl: HTMLCanvasElement | null = null;
+  private canvasWrapEl: HTMLElement | null = null;
+  private resizeObserver: ResizeObserver | null = null;
+  private animationFrameId: number | null = null;
+  private alpha = 0;
+  private offsetX = 0;
+  private offsetY = 0;
+  private scale = 1;
+  private hoverNode: GraphNode | null = null;
+  private dragState: { startX: number; startY: number; originX: number; originY: number; moved: boolean } | null = null;
+  private refreshRunId = 0;
+
+  constructor(leaf: WorkspaceLeaf, plugin: ChineseWriterPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+    this.builder = new SettingRelationBuilder(plugin);
+  }
+
+  getViewType(): string {
+    return VIEW_TYPE_RELATIONSHIP_GRAPH;
+  }
+
+  getDisplayText(): string {
+    return "设定关系图";
+  }
+
+  getIcon(): string {
+    return "git-fork";
+  }
+
+  async onOpen(): Promise<void> {
+    await this.refresh();
+    this.lastObservedActiveFilePath = this.app.workspace.getActiveFile()?.path ?? null;
+
+    // 切换到其他小说库的文件时，跟随切换设定库
+    this.registerEvent(
+      this.app.workspace.on("active-leaf-change", async (leaf) => {
+        if (!(leaf?.view instanceof MarkdownView)) return;
+        const currentPath = leaf.view.file?.path ?? null;
+        if (currentPath === this.lastObservedActiveFilePath) return;
+        this.lastObservedActiveFilePath = currentPath;
+        const settingFolder = currentPath
+          ? this.plugin.highlightManager.getSettingFolderForFile(currentPath)
+          : null;
+        if (settingFolder && settingFolder !== this.currentSettingFolder) {
+          await this.refresh();
+        }
+      })
+    );
+  }
+
+  async onClose(): Promise<void> {
+    this.refreshRunId++;
+    this.stopSimulation();
+    this.resizeObserver?.disconnect();
+    this.resizeObserver = null;
+  }
+
+  /**
+   * 重新读取设定并重建关系图
+   */
+  async refresh(): Promise<void> {
+    const runId = ++this.refreshRunId;
+    const container = this.containerEl.children[1];
+    if (!container) return;
+
+    this.stopSimulation();
+    this.resizeObserver?.disconnect();
+    this.resizeObserver = null;
+    container.empty();
+    container.addClass("chinese-writer-view");
+
+    const activeFile = this.app.workspace.getActiveFile();
+    const settingFolder = activeFile
+      ? this.plugin.highlightManager.getSettingFolderForFile(activeFile.path)
+      : null;
+    this.currentSettingFolder = settingFolder ?? this.currentSettingFolder;
+
+    const headerEl = container.createDiv({ cls: "chinese-writer-header" });
+    const titleEl = headerEl.createDiv({ cls: "chinese-writer-title" });
+    const iconEl = titleEl.createSpan({ cls: "chinese-writer-icon" });
+    setIcon(iconEl, "git-fork");
+    titleEl.createSpan({ text: "设定关系图", cls: "chinese-writer-folder-name" });
+
+    const refreshBtn = headerEl.createEl("button", { cls: "chinese-writer-toggle-btn" });
+    setIcon(refreshBtn, "refresh-cw");
+    refreshBtn.setAttribute("aria-label", "重新生成");
+    refreshBtn.addEventListener("click", () => {
+      void this.refresh();
+    });
+
+    if (!this.currentSettingFolder) {
+      container.createDiv({ text: "请先打开小说库中的文件", cls: "chinese-writer-empty" });
+      return;
+    }
+
+    const graph = await this.builder.build(this.currentSettingFolder);
+    if (runId !== this.refreshRunId) return;
+    this.graph = graph;
+
+    this.renderFilterBar(container as HTMLElement);
+    this.canvasWrapEl = container.createDiv({ cls: "cw-graph-canvas-wrap" });
+    this.canvasEl = this.canvasWrapEl.createEl("canvas", { cls: "cw-graph-canvas" });
+    this.bindCanvasEvents(this.canvasEl);
+
+    this.resizeObserver = new ResizeObserver(() => this.resizeCanvas());
+    this.resizeObserver.observe(this.canvasWrapEl);
+
+    this.rebuildNodes();
+  }
+
+  /**
+   * 关键字索引更新后调用：正文改动不影响设定间的引用，仅在节点或连线变化时重建，避免输入时反复重新布局
+   */
+  async refreshIfChanged(): Promise<void> {
+    const settingFolder = this.currentSettingFolder;
+    const currentGraph = this.graph;
+    if (!settingFolder || !currentGraph) {
+      await this.refresh();
+      return;
+    }
+
+    const runId = this.refreshRunId;
+    const graph = await this.builder.build(settingFolder);
+    if (runId !== this.refreshRunId) return;
+    if (this.getGraphSignature(graph) === this.getGraphSignature(currentGraph)) return;
+    await this.refresh();
+  }
+
+  private getGraphSignature(graph: SettingRelationGraph): string {
+    const nodeIds = graph.entries.map((entry) => entry.groupId).sort();
+    const edgeIds = graph.edges.map((edge) => `${edge.sourceId}->${edge.targetId}`).sort();
+    return `${nodeIds.join("\n")}|${edgeIds.join("\n")}`;
+  }
+
+  private renderFilterBar(container: HTMLElement): void {
+    const entries = this.graph?.entries ?? [];
+    const barEl = container.createDiv({ cls: "cw-graph-filter-bar" });
+
+    const fileNames = Array.from(new Set(entries.map((entry) => entry.fileName)));
+    const fileSelect = barEl.createEl("select", { cls: "dropdown cw-graph-filter-select" });
+    fileSelect.createEl("option", { text: "全部文件", value: ALL_OPTION });
+    for (const fileName of fileNames) {
+      fileSelect.createEl("option", { text: fileName, value: fileName });
+    }
+    if (!fileNames.includes(this.fileFilter)) this.fileFilter = ALL_OPTION;
+    fileSelect.value = this.fileFilter;
+
+    const h1Select = barEl.createEl("select", { cls: "dropdown cw-graph-filter-select" });
+    const renderH1Options = () => {
+      h1Select.empty();
+      h1Select.createEl("option", { text: "全部分类", value: ALL_OPTION });
+      const h1Titles = Array.from(
+        new Set(
+          entries
+            .filter((entry) => !this.fileFilter || entry.fileName === this.fileFilter)
+            .map((entry) => entry.h1Title)
+        )
+      );
+      for (const h1Title of h1Titles) {
+        h1Select.createEl("option", { text: h1Title, value: h1Title });
+      }
+      if (!h1Titles.includes(this.h1Filter)) this.h1Filter = ALL_OPTION;
+      h1Select.value = this.h1Filter;
+    };
+    renderH1Options();
+
+    fileSelect.addEventListener("change", () => {
+      this.fileFilter = fileSelect.value;
+      renderH1Options();
+      this.rebuildNodes();
+    });
+    h1Select.addEventListener("change", () => {
+      this.h1Filter = h1Select.value;
+      this.rebuildNodes();
+    });
+  }
+
+  /**
+   * 按筛选条件生成节点与连线，并重新开始布局
+   */
+  private rebuildNodes(): void {
+    const graph = this.graph;
+    if (!graph) return;
+
+    const colorByH1 = new Map<string, string>();
+    for (const entry of graph.entries) {
+      if (!colorByH1.has(entry.h1Title)) {
+        colorByH1.set(entry.h1Title, NODE_COLORS[colorByH1.size % NODE_COLORS.length] ?? "#4A86E9");
+      }
+    }
+
+    const previousById = new Map(this.nodes.map((node) => [node.entry.groupId, node]));
+    const nodeById = new Map<string, GraphNode>();
+    let hasNewNode = false;
+    const visibleEntries = graph.entries.filter((entry) =>
+      (!this.fileFilter || entry.fileName === this.fileFilter) &&
+      (!this.h1Filter || entry.h1Title === this.h1Filter)
+    );
+    visibleEntries.forEach((entry, index) => {
+      const previous = previousById.get(entry.groupId);
+      if (!previous) hasNewNode = true;
+      // 初始位置按螺旋分布，避免所有节点重叠在一点
+      const angle = index * 2.399963;
+      const radius = 12 * Math.sqrt(index + 1);
+      nodeById.set(entry.groupId, {
+        entry,
+        x: previous?.x ?? Math.cos(angle) * radius,
+        y: previous?.y ?? Math.sin(angle) * radius,
+        vx: 0,
+        vy: 0,
+        degree: 0,
+        color: colorByH1.get(entry.h1Title) ?? "#4A86E9",
+      });
+    });
+
+    this.edges = [];
+    for (const edge of graph.edges) {
+      const source = nodeById.get(edge.sourceId);
+      const target = nodeById.get(edge.targetId);
+      if (!source || !target) continue;
+      source.degree++;
+      target.degree++;
+      this.edges.push({ source, target, weight: edge.weight });
+    }
+
+    this.nodes = Array.from(nodeById.values());
+    this.hoverNode = null;
+    // 布局未变化时只做轻微调整，避免设定修改后整张图重新散开
+    this.startSimulation(hasNewNode ? 1 : 0.3);
+  }
+
+  private startSimulation(alpha: number): void {
+    this.alpha = alpha;
+    if (this.animationFrameId !== null) return;
+    const step = () => {
+      this.tick();
+      this.draw();
+      if (this.alpha > 0.02) {
+        this.animationFrameId = window.requestAnimationFrame(step);
+      } else {
+        this.animationFrameId = null;
+      }
+    };
+    this.animationFrameId = window.requestAnimationFrame(step);
+  }
+
+  private stopSimulation(): void {
+    if (this.animationFrameId !== null) {
+      window.cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
+    }
+  }
+
+  private tick(): void {
+    const nodes = this.nodes;
+    const repulsion = 900;
+    const springLength = 70;
+    const springStrength = 0.04;
+    const gravity = 0.012;
+
+    for (let i = 0; i < nodes.length; i++) {
+      const a = nodes[i]!;
+      for (let j = i + 1; j < nodes.length; j++) {
+        const b = nodes[j]!;
+        let dx = a.x - b.x;
+        let dy = a.y - b.y;
+        let distSq = dx * dx + dy * dy;
+        if (distSq < 0.01) {
+          dx = Math.random() - 0.5;
+          dy = Math.random() - 0.5;
+          distSq = dx * dx + dy * dy;
+        }
+        const force = (repulsion / distSq) * this.alpha;
+        const dist = Math.sqrt(distSq);
+        const fx = (dx / dist) * force;
+        const fy = (dy / dist) * force;
+        a.vx += fx;
+        a.vy += fy;
+        b.vx -= fx;
+        b.vy -= fy;
+      }
+    }
+
+    for (const edge of this.edges) {
+      const dx = edge.target.x - edge.source.x;
+      const dy = edge.target.y - edge.source.y;
+      const dist = Math.max(1, Math.sqrt(dx * dx + dy * dy));
+      const force = (dist - springLength) * springStrength * this.alpha;
+      const fx = (dx / dist) * force;
+      const fy = (dy / dist) * force;
+      edge.source.vx += fx;
+      edge.source.vy += fy;
+      edge.target.vx -= fx;
+      edge.target.vy -= fy;
+    }
+
+    for (const node of nodes) {
+      node.vx -= node.x * gravity * this.alpha;
+      node.vy -= node.y * gravity * this.alpha;
+      node.vx *= 0.82;
+      node.vy *= 0.82;
+      node.x += node.vx;
+      node.y += node.vy;
+    }
+
+    this.alpha *= 0.985;
+  }
+
+  private resizeCanvas(): void {
+    const canvas = this.canvasEl;
+    const wrap = this.canvasWrapEl;
+    if (!canvas || !wrap) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.max(1, Math.floor(wrap.clientWidth * ratio));
+    canvas.height = Math.max(1, Math.floor(wrap.clientHeight * ratio));
+    canvas.style.width = `${wrap.clientWidth}px`;
+    canvas.style.height = `${wrap.clientHeight}px`;
+    this.draw();
+  }
+
+  private draw(): void {
+    const canvas = this.canvasEl;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    const styles = getComputedStyle(this.containerEl);
+    const lineColor = styles.getPropertyValue("--background-modifier-border").trim() || "#ccc";
+    const textColor = styles.getPropertyValue("--text-muted").trim() || "#666";
+    const accentColor = styles.getPropertyValue("--interactive-accent").trim() || "#4A86E9";
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.setTransform(
+      ratio * this.scale,
+      0,
+      0,
+      ratio * this.scale,
+      ratio * (canvas.width / ratio / 2 + this.offsetX),
+      ratio * (canvas.height / ratio / 2 + this.offsetY)
+    );
+
+    const hover = this.hoverNode;
+    for (const edge of this.edges) {
+      const related = hover && (edge.source === hover || edge.target === hover);
+      ctx.strokeStyle = related ? accentColor : lineColor;
+      ctx.lineWidth = Math.min(4, 0.8 + edge.weight * 0.4) / this.scale;
+      ctx.beginPath();
+      ctx.moveTo(edge.source.x, edge.source.y);
+      ctx.lineTo(edge.target.x, edge.target.y);
+      ctx.stroke();
+    }
+
+    ctx.font = `${12 / this.scale}px var(--font-interface)`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "top";
+    for (const node of this.nodes) {
+      const radius = this.getNodeRadius(node);
+      const isH3 = node.entry.groupId.startsWith("h3::");
+      ctx.beginPath();
+      ctx.arc(node.x, node.y, radius, 0, Math.PI * 2);
+      if (isH3) {
+        ctx.lineWidth = 2 / this.scale;
+        ctx.strokeStyle = node.color;
+        ctx.stroke();
+      } else {
+        ctx.fillStyle = node.color;
+        ctx.fill();
+      }
+      if (node === hover) {
+        ctx.lineWidth = 2 / this.scale;
+        ctx.strokeStyle = accentColor;
+        ctx.stroke();
+      }
+      ctx.fillStyle = textColor;
+      ctx.fillText(node.entry.keyword, node.x, node.y + radius + 2 / this.scale);
+    }
+  }
+
+  private getNodeRadius(node: GraphNode): number {
+    return 4 + Math.min(10, Math.sqrt(node.degree) * 2);
+  }
+
+  private toGraphPoint(event: MouseEvent): { x: number; y: number } | null {
+    const canvas = this.canvasEl;
+    if (!canvas) return null;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (event.clientX - rect.left - rect.width / 2 - this.offsetX) / this.scale,
+      y: (event.clientY - rect.top - rect.height / 2 - this.offsetY) / this.scale,
+    };
+  }
+
+  private findNodeAt(event: MouseEvent): GraphNode | null {
+    const point = this.toGraphPoint(event);
+    if (!point) return null;
+    let best: GraphNode | null = null;
+    let bestDistSq = Infinity;
+    for (const node of this.nodes) {
+      const radius = this.getNodeRadius(node) + 3 / this.scale;
+      const dx = node.x - point.x;
+      const dy = node.y - point.y;
+      const distSq = dx * dx + dy * dy;
+      if (distSq <= radius * radius && distSq < bestDistSq) {
+        best = node;
+        bestDistSq = distSq;
+      }
+    }
+    return best;
+  }
+
+  private bindCanvasEvents(canvas: HTMLCanvasElement): void {
+    canvas.addEventListener("mousedown", (event) => {
+      this.dragState = {
+        startX: event.clientX,
+        startY: event.clientY,
+        originX: this.offsetX,
+        originY: this.offsetY,
+        moved: false,
+      };
+    });
+
+    canvas.addEventListener("mousemove", (event) => {
+      const drag = this.dragState;
+      if (drag) {
+        const dx = event.clientX - drag.startX;
+        const dy = event.clientY - drag.startY;
+        if (Math.abs(dx) + Math.abs(dy) > 3) drag.moved = true;
+        this.offsetX = drag.originX + dx;
+        this.offsetY = drag.originY + dy;
+        this.draw();
+        return;
+      }
+
+      const node = this.findNodeAt(event);
+      if (node !== this.hoverNode) {
+        this.hoverNode = node;
+        canvas.toggleClass("is-pointer", !!node);
+        canvas.setAttribute("title", node ? `${node.entry.fileName}/${node.entry.h1Title}/${node.entry.keyword}` : "");
+        this.draw();
+      }
+    });
+
+    canvas.addEventListener("mouseup", (event) => {
+      const drag = this.dragState;
+      this.dragState = null;
+      if (drag?.moved) return;
+      const node = this.findNodeAt(event);
+      if (node) {
+        void this.plugin.highlightManager.openKeywordSource(node.entry);
+      }
+    });
+
+    canvas.addEventListener("mouseleave", () => {
+      this.dragState = null;
+      if (this.hoverNode) {
+        this.hoverNode = null;
+        this.draw();
+      }
+    });
+
+    canvas.addEventListener("wheel", (event) => {
+      event.preventDefault();
+      const factor = event.deltaY < 0 ? 1.1 : 1 / 1.1;
+      this.scale = Math.min(4, Math.max(0.2, this.scale * factor));
+      this.draw();
+    }, { passive: false });
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * 结构化字段类型
+ */
+export type SettingFieldType = "text" | "number" | "list";
+
+/**
+ * 字段定义，如【年龄】（数字）
+ */
+export interface SettingFieldDefinition {
+  name: string;
+  type: SettingFieldType;
+}
+
+/**
+ * 字段方案：作用范围 + 字段列表
+ * scope 为 "*" 表示全部设定；"#分类" 表示某个 H1 分类；其他值表示设定文件名（不含 .md）
+ */
+export interface SettingFieldSchema {
+  scope: string;
+  fields: SettingFieldDefinition[];
+}
+
+/**
+ * 解析后的字段值
+ */
+export type SettingFieldValue =
+  | { name: string; type: "text"; raw: string; value: string }
+  | { name: string; type: "number"; raw: string; value: number | null }
+  | { name: string; type: "list"; raw: string; value: string[] };
+
+const TYPE_LABELS: Record<SettingFieldType, string> = {
+  text: "文本",
+  number: "数字",
+  list: "列表",
+};
+
+/** 内置标记，不参与字段方案 */
+const BUILTIN_FIELD_NAMES = ["别名", "状态", "排除", "语境", "整词"];
+
+/**
+ * 设定结构化字段解析
+ */
+export class SettingFieldCodec {
+  /**
+   * 解析字段方案文本，每行形如：人物 = 年龄:数字，门派，技能:列表
+   */
+  parseSchemaText(text: string): SettingFieldSchema[] {
+    const schemas: SettingFieldSchema[] = [];
+    for (const rawLine of text.split(/\r?\n/)) {
+      const line = rawLine.trim();
+      if (!line) continue;
+
+      const separatorIndex = line.search(/[=＝]/);
+      if (separatorIndex === -1) continue;
+
+      const scope = this.normalizeScope(line.slice(0, separatorIndex));
+      if (!scope) continue;
+
+      const fields: SettingFieldDefinition[] = [];
+      for (const part of line.slice(separatorIndex + 1).split(/[，,、]/)) {
+        const field = this.parseFieldDefinition(part);
+        if (field && !fields.some((item) => item.name === field.name)) {
+          fields.push(field);
+        }
+      }
+      if (fields.length > 0) {
+        schemas.push({ scope, fields });
+      }
+    }
+    return schemas;
+  }
+
+  formatSchemaText(schemas: SettingFieldSchema[]): string {
+    return schemas
+      .map((schema) => {
+        const fields = schema.fields
+          .map((field) => (field.type === "text" ? field.name : `${field.name}:${TYPE_LABELS[field.type]}`))
+          .join("，");
+        return `${schema.scope} = ${fields}`;
+      })
+      .join("\n");
+  }
+
+  /**
+   * 取出某个设定文件/分类适用的字段；范围越具体越优先（全部 < 文件 < 分类）
+   */
+  resolveDefinitions(schemas: SettingFieldSchema[], fileName: string, h1Title: string): SettingFieldDefinition[] {
+    const ordered = [
+      ...schemas.filter((schema) => schema.scope === "*"),
+      ...schemas.filter((schema) => schema.scope === fileName),
+      ...schemas.filter((schema) => schema.scope === `#${h1Title}`),
+    ];
+
+    const byName = new Map<string, SettingFieldDefinition>();
+    for (const schema of ordered) {
+      for (const field of schema.fields) {
+        byName.set(field.name, field);
+      }
+    }
+    return Array.from(byName.values());
+  }
+
+  /**
+   * 从设定内容中提取字段值（同名字段以第一次出现为准）
+   */
+  extractFields(lines: string[], definitions: SettingFieldDefinition[]): SettingFieldValue[] {
+    const values: SettingFieldValue[] = [];
+    for (const definition of definitions) {
+      const tag = `【${definition.name}】`;
+      for (const line of lines) {
+        const tagIndex = line.indexOf(tag);
+        if (tagIndex === -1) continue;
+        const raw = line.slice(tagIndex + tag.length).trim();
+        if (!raw) continue;
+        values.push(this.toValue(definition, raw));
+        break;
+      }
+    }
+    return values;
+  }
+
+  /**
+   * 是否为字段行（预览正文中不再重复显示）
+   */
+  isFieldLine(line: string, definitions: SettingFieldDefinition[]): boolean {
+    return definitions.some((definition) => line.includes(`【${definition.name}】`));
+  }
+
+  formatValue(value: SettingFieldValue): string {
+    if (value.type === "list") return value.value.join("、");
+    return value.raw;
+  }
+
+  /**
+   * 比较两个字段值，缺失值排在最后
+   */
+  compareValues(a: SettingFieldValue | undefined, b: SettingFieldValue | undefined): number {
+    if (!a && !b) return 0;
+    if (!a) return 1;
+    if (!b) return -1;
+    if (a.type === "number" && b.type === "number" && a.value !== null && b.value !== null) {
+      return a.value - b.value;
+    }
+    return this.formatValue(a).localeCompare(this.formatValue(b), "zh-Hans-CN");
+  }
+
+  /**
+   * 判断字段值是否满足筛选条件
+   * 数字字段支持 >、>=、<、<=、= 比较，其他情况按包含匹配
+   */
+  matchesFilter(value: SettingFieldValue | undefined, expression: string): boolean {
+    const trimmed = expression.trim();
+    if (!trimmed) return true;
+    if (!value) return false;
+
+    const comparison = /^(>=|<=|>|<|=)\s*(-?\d+(?:\.\d+)?)$/.exec(trimmed);
+    if (comparison && value.type === "number") {
+      if (value.value === null) return false;
+      const target = Number.parseFloat(comparison[2] ?? "");
+      switch (comparison[1]) {
+        case ">": return value.value > target;
+        case ">=": return value.value >= target;
+        case "<": return value.value < target;
+        case "<=": return value.value <= target;
+        default: return value.value === target;
+      }
+    }
+
+    const query = trimmed.replace(/^=\s*/, "").toLowerCase();
+    if (value.type === "list") {
+      return value.value.some((item) => item.toLowerCase().includes(query));
+    }
+    return value.raw.toLowerCase().includes(query);
+  }
+
+  private toValue(definition: SettingFieldDefinition, raw: string): SettingFieldValue {
+    if (definition.type === "number") {
+      const numberMatch = /-?\d+(?:\.\d+)?/.exec(raw);
+      const parsed = numberMatch ? Number.parseFloat(numberMatch[0]) : Number.NaN;
+      return { name: definition.name, type: "number", raw, value: Number.isFinite(parsed) ? parsed : null };
+    }
+    if (definition.type === "list") {
+      const items = raw
+        .split(/[，,、]/)
+        .map((item) => item.trim())
+        .filter((item) => item.length > 0);
+      return { name: definition.name, type: "list", raw, value: items };
+    }
+    return { name: definition.name, type: "text", raw, value: raw };
+  }
+
+  private normalizeScope(rawScope: string): string {
+    const scope = rawScope.trim();
+    if (scope.startsWith("#")) {
+      const h1Title = scope.replace(/^#+/, "").trim();
+      return h1Title ? `#${h1Title}` : "";
+    }
+    return scope.replace(/\.md$/i, "").trim();
+  }
+
+  private parseFieldDefinition(rawField: string): SettingFieldDefinition | null {
+    const [rawName, rawType] = rawField.split(/[:：]/);
+    const name = (rawName ?? "").replace(/[【】]/g, "").trim();
+    if (!name || BUILTIN_FIELD_NAMES.includes(name)) return null;
+
+    const typeLabel = (rawType ?? "").trim();
+    const type = (Object.keys(TYPE_LABELS) as SettingFieldType[]).find(
+      (key) => TYPE_LABELS[key] === typeLabel || key === typeLabel.toLowerCase()
+    );
+    return { name, type: type ?? "text" };
+  }
+}
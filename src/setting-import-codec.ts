@@ -0,0 +1,446 @@
+/**
+ * 表格中可映射的设定字段
+ */
+export type SettingImportTarget = "category" | "name" | "aliases" | "status" | "body";
+
+/**
+ * 表格列 -> 设定字段的映射（null 表示不导入该字段）
+ */
+export type SettingImportColumnMapping = Record<SettingImportTarget, string | null>;
+
+/**
+ * 从 CSV / JSON 读出的表格
+ */
+export interface SettingImportTable {
+  columns: string[];
+  rows: Array<Record<string, string>>;
+}
+
+/**
+ * 一条待导入的设定
+ */
+export interface SettingImportEntry {
+  category: string;
+  name: string;
+  aliases: string[];
+  status: string;
+  body: string[];
+}
+
+/**
+ * 预览中的一项：新增、更新或跳过
+ */
+export interface SettingImportPlanItem {
+  action: "add" | "update" | "skip";
+  name: string;
+  category: string;
+  /** 跳过原因 */
+  reason?: string;
+  /** 更新时被移除的行 */
+  removedLines: string[];
+  /** 新增或更新时写入的行 */
+  addedLines: string[];
+}
+
+export interface SettingImportResult {
+  items: SettingImportPlanItem[];
+  /** 合并后的文件内容 */
+  content: string;
+}
+
+interface H2Block {
+  title: string;
+  /** 含 H2 标题行 */
+  lines: string[];
+}
+
+interface H1Block {
+  title: string;
+  /** H1 标题行及其下、第一个 H2 之前的行 */
+  headLines: string[];
+  h2List: H2Block[];
+}
+
+export const SETTING_IMPORT_TARGET_LABELS: Record<SettingImportTarget, string> = {
+  category: "分类（H1）",
+  name: "设定名（H2）",
+  aliases: "【别名】",
+  status: "【状态】",
+  body: "正文",
+};
+
+const TARGET_COLUMN_NAMES: Record<SettingImportTarget, string[]> = {
+  category: ["分类", "类别", "h1", "category", "type", "group"],
+  name: ["设定名", "名称", "名字", "姓名", "设定", "h2", "name", "title"],
+  aliases: ["别名", "aliases", "alias", "nickname"],
+  status: ["状态", "status", "state"],
+  body: ["正文", "内容", "描述", "简介", "说明", "body", "content", "description", "desc"],
+};
+
+const ALIAS_TAG = "【别名】";
+const STATUS_TAG = "【状态】";
+const DEFAULT_CATEGORY = "未分类";
+
+/**
+ * 设定表格导入：解析 CSV / JSON，并按 FileParser 约定的格式合并进设定文件
+ */
+export class SettingImportCodec {
+  parseTable(text: string, extension: string): SettingImportTable {
+    const source = text.replace(/^\uFEFF/, "");
+    return extension.toLowerCase() === "json" ? this.parseJson(source) : this.parseCsv(source);
+  }
+
+  /**
+   * 按列名猜测映射关系
+   */
+  guessColumnMapping(columns: string[]): SettingImportColumnMapping {
+    const mapping: SettingImportColumnMapping = {
+      category: null,
+      name: null,
+      aliases: null,
+      status: null,
+      body: null,
+    };
+    const used = new Set<string>();
+    for (const target of Object.keys(TARGET_COLUMN_NAMES) as SettingImportTarget[]) {
+      const column = columns.find((item) =>
+        !used.has(item) && TARGET_COLUMN_NAMES[target].includes(item.trim().toLowerCase())
+      );
+      if (column !== undefined) {
+        mapping[target] = column;
+        used.add(column);
+      }
+    }
+    if (mapping.name === null) {
+      mapping.name = columns.find((column) => !used.has(column)) ?? null;
+    }
+    return mapping;
+  }
+
+  toEntries(table: SettingImportTable, mapping: SettingImportColumnMapping): SettingImportEntry[] {
+    const read = (row: Record<string, string>, target: SettingImportTarget) => {
+      const column = mapping[target];
+      return column === null ? "" : (row[column] ?? "").trim();
+    };
+
+    return table.rows.map((row) => ({
+      category: read(row, "category").replace(/\s+/g, " "),
+      name: read(row, "name").replace(/\s+/g, " "),
+      aliases: read(row, "aliases")
+        .split(/[，,、;；]/)
+        .map((alias) => alias.trim())
+        .filter((alias) => alias.length > 0),
+      status: read(row, "status").replace(/\s+/g, " "),
+      body: read(row, "body")
+        .split(/\r?\n/)
+        .map((line) => line.trimEnd())
+        .filter((line) => line.trim().length > 0),
+    }));
+  }
+
+  /**
+   * 将条目合并进设定文件内容
+   * @param content 目标文件原内容（新文件传空字符串）
+   * @param existingElsewhere 设定库其他文件中已有的设定名 -> 所在文件名，这些条目会被跳过
+   */
+  merge(
+    content: string,
+    entries: SettingImportEntry[],
+    existingElsewhere: Map<string, string>
+  ): SettingImportResult {
+    const { preamble, h1List } = this.splitBlocks(content);
+    const items: SettingImportPlanItem[] = [];
+    const seenNames = new Set<string>();
+
+    for (const entry of entries) {
+      const category = entry.category || DEFAULT_CATEGORY;
+      const skip = (reason: string) => {
+        items.push({ action: "skip", name: entry.name, category, reason, removedLines: [], addedLines: [] });
+      };
+
+      if (!entry.name) {
+        skip("设定名为空");
+        continue;
+      }
+      if (seenNames.has(entry.name)) {
+        skip("导入数据中重复");
+        continue;
+      }
+      seenNames.add(entry.name);
+
+      const elsewhere = existingElsewhere.get(entry.name);
+      if (elsewhere !== undefined) {
+        skip(`已存在于“${elsewhere}”`);
+        continue;
+      }
+
+      const existing = this.findH2(h1List, entry.name);
+      if (existing) {
+        const mergedLines = this.mergeH2Lines(existing.h2.lines, entry);
+        const beforeSet = new Set(existing.h2.lines.map((line) => line.trim()));
+        const afterSet = new Set(mergedLines.map((line) => line.trim()));
+        const removedLines = existing.h2.lines.filter((line) => line.trim() && !afterSet.has(line.trim()));
+        const addedLines = mergedLines.filter((line) => line.trim() && !beforeSet.has(line.trim()));
+        if (removedLines.length === 0 && addedLines.length === 0) {
+          skip("内容无变化");
+          continue;
+        }
+        existing.h2.lines = mergedLines;
+        items.push({ action: "update", name: entry.name, category: existing.h1.title, removedLines, addedLines });
+        continue;
+      }
+
+      let h1 = h1List.find((item) => item.title === category);
+      if (!h1) {
+        const lastH1 = h1List[h1List.length - 1];
+        this.ensureTrailingBlank(lastH1?.h2List[lastH1.h2List.length - 1]?.lines ?? lastH1?.headLines ?? preamble);
+        h1 = { title: category, headLines: [`# ${category}`, ""], h2List: [] };
+        h1List.push(h1);
+      }
+      const lines = this.buildH2Lines(entry);
+      this.ensureTrailingBlank(h1.h2List[h1.h2List.length - 1]?.lines ?? h1.headLines);
+      h1.h2List.push({ title: entry.name, lines });
+      items.push({ action: "add", name: entry.name, category, removedLines: [], addedLines: lines.slice(1) });
+    }
+
+    const output = [...preamble];
+    for (const h1 of h1List) {
+      output.push(...h1.headLines);
+      for (const h2 of h1.h2List) {
+        output.push(...h2.lines);
+      }
+    }
+    const hasFinalNewline = !content || content.endsWith("\n");
+    return { items, content: `${output.join("\n")}${hasFinalNewline ? "\n" : ""}` };
+  }
+
+  /**
+   * 按 FileParser 的规则切分 H1 / H2：H2 只在 H1 之下才算数
+   */
+  private splitBlocks(content: string): { preamble: string[]; h1List: H1Block[] } {
+    const preamble: string[] = [];
+    const h1List: H1Block[] = [];
+    if (!content) return { preamble, h1List };
+
+    let currentH1: H1Block | null = null;
+    let currentH2: H2Block | null = null;
+    for (const line of content.replace(/\n$/, "").split("\n")) {
+      const trimmed = line.trim();
+      if (trimmed.startsWith("# ") && !trimmed.startsWith("## ")) {
+        currentH1 = { title: trimmed.substring(2).trim(), headLines: [line], h2List: [] };
+        currentH2 = null;
+        h1List.push(currentH1);
+      } else if (trimmed.startsWith("## ") && !trimmed.startsWith("### ") && currentH1) {
+        currentH2 = { title: trimmed.substring(3).trim(), lines: [line] };
+        currentH1.h2List.push(currentH2);
+      } else if (currentH2) {
+        currentH2.lines.push(line);
+      } else if (currentH1) {
+        currentH1.headLines.push(line);
+      } else {
+        preamble.push(line);
+      }
+    }
+    return { preamble, h1List };
+  }
+
+  private findH2(h1List: H1Block[], name: string): { h1: H1Block; h2: H2Block } | null {
+    for (const h1 of h1List) {
+      const h2 = h1.h2List.find((item) => item.title === name);
+      if (h2) return { h1, h2 };
+    }
+    return null;
+  }
+
+  private buildH2Lines(entry: SettingImportEntry): string[] {
+    const lines = [`## ${entry.name}`];
+    if (entry.aliases.length > 0) lines.push(`${ALIAS_TAG}${entry.aliases.join("，")}`);
+    if (entry.status) lines.push(`${STATUS_TAG}${entry.status}`);
+    lines.push(...entry.body);
+    return lines;
+  }
+
+  /**
+   * 合并到已有设定：别名取并集，状态不同则替换（有多条状态记录时追加），正文追加缺少的行
+   * H3 子设定及其内容保持不变
+   */
+  private mergeH2Lines(lines: string[], entry: SettingImportEntry): string[] {
+    const result = [...lines];
+    // H2 自身内容的结束位置（第一个 H3 之前）
+    const getOwnEnd = () => {
+      const h3Index = result.findIndex((line, index) => index > 0 && /^\s*###\s/.test(line));
+      return h3Index === -1 ? result.length : h3Index;
+    };
+    const findOwnLines = (tag: string) => {
+      const ownEnd = getOwnEnd();
+      return result
+        .map((line, index) => (index > 0 && index < ownEnd && line.includes(tag) ? index : -1))
+        .filter((index) => index !== -1);
+    };
+    let insertAt = 1;
+
+    if (entry.aliases.length > 0) {
+      const aliasIndex = findOwnLines(ALIAS_TAG)[0];
+      if (aliasIndex === undefined) {
+        result.splice(insertAt, 0, `${ALIAS_TAG}${entry.aliases.join("，")}`);
+        insertAt++;
+      } else {
+        const line = result[aliasIndex] ?? "";
+        const tagIndex = line.indexOf(ALIAS_TAG);
+        const current = line
+          .slice(tagIndex + ALIAS_TAG.length)
+          .split(/[，,]/)
+          .map((alias) => alias.trim())
+          .filter((alias) => alias.length > 0);
+        const merged = Array.from(new Set([...current, ...entry.aliases]));
+        result[aliasIndex] = `${line.slice(0, tagIndex)}${ALIAS_TAG}${merged.join("，")}`;
+        insertAt = aliasIndex + 1;
+      }
+    }
+
+    if (entry.status) {
+      const statusIndexes = findOwnLines(STATUS_TAG);
+      const hasSameStatus = statusIndexes.some((index) => {
+        const line = result[index] ?? "";
+        return line.slice(line.indexOf(STATUS_TAG) + STATUS_TAG.length).trim() === entry.status;
+      });
+      const onlyStatusIndex = statusIndexes.length === 1 ? statusIndexes[0] : undefined;
+      if (hasSameStatus) {
+        // 已有相同状态，无需改动
+      } else if (onlyStatusIndex !== undefined) {
+        const line = result[onlyStatusIndex] ?? "";
+        result[onlyStatusIndex] = `${line.slice(0, line.indexOf(STATUS_TAG))}${STATUS_TAG}${entry.status}`;
+      } else {
+        const lastStatusIndex = statusIndexes[statusIndexes.length - 1];
+        result.splice(lastStatusIndex === undefined ? insertAt : lastStatusIndex + 1, 0, `${STATUS_TAG}${entry.status}`);
+      }
+    }
+
+    const existingLines = new Set(result.map((line) => this.normalizeBodyLine(line)));
+    const missingBody = entry.body.filter((line) => !existingLines.has(this.normalizeBodyLine(line)));
+    if (missingBody.length > 0) {
+      let bodyEnd = getOwnEnd();
+      while (bodyEnd > 1 && result[bodyEnd - 1]?.trim() === "") {
+        bodyEnd--;
+      }
+      result.splice(bodyEnd, 0, ...missingBody);
+    }
+    return result;
+  }
+
+  /**
+   * 比较正文行时忽略列表符号，避免“- 华山派大弟子”与“华山派大弟子”重复
+   */
+  private normalizeBodyLine(line: string): string {
+    return line.trim().replace(/^[-*+]\s+/, "");
+  }
+
+  private ensureTrailingBlank(lines: string[]): void {
+    if (lines.length > 0 && lines[lines.length - 1]?.trim() !== "") {
+      lines.push("");
+    }
+  }
+
+  private parseJson(text: string): SettingImportTable {
+    const data = JSON.parse(text) as unknown;
+    const list = Array.isArray(data)
+      ? data
+      : this.findFirstArray(data);
+    const columns: string[] = [];
+    const rows: Array<Record<string, string>> = [];
+
+    for (const item of list) {
+      if (!item || typeof item !== "object" || Array.isArray(item)) continue;
+      const row: Record<string, string> = {};
+      for (const [key, value] of Object.entries(item as Record<string, unknown>)) {
+        if (!columns.includes(key)) columns.push(key);
+        row[key] = this.stringifyJsonValue(value);
+      }
+      rows.push(row);
+    }
+    return { columns, rows };
+  }
+
+  /**
+   * 兼容 { "characters": [...] } 这类外层包了一层对象的 JSON
+   */
+  private findFirstArray(data: unknown): unknown[] {
+    if (!data || typeof data !== "object") return [];
+    for (const value of Object.values(data as Record<string, unknown>)) {
+      if (Array.isArray(value)) return value;
+    }
+    return [];
+  }
+
+  private stringifyJsonValue(value: unknown): string {
+    if (value === null || value === undefined) return "";
+    if (Array.isArray(value)) {
+      return value.map((item) => this.stringifyJsonValue(item)).filter((item) => item).join("，");
+    }
+    if (typeof value === "object") return JSON.stringify(value);
+    if (typeof value === "string") return value;
+    if (typeof value === "number" || typeof value === "boolean") return String(value);
+    return "";
+  }
+
+  /**
+   * 解析 CSV：支持双引号包裹、字段内换行与转义引号；首行为表头
+   * 首行不含逗号但含制表符时按 TSV 处理（从表格软件直接复制的内容）
+   */
+  private parseCsv(text: string): SettingImportTable {
+    const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+    const delimiter = !firstLine.includes(",") && firstLine.includes("\t") ? "\t" : ",";
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = "";
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (inQuotes) {
+        if (char === "\"") {
+          if (text[i + 1] === "\"") {
+            field += "\"";
+            i++;
+          } else {
+            inQuotes = false;
+          }
+        } else {
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === "\"" && field.length === 0) {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        record.push(field);
+        field = "";
+      } else if (char === "\n" || char === "\r") {
+        if (char === "\r" && text[i + 1] === "\n") i++;
+        record.push(field);
+        records.push(record);
+        record = [];
+        field = "";
+      } else {
+        field += char;
+      }
+    }
+    if (field.length > 0 || record.length > 0) {
+      record.push(field);
+      records.push(record);
+    }
+
+    const nonEmpty = records.filter((item) => item.some((value) => value.trim().length > 0));
+    const header = nonEmpty.shift() ?? [];
+    const columns = header.map((column, index) => column.trim() || `第${index + 1}列`);
+    const rows = nonEmpty.map((values) => {
+      const row: Record<string, string> = {};
+      columns.forEach((column, index) => {
+        row[column] = values[index] ?? "";
+      });
+      return row;
+    });
+    return { columns, rows };
+  }
+}
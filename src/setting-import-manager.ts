@@ -0,0 +1,192 @@
+import { Notice, TFile, normalizePath } from "obsidian";
+import type ChineseWriterPlugin from "./main";
+import { TextInputModal, SettingImportPreviewModal } from "./modals";
+import {
+  SettingImportCodec,
+  type SettingImportColumnMapping,
+  type SettingImportTable,
+} from "./setting-import-codec";
+
+/**
+ * 设定表格导入管理器：CSV / JSON -> 设定文件
+ */
+export class SettingImportManager {
+  private plugin: ChineseWriterPlugin;
+  private codec = new SettingImportCodec();
+
+  constructor(plugin: ChineseWriterPlugin) {
+    this.plugin = plugin;
+  }
+
+  async startImport(): Promise<void> {
+    const settingFolder = this.resolveSettingFolder();
+    if (!settingFolder) {
+      new Notice("请先打开小说库或设定库中的文件");
+      return;
+    }
+
+    const sourceFiles = this.plugin.app.vault
+      .getFiles()
+      .filter((file) => ["csv", "tsv", "json"].includes(file.extension.toLowerCase()));
+    if (sourceFiles.length === 0) {
+      new Notice("仓库中没有可导入的 CSV 或 JSON 文件");
+      return;
+    }
+
+    new TextInputModal(
+      this.plugin.app,
+      "从表格导入设定 - 步骤 1/2",
+      "请输入要导入的 CSV 或 JSON 文件路径",
+      "",
+      (sourcePath) => {
+        const sourceFile = this.plugin.app.vault.getAbstractFileByPath(normalizePath(sourcePath.trim()));
+        if (!(sourceFile instanceof TFile)) {
+          new Notice(`未找到文件：${sourcePath.trim()}`);
+          return;
+        }
+        this.promptTargetFile(settingFolder, sourceFile);
+      },
+      sourceFiles.map((file) => file.path)
+    ).open();
+  }
+
+  private promptTargetFile(settingFolder: string, sourceFile: TFile): void {
+    const libraryFiles = this.plugin.highlightManager.getSettingLibraryFiles(settingFolder);
+    new TextInputModal(
+      this.plugin.app,
+      "从表格导入设定 - 步骤 2/2",
+      "请输入写入的设定文件（可填已有文件，或新文件名）",
+      sourceFile.basename,
+      (targetName) => {
+        const targetPath = this.resolveTargetPath(settingFolder, targetName);
+        if (!targetPath) return;
+        void this.openPreview(settingFolder, sourceFile, targetPath);
+      },
+      libraryFiles.map((file) => file.path)
+    ).open();
+  }
+
+  private async openPreview(settingFolder: string, sourceFile: TFile, targetPath: string): Promise<void> {
+    let table: SettingImportTable;
+    try {
+      table = this.codec.parseTable(await this.plugin.app.vault.read(sourceFile), sourceFile.extension);
+    } catch (error) {
+      console.error("Failed to parse import file:", error);
+      new Notice(`无法解析：${sourceFile.name}`);
+      return;
+    }
+    if (table.rows.length === 0) {
+      new Notice(`${sourceFile.name} 中没有可导入的数据`);
+      return;
+    }
+
+    const targetContent = await this.readTarget(targetPath);
+    const existingElsewhere = await this.collectExistingElsewhere(settingFolder, targetPath);
+    const targetName = targetPath.split("/").pop()?.replace(/\.md$/, "") ?? targetPath;
+
+    new SettingImportPreviewModal(
+      this.plugin.app,
+      `导入 ${sourceFile.name} → ${targetName}`,
+      table.columns,
+      this.codec.guessColumnMapping(table.columns),
+      (mapping) => this.codec.merge(targetContent, this.codec.toEntries(table, mapping), existingElsewhere).items,
+      (mapping) => {
+        void this.applyImport(settingFolder, table, mapping, targetPath);
+      }
+    ).open();
+  }
+
+  private async applyImport(
+    settingFolder: string,
+    table: SettingImportTable,
+    mapping: SettingImportColumnMapping,
+    targetPath: string
+  ): Promise<void> {
+    try {
+      // 重新读取，避免覆盖预览期间对目标文件的改动
+      const targetContent = await this.readTarget(targetPath);
+      const existingElsewhere = await this.collectExistingElsewhere(settingFolder, targetPath);
+      const result = this.codec.merge(targetContent, this.codec.toEntries(table, mapping), existingElsewhere);
+      const addedCount = result.items.filter((item) => item.action === "add").length;
+      const updatedCount = result.items.filter((item) => item.action === "update").length;
+      if (addedCount + updatedCount === 0) {
+        new Notice("没有需要导入的设定");
+        return;
+      }
+
+      const existing = this.plugin.app.vault.getAbstractFileByPath(targetPath);
+      if (existing instanceof TFile) {
+        await this.plugin.app.vault.modify(existing, result.content);
+      } else {
+        await this.ensureParentFolder(targetPath);
+        await this.plugin.app.vault.create(targetPath, result.content);
+      }
+
+      this.plugin.highlightManager.clearCache();
+      await this.plugin.refreshView();
+      new Notice(`导入完成：新增 ${addedCount} 条，更新 ${updatedCount} 条`);
+    } catch (error) {
+      console.error("Failed to import settings:", error);
+      new Notice("导入设定失败，请重试");
+    }
+  }
+
+  /**
+   * 当前文件所属的设定库：小说库文件取对应设定库；设定库文件取其本书设定库
+   */
+  private resolveSettingFolder(): string | null {
+    const mappings = this.plugin.settings.folderMappings.filter((mapping) => mapping.settingFolder);
+    const activeFile = this.plugin.app.workspace.getActiveFile();
+    const contextFolder = activeFile
+      ? this.plugin.highlightManager.getSettingFolderForContextFile(activeFile.path)
+      : null;
+    if (contextFolder) return contextFolder;
+    return mappings.length === 1 ? (mappings[0]?.settingFolder ?? null) : null;
+  }
+
+  private resolveTargetPath(settingFolder: string, input: string): string | null {
+    const trimmed = input.trim().replace(/\\/g, "/");
+    if (!trimmed) return null;
+    const withExtension = trimmed.endsWith(".md") ? trimmed : `${trimmed}.md`;
+    const path = normalizePath(trimmed.includes("/") ? withExtension : `${settingFolder}/${withExtension}`);
+    if (!this.plugin.highlightManager.isFileInSettingLibraries(path, settingFolder)) {
+      new Notice("设定文件须位于本书设定库或共享设定库中");
+      return null;
+    }
+    return path;
+  }
+
+  private async readTarget(targetPath: string): Promise<string> {
+    const file = this.plugin.app.vault.getAbstractFileByPath(targetPath);
+    return file instanceof TFile ? await this.plugin.app.vault.read(file) : "";
+  }
+
+  /**
+   * 设定库其他文件中已有的设定名，导入时跳过，避免同名设定分散在多个文件里
+   */
+  private async collectExistingElsewhere(settingFolder: string, targetPath: string): Promise<Map<string, string>> {
+    const existing = new Map<string, string>();
+    const files = this.plugin.highlightManager
+      .getSettingLibraryFiles(settingFolder)
+      .filter((file) => file.path !== targetPath);
+    const parsedList = await Promise.all(files.map((file) => this.plugin.parser.parseFile(file)));
+    for (const parseResult of parsedList) {
+      if (!parseResult) continue;
+      for (const h1 of parseResult.h1List) {
+        for (const h2 of h1.h2List) {
+          const name = h2.text.trim();
+          if (name && !existing.has(name)) {
+            existing.set(name, parseResult.fileName);
+          }
+        }
+      }
+    }
+    return existing;
+  }
+
+  private async ensureParentFolder(filePath: string): Promise<void> {
+    const parentPath = filePath.split("/").slice(0, -1).join("/");
+    if (!parentPath || this.plugin.app.vault.getAbstractFileByPath(parentPath)) return;
+    await this.plugin.app.vault.createFolder(parentPath);
+  }
+}
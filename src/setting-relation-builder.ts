@@ -0,0 +1,66 @@
+import type ChineseWriterPlugin from "./main";
+import type { KeywordPreviewData } from "./highlight-manager";
+
+/**
+ * 设定之间的引用关系（source 的内容中提及了 target）
+ */
+export interface SettingRelationEdge {
+  sourceId: string;
+  targetId: string;
+  /** 提及次数 */
+  weight: number;
+}
+
+export interface SettingRelationGraph {
+  entries: KeywordPreviewData[];
+  edges: SettingRelationEdge[];
+}
+
+/**
+ * 设定关系构建器
+ * 在每个设定的正文、别名以外的字段中查找其他设定的关键字，生成引用关系
+ */
+export class SettingRelationBuilder {
+  private plugin: ChineseWriterPlugin;
+
+  constructor(plugin: ChineseWriterPlugin) {
+    this.plugin = plugin;
+  }
+
+  async build(settingFolder: string): Promise<SettingRelationGraph> {
+    const highlightManager = this.plugin.highlightManager;
+    const keywords = await highlightManager.extractKeywordsFromSettingFolder(settingFolder);
+    const entries = highlightManager.getKeywordEntries(settingFolder);
+    const entryIds = new Set(entries.map((entry) => entry.groupId));
+
+    const edgeByKey = new Map<string, SettingRelationEdge>();
+    for (const entry of entries) {
+      const text = [
+        ...entry.fields.map((field) => field.raw),
+        ...entry.bodyLines,
+      ].join("\n");
+      if (!text) continue;
+
+      for (const match of highlightManager.findKeywordMatches(settingFolder, keywords, text)) {
+        if (match.groupId === entry.groupId || !entryIds.has(match.groupId)) continue;
+        // H2 内容中提及自身的 H3 子设定不算引用
+        if (this.isOwnSubEntry(entry, match.groupId)) continue;
+
+        const key = `${entry.groupId}\n${match.groupId}`;
+        const existing = edgeByKey.get(key);
+        if (existing) {
+          existing.weight++;
+        } else {
+          edgeByKey.set(key, { sourceId: entry.groupId, targetId: match.groupId, weight: 1 });
+        }
+      }
+    }
+
+    return { entries, edges: Array.from(edgeByKey.values()) };
+  }
+
+  private isOwnSubEntry(entry: KeywordPreviewData, groupId: string): boolean {
+    if (!entry.groupId.startsWith("h2::")) return false;
+    return groupId.startsWith(`h3::${entry.groupId.slice("h2::".length)}::`);
+  }
+}
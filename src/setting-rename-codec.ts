@@ -0,0 +1,162 @@
+/**
+ * 正文中待替换的一处设定名或别名
+ */
+export interface SettingRenameOccurrence {
+  /** 文件内唯一：`${filePath}#${from}` */
+  id: string;
+  from: number;
+  to: number;
+  matchedText: string;
+  /** 命中的是别名而非设定名 */
+  isAlias: boolean;
+  /** 行号（从 0 开始） */
+  line: number;
+  /** 命中处前后的上下文 */
+  before: string;
+  after: string;
+}
+
+/**
+ * 单个章节文件的待替换项；content 为扫描时的全文，应用前据此判断文件是否已被改动
+ */
+export interface SettingRenameChapter {
+  filePath: string;
+  chapterLabel: string;
+  chapterNumber: number | null;
+  content: string;
+  occurrences: SettingRenameOccurrence[];
+}
+
+/**
+ * 一次替换：from 为替换后文本中的位置，撤销时据此核对并还原
+ */
+export interface SettingRenameEdit {
+  from: number;
+  oldText: string;
+  newText: string;
+}
+
+export interface SettingRenameFileEdit {
+  filePath: string;
+  edits: SettingRenameEdit[];
+}
+
+/**
+ * 撤销清单：记录一次批量重命名改动过的全部文件与位置
+ */
+export interface SettingRenameManifest {
+  id: string;
+  createdAt: number;
+  oldName: string;
+  newName: string;
+  files: SettingRenameFileEdit[];
+}
+
+const CONTEXT_RADIUS = 16;
+
+/**
+ * 设定批量重命名：生成预览、应用替换与按清单撤销
+ */
+export class SettingRenameCodec {
+  /**
+   * 由关键字命中（按位置升序）生成预览项，上下文不跨行
+   */
+  buildOccurrences(
+    filePath: string,
+    content: string,
+    matches: Array<{ from: number; to: number; keyword: string }>,
+    oldName: string
+  ): SettingRenameOccurrence[] {
+    const occurrences: SettingRenameOccurrence[] = [];
+    let line = 0;
+    let lineStart = 0;
+    for (const match of matches) {
+      let newline = content.indexOf("\n", lineStart);
+      while (newline !== -1 && newline < match.from) {
+        line++;
+        lineStart = newline + 1;
+        newline = content.indexOf("\n", lineStart);
+      }
+      const lineEnd = content.indexOf("\n", match.to);
+      occurrences.push({
+        id: `${filePath}#${match.from}`,
+        from: match.from,
+        to: match.to,
+        matchedText: match.keyword,
+        isAlias: match.keyword !== oldName,
+        line,
+        before: content.slice(Math.max(lineStart, match.from - CONTEXT_RADIUS), match.from),
+        after: content.slice(match.to, Math.min(lineEnd === -1 ? content.length : lineEnd, match.to + CONTEXT_RADIUS)),
+      });
+    }
+    return occurrences;
+  }
+
+  /**
+   * 按顺序应用互不重叠的替换，返回新文本与用于撤销的记录
+   */
+  applyReplacements(
+    content: string,
+    replacements: Array<{ from: number; to: number; newText: string }>
+  ): { content: string; edits: SettingRenameEdit[] } {
+    const sorted = [...replacements].sort((a, b) => a.from - b.from);
+    const edits: SettingRenameEdit[] = [];
+    let result = "";
+    let lastIndex = 0;
+    for (const replacement of sorted) {
+      if (replacement.from < lastIndex) continue;
+      result += content.slice(lastIndex, replacement.from);
+      edits.push({
+        from: result.length,
+        oldText: content.slice(replacement.from, replacement.to),
+        newText: replacement.newText,
+      });
+      result += replacement.newText;
+      lastIndex = replacement.to;
+    }
+    result += content.slice(lastIndex);
+    return { content: result, edits };
+  }
+
+  /**
+   * 按记录还原；任何一处与记录不符（文件在重命名后又被改过）时返回 null
+   */
+  revertEdits(content: string, edits: SettingRenameEdit[]): string | null {
+    let result = content;
+    for (const edit of [...edits].sort((a, b) => b.from - a.from)) {
+      const to = edit.from + edit.newText.length;
+      if (result.slice(edit.from, to) !== edit.newText) return null;
+      result = result.slice(0, edit.from) + edit.oldText + result.slice(to);
+    }
+    return result;
+  }
+
+  /**
+   * 读取保存的撤销清单，丢弃格式不符的条目
+   */
+  parseManifests(raw: unknown): SettingRenameManifest[] {
+    if (!Array.isArray(raw)) return [];
+    return raw.filter((item): item is SettingRenameManifest => {
+      const manifest = item as Partial<SettingRenameManifest> | null;
+      return (
+        !!manifest &&
+        typeof manifest.id === "string" &&
+        typeof manifest.createdAt === "number" &&
+        typeof manifest.oldName === "string" &&
+        typeof manifest.newName === "string" &&
+        Array.isArray(manifest.files) &&
+        manifest.files.every(
+          (file) =>
+            typeof file?.filePath === "string" &&
+            Array.isArray(file.edits) &&
+            file.edits.every(
+              (edit) =>
+                typeof edit?.from === "number" &&
+                typeof edit.oldText === "string" &&
+                typeof edit.newText === "string"
+            )
+        )
+      );
+    });
+  }
+}
@@ -0,0 +1,300 @@
+import { Notice, TFile } from "obsidian";
+import type ChineseWriterPlugin from "./main";
+import { buildH2KeywordGroupId } from "./highlight-manager";
+import { ConfirmModal, SettingRenamePreviewModal, TextInputModal } from "./modals";
+import {
+  SettingRenameCodec,
+  type SettingRenameChapter,
+  type SettingRenameEdit,
+  type SettingRenameManifest,
+} from "./setting-rename-codec";
+
+/** 最多保留的撤销清单数 */
+const MANIFEST_LIMIT = 10;
+
+/**
+ * 要重命名的设定条目
+ */
+export interface SettingRenameTarget {
+  settingFolder: string;
+  filePath: string;
+  h1Title: string;
+  h2Title: string;
+}
+
+interface PendingWrite {
+  file: TFile;
+  /** 写入前的内容，失败时据此还原 */
+  original: string;
+  content: string;
+  edits: SettingRenameEdit[];
+}
+
+/**
+ * 设定批量重命名：设定标题与小说库正文中的设定名（可选别名）一并替换，并记录撤销清单
+ */
+export class SettingRenameManager {
+  private plugin: ChineseWriterPlugin;
+  private codec = new SettingRenameCodec();
+  private manifestFilePath: string;
+
+  constructor(plugin: ChineseWriterPlugin, pluginDir: string) {
+    this.plugin = plugin;
+    this.manifestFilePath = `${pluginDir}/cw-rename-manifests.json`;
+  }
+
+  startRename(target: SettingRenameTarget): void {
+    new TextInputModal(
+      this.plugin.app,
+      "重命名设定并替换正文",
+      "请输入新名称",
+      target.h2Title,
+      (value) => {
+        const newName = value.trim();
+        if (!newName || newName === target.h2Title) return;
+        void this.openPreview(target, newName);
+      }
+    ).open();
+  }
+
+  /**
+   * 撤销最近一次批量重命名；重命名后又被改过的文件无法还原，确认后只还原其余文件
+   */
+  async undoLastRename(): Promise<void> {
+    const manifests = await this.loadManifests();
+    const manifest = manifests[manifests.length - 1];
+    if (!manifest) {
+      new Notice("没有可撤销的设定批量重命名");
+      return;
+    }
+
+    const writes: PendingWrite[] = [];
+    const conflicts: string[] = [];
+    for (const fileEdit of manifest.files) {
+      const file = this.plugin.app.vault.getAbstractFileByPath(fileEdit.filePath);
+      const current = file instanceof TFile ? await this.plugin.app.vault.read(file) : null;
+      const reverted = current === null ? null : this.codec.revertEdits(current, fileEdit.edits);
+      if (!(file instanceof TFile) || current === null || reverted === null) {
+        conflicts.push(fileEdit.filePath);
+        continue;
+      }
+      writes.push({ file, original: current, content: reverted, edits: [] });
+    }
+
+    const apply = async () => {
+      if (!(await this.writeAll(writes))) {
+        new Notice("撤销失败，文件保持不变");
+        return;
+      }
+      await this.saveManifests(manifests.slice(0, -1));
+      await this.refreshAfterWrite();
+      const skipped = conflicts.length > 0 ? `，${conflicts.length} 个文件因之后被修改而未还原` : "";
+      new Notice(`已撤销“${manifest.oldName}”→“${manifest.newName}”的重命名${skipped}`);
+    };
+
+    if (conflicts.length === 0) {
+      await apply();
+      return;
+    }
+    if (writes.length === 0) {
+      new Notice("重命名涉及的文件之后都被修改过，无法撤销");
+      return;
+    }
+    new ConfirmModal(
+      this.plugin.app,
+      "撤销设定批量重命名",
+      `以下文件在重命名后被修改过，无法自动还原：${conflicts.join("、")}。是否只撤销其余 ${writes.length} 个文件？`,
+      () => {
+        void apply();
+      }
+    ).open();
+  }
+
+  private async openPreview(target: SettingRenameTarget, newName: string): Promise<void> {
+    let chapters: SettingRenameChapter[];
+    try {
+      chapters = await this.scanChapters(target);
+    } catch (error) {
+      console.error("Failed to scan setting occurrences:", error);
+      new Notice("扫描正文失败，请重试");
+      return;
+    }
+
+    new SettingRenamePreviewModal(
+      this.plugin.app,
+      `“${target.h2Title}”重命名为“${newName}”`,
+      newName,
+      chapters,
+      (selectedIds) => {
+        void this.applyRename(target, newName, chapters, selectedIds);
+      }
+    ).open();
+  }
+
+  /**
+   * 按高亮规则查找正文中指向该设定的命中，与高亮一致：更长的设定名、匹配规则与别名指向都会生效
+   */
+  private async scanChapters(target: SettingRenameTarget): Promise<SettingRenameChapter[]> {
+    const highlightManager = this.plugin.highlightManager;
+    const keywords = await highlightManager.extractKeywordsFromSettingFolder(target.settingFolder);
+    const groupId = buildH2KeywordGroupId(target.filePath, target.h1Title, target.h2Title);
+    const chapters: SettingRenameChapter[] = [];
+
+    for (const file of this.plugin.keywordOccurrenceIndex.getChapterFilesForSettingFolder(target.settingFolder)) {
+      const content = await this.plugin.app.vault.read(file);
+      const matches = highlightManager
+        .findKeywordMatches(target.settingFolder, keywords, content)
+        .filter((match) => match.groupId === groupId);
+      if (matches.length === 0) continue;
+
+      const chapterNumber = this.plugin.chapterManager.extractChapterNumber(file.basename);
+      chapters.push({
+        filePath: file.path,
+        chapterLabel: chapterNumber !== null ? `第${chapterNumber}章` : file.basename,
+        chapterNumber,
+        content,
+        occurrences: this.codec.buildOccurrences(file.path, content, matches, target.h2Title.trim()),
+      });
+    }
+
+    return chapters.sort((a, b) => {
+      if (a.chapterNumber !== null && b.chapterNumber !== null && a.chapterNumber !== b.chapterNumber) {
+        return a.chapterNumber - b.chapterNumber;
+      }
+      if (a.chapterNumber !== null && b.chapterNumber === null) return -1;
+      if (a.chapterNumber === null && b.chapterNumber !== null) return 1;
+      return a.filePath.localeCompare(b.filePath, "zh-Hans-CN");
+    });
+  }
+
+  /**
+   * 先确认所有文件与预览时一致再统一写入；任一文件写入失败则还原已写入的文件
+   */
+  private async applyRename(
+    target: SettingRenameTarget,
+    newName: string,
+    chapters: SettingRenameChapter[],
+    selectedIds: Set<string>
+  ): Promise<void> {
+    const writes: PendingWrite[] = [];
+    try {
+      const headingWrite = await this.buildHeadingWrite(target, newName);
+      if (!headingWrite) {
+        new Notice(`未找到设定“${target.h2Title}”，请刷新后重试`);
+        return;
+      }
+      writes.push(headingWrite);
+
+      for (const chapter of chapters) {
+        const replacements = chapter.occurrences
+          .filter((item) => selectedIds.has(item.id))
+          .map((item) => ({ from: item.from, to: item.to, newText: newName }));
+        if (replacements.length === 0) continue;
+
+        const file = this.plugin.app.vault.getAbstractFileByPath(chapter.filePath);
+        const current = file instanceof TFile ? await this.plugin.app.vault.read(file) : null;
+        if (!(file instanceof TFile) || current !== chapter.content) {
+          new Notice(`“${chapter.chapterLabel}”在预览后被修改过，请重新执行重命名`);
+          return;
+        }
+        const result = this.codec.applyReplacements(current, replacements);
+        writes.push({ file, original: current, content: result.content, edits: result.edits });
+      }
+    } catch (error) {
+      console.error("Failed to prepare setting rename:", error);
+      new Notice("重命名失败，请重试");
+      return;
+    }
+
+    if (!(await this.writeAll(writes))) {
+      new Notice("重命名失败，已还原所有改动");
+      return;
+    }
+
+    const manifests = await this.loadManifests();
+    manifests.push({
+      id: `${Date.now()}`,
+      createdAt: Date.now(),
+      oldName: target.h2Title,
+      newName,
+      files: writes.map((write) => ({ filePath: write.file.path, edits: write.edits })),
+    });
+    await this.saveManifests(manifests.slice(-MANIFEST_LIMIT));
+    await this.refreshAfterWrite();
+
+    const replacedCount = writes.slice(1).reduce((count, write) => count + write.edits.length, 0);
+    new Notice(
+      `已将“${target.h2Title}”重命名为“${newName}”，替换正文 ${replacedCount} 处；可用命令“撤销上一次设定批量重命名”撤销`
+    );
+  }
+
+  /**
+   * 设定文件中对应 H2 标题行的改名
+   */
+  private async buildHeadingWrite(target: SettingRenameTarget, newName: string): Promise<PendingWrite | null> {
+    const file = this.plugin.app.vault.getAbstractFileByPath(target.filePath);
+    if (!(file instanceof TFile)) return null;
+
+    const content = await this.plugin.app.vault.read(file);
+    let inTargetH1 = false;
+    let lineStart = 0;
+    for (const line of content.split("\n")) {
+      const trimmed = line.trim();
+      if (trimmed.startsWith("# ") && !trimmed.startsWith("## ")) {
+        inTargetH1 = trimmed.substring(2).trim() === target.h1Title;
+      } else if (inTargetH1 && trimmed.startsWith("## ") && trimmed.substring(3).trim() === target.h2Title) {
+        const result = this.codec.applyReplacements(content, [
+          { from: lineStart, to: lineStart + line.length, newText: `## ${newName}` },
+        ]);
+        return { file, original: content, content: result.content, edits: result.edits };
+      }
+      lineStart += line.length + 1;
+    }
+    return null;
+  }
+
+  private async writeAll(writes: PendingWrite[]): Promise<boolean> {
+    const written: PendingWrite[] = [];
+    try {
+      for (const write of writes) {
+        await this.plugin.app.vault.modify(write.file, write.content);
+        written.push(write);
+      }
+      return true;
+    } catch (error) {
+      console.error("Failed to write renamed files:", error);
+      for (const write of written.reverse()) {
+        try {
+          await this.plugin.app.vault.modify(write.file, write.original);
+        } catch (restoreError) {
+          console.error(`Failed to restore ${write.file.path}:`, restoreError);
+        }
+      }
+      return false;
+    }
+  }
+
+  private async refreshAfterWrite(): Promise<void> {
+    this.plugin.highlightManager.clearCache();
+    await this.plugin.refreshView();
+  }
+
+  private async loadManifests(): Promise<SettingRenameManifest[]> {
+    try {
+      const adapter = this.plugin.app.vault.adapter;
+      if (!(await adapter.exists(this.manifestFilePath))) return [];
+      return this.codec.parseManifests(JSON.parse(await adapter.read(this.manifestFilePath)));
+    } catch (error) {
+      console.error("Failed to load rename manifests:", error);
+      return [];
+    }
+  }
+
+  private async saveManifests(manifests: SettingRenameManifest[]): Promise<void> {
+    try {
+      await this.plugin.app.vault.adapter.write(this.manifestFilePath, JSON.stringify(manifests, null, 2));
+    } catch (error) {
+      console.error("Failed to save rename manifests:", error);
+    }
+  }
+}
@@ -0,0 +1,226 @@
+import { ItemView, TFile, WorkspaceLeaf, setIcon } from "obsidian";
+import type ChineseWriterPlugin from "./main";
+import type { AliasCollision, KeywordPreviewData } from "./highlight-manager";
+import type { ChapterOccurrences } from "./keyword-occurrence-index";
+import { OrphanTermScanner, type OrphanFileTerms, type OrphanTerm } from "./orphan-term-scanner";
+
+export const VIEW_TYPE_SETTING_REPORT = "chinese-writer-setting-report-view";
+
+/** 未收录词至少出现的次数 */
+const ORPHAN_MIN_COUNT = 3;
+
+/**
+ * 设定使用报告视图
+ * 列出正文中从未出现的设定、正文中高频出现但未建立设定的词，以及对应多个设定的别名
+ */
+export class SettingReportView extends ItemView {
+  plugin: ChineseWriterPlugin;
+  private settingFolder: string | null = null;
+  private orphanScanner = new OrphanTermScanner();
+  /** 按章节索引记录缓存候选词：索引只为改动过的章节生成新记录，其余章节无需重新读取和扫描 */
+  private orphanTermsCache = new WeakMap<ChapterOccurrences, OrphanFileTerms>();
+  private renderRunId = 0;
+
+  constructor(leaf: WorkspaceLeaf, plugin: ChineseWriterPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType(): string {
+    return VIEW_TYPE_SETTING_REPORT;
+  }
+
+  getDisplayText(): string {
+    return "设定使用报告";
+  }
+
+  getIcon(): string {
+    return "list-checks";
+  }
+
+  async onOpen(): Promise<void> {
+    this.settingFolder = this.resolveDefaultSettingFolder();
+    await this.refresh();
+  }
+
+  async onClose(): Promise<void> {
+    this.renderRunId++;
+  }
+
+  /**
+   * 切换到指定设定库并重新生成报告
+   */
+  async showSettingFolder(settingFolder: string): Promise<void> {
+    this.settingFolder = settingFolder;
+    await this.refresh();
+  }
+
+  /**
+   * 重新生成报告
+   */
+  async refresh(): Promise<void> {
+    const runId = ++this.renderRunId;
+    const container = this.containerEl.children[1];
+    if (!container) return;
+
+    container.empty();
+    container.addClass("chinese-writer-view");
+    this.renderHeader(container as HTMLElement);
+
+    const contentEl = container.createDiv({ cls: "cw-report-content" });
+    const settingFolder = this.settingFolder;
+    if (!settingFolder || !this.plugin.highlightManager.getMappedSettingFolders().includes(settingFolder)) {
+      contentEl.createDiv({ text: "请先在设置中配置小说库与设定库的对应关系", cls: "chinese-writer-empty" });
+      return;
+    }
+
+    const index = this.plugin.keywordOccurrenceIndex;
+    const keywords = await this.plugin.highlightManager.extractKeywordsFromSettingFolder(settingFolder);
+    const chapters = index.getChapters(settingFolder);
+    if (runId !== this.renderRunId) return;
+    if (!chapters) {
+      // 索引构建完成后会再次刷新
+      contentEl.createDiv({ text: "正在统计正文出现情况…", cls: "chinese-writer-empty" });
+      return;
+    }
+
+    const unusedEntries = this.plugin.highlightManager
+      .getKeywordEntries(settingFolder)
+      .filter((entry) => (index.getSummary(settingFolder, entry.groupId)?.chapterCount ?? 0) === 0);
+
+    const fileTerms: Array<{ filePath: string; terms: OrphanFileTerms }> = [];
+    for (const chapter of chapters) {
+      let terms = this.orphanTermsCache.get(chapter);
+      if (!terms) {
+        const file = this.app.vault.getAbstractFileByPath(chapter.filePath);
+        if (!(file instanceof TFile)) continue;
+        terms = this.orphanScanner.collectFileTerms(await this.app.vault.cachedRead(file));
+        this.orphanTermsCache.set(chapter, terms);
+      }
+      fileTerms.push({ filePath: chapter.filePath, terms });
+    }
+    if (runId !== this.renderRunId) return;
+    const orphanTerms = this.orphanScanner.merge(fileTerms, keywords, ORPHAN_MIN_COUNT);
+
+    this.renderUnusedSection(contentEl, unusedEntries);
+    this.renderOrphanSection(contentEl, orphanTerms);
+    this.renderCollisionSection(contentEl, this.plugin.highlightManager.getAliasCollisions(settingFolder));
+  }
+
+  private renderHeader(container: HTMLElement): void {
+    const headerEl = container.createDiv({ cls: "chinese-writer-header" });
+    const titleEl = headerEl.createDiv({ cls: "chinese-writer-title" });
+    const iconEl = titleEl.createSpan({ cls: "chinese-writer-icon" });
+    setIcon(iconEl, "list-checks");
+
+    const settingFolders = this.plugin.highlightManager.getMappedSettingFolders();
+    if (settingFolders.length > 1) {
+      const selectEl = titleEl.createEl("select", { cls: "dropdown cw-report-folder-select" });
+      for (const folder of settingFolders) {
+        selectEl.createEl("option", { text: folder, value: folder });
+      }
+      selectEl.value = this.settingFolder ?? "";
+      selectEl.addEventListener("change", () => {
+        void this.showSettingFolder(selectEl.value);
+      });
+    } else {
+      titleEl.createSpan({
+        text: this.settingFolder ?? "未设置目录",
+        cls: "chinese-writer-folder-name",
+      });
+    }
+
+    const refreshBtn = headerEl.createEl("button", { cls: "chinese-writer-toggle-btn" });
+    setIcon(refreshBtn, "refresh-cw");
+    refreshBtn.setAttribute("aria-label", "重新统计");
+    refreshBtn.addEventListener("click", () => {
+      void this.refresh();
+    });
+  }
+
+  private renderUnusedSection(contentEl: HTMLElement, entries: KeywordPreviewData[]): void {
+    const sectionEl = contentEl.createDiv({ cls: "cw-report-section" });
+    sectionEl.createDiv({ cls: "cw-report-section-title", text: `未在正文出现的设定（${entries.length}）` });
+    if (entries.length === 0) {
+      sectionEl.createDiv({ cls: "cw-report-empty", text: "所有设定均已在正文中出现" });
+      return;
+    }
+
+    const listEl = sectionEl.createEl("ul", { cls: "cw-report-list" });
+    for (const entry of entries) {
+      const isH3 = entry.groupId.startsWith("h3::");
+      const itemEl = listEl.createEl("li", { cls: "cw-report-item" });
+      itemEl.createSpan({ cls: "cw-report-item-tag", text: isH3 ? "H3" : "H2" });
+      itemEl.createSpan({ cls: "cw-report-item-text", text: entry.keyword });
+      const location = isH3
+        ? `${entry.fileName}/${entry.h1Title}/${entry.h2Title}`
+        : `${entry.fileName}/${entry.h1Title}`;
+      itemEl.createSpan({ cls: "cw-report-item-meta", text: location });
+      itemEl.addEventListener("click", () => {
+        void this.plugin.highlightManager.openKeywordSource(entry);
+      });
+    }
+  }
+
+  private renderOrphanSection(contentEl: HTMLElement, terms: OrphanTerm[]): void {
+    const sectionEl = contentEl.createDiv({ cls: "cw-report-section" });
+    sectionEl.createDiv({ cls: "cw-report-section-title", text: `正文高频但未收录的词（${terms.length}）` });
+    if (terms.length === 0) {
+      sectionEl.createDiv({ cls: "cw-report-empty", text: "未发现需要补充的设定" });
+      return;
+    }
+
+    const listEl = sectionEl.createEl("ul", { cls: "cw-report-list" });
+    for (const term of terms) {
+      const itemEl = listEl.createEl("li", { cls: "cw-report-item" });
+      itemEl.createSpan({ cls: "cw-report-item-text", text: term.term });
+      itemEl.createSpan({
+        cls: "cw-report-item-meta",
+        text: `${term.count} 次 · ${term.chapterCount} 章`,
+      });
+      itemEl.addEventListener("click", () => {
+        const file = this.app.vault.getAbstractFileByPath(term.filePath);
+        if (!(file instanceof TFile)) return;
+        void this.plugin.highlightManager.openFileAtLine(file, term.line, term.ch);
+      });
+    }
+  }
+
+  private renderCollisionSection(contentEl: HTMLElement, collisions: AliasCollision[]): void {
+    const sectionEl = contentEl.createDiv({ cls: "cw-report-section" });
+    sectionEl.createDiv({ cls: "cw-report-section-title", text: `对应多个设定的关键字（${collisions.length}）` });
+    if (collisions.length === 0) {
+      sectionEl.createDiv({ cls: "cw-report-empty", text: "没有重名的关键字或别名" });
+      return;
+    }
+    sectionEl.createDiv({
+      cls: "cw-report-empty",
+      text: "默认指向第一个设定，可在正文中用 <!-- cw:别名=设定名 --> 指定",
+    });
+
+    const listEl = sectionEl.createEl("ul", { cls: "cw-report-list" });
+    for (const collision of collisions) {
+      const itemEl = listEl.createEl("li", { cls: "cw-report-item cw-report-collision" });
+      itemEl.createSpan({ cls: "cw-report-item-text", text: collision.variant });
+      const candidatesEl = itemEl.createDiv({ cls: "cw-report-collision-candidates" });
+      for (const candidate of collision.candidates) {
+        const candidateEl = candidatesEl.createSpan({
+          cls: "cw-report-collision-candidate",
+          text: `${candidate.fileName}/${candidate.h1Title}/${candidate.keyword}`,
+        });
+        candidateEl.addEventListener("click", () => {
+          void this.plugin.highlightManager.openKeywordSource(candidate);
+        });
+      }
+    }
+  }
+
+  private resolveDefaultSettingFolder(): string | null {
+    const activeFile = this.app.workspace.getActiveFile();
+    if (activeFile) {
+      const settingFolder = this.plugin.highlightManager.getSettingFolderForFile(activeFile.path);
+      if (settingFolder) return settingFolder;
+    }
+    return this.plugin.highlightManager.getMappedSettingFolders()[0] ?? null;
+  }
+}
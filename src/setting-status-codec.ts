@@ -0,0 +1,138 @@
+/**
+ * 一条【状态】记录
+ * fromChapter 为空表示不限章节的基础状态
+ */
+export interface StatusTimelineEntry {
+  fromChapter: number | null;
+  /** 去掉章节锚点后的原始状态文本 */
+  text: string;
+  statuses: string[];
+}
+
+const STATUS_TAG = "【状态】";
+const DEAD_STATUSES = ["死亡", "失效"];
+/** 章节锚点，如“第120章起：死亡”“自第120章起:死亡”“第120章后 失踪” */
+const CHAPTER_ANCHOR_PATTERN = /^自?第\s*(\d+)\s*章\s*(?:起|开始|以后|之后|后)?\s*[：:，,]?\s*/;
+
+/**
+ * 设定状态解析
+ * 支持带章节锚点的状态行，按当前章节取出生效的状态
+ */
+export class SettingStatusCodec {
+  parseTimeline(lines: string[]): StatusTimelineEntry[] {
+    const entries: StatusTimelineEntry[] = [];
+
+    for (const line of lines) {
+      const statusIndex = line.indexOf(STATUS_TAG);
+      if (statusIndex === -1) continue;
+
+      let rawValue = line.slice(statusIndex + STATUS_TAG.length).trim();
+      if (!rawValue) continue;
+
+      let fromChapter: number | null = null;
+      const anchorMatch = rawValue.match(CHAPTER_ANCHOR_PATTERN);
+      if (anchorMatch?.[1]) {
+        const parsed = Number.parseInt(anchorMatch[1], 10);
+        if (Number.isFinite(parsed)) {
+          fromChapter = parsed;
+          rawValue = rawValue.slice(anchorMatch[0].length).trim();
+        }
+      }
+
+      const statuses = this.splitStatuses(rawValue);
+      if (statuses.length > 0) {
+        entries.push({ fromChapter, text: rawValue, statuses });
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * 取出指定章节生效的状态；chapterNumber 为空时按全部记录取优先状态
+   */
+  resolveStatus(entries: StatusTimelineEntry[], chapterNumber: number | null): string | undefined {
+    if (chapterNumber === null) {
+      return this.pickPreferred(entries.flatMap((entry) => entry.statuses));
+    }
+
+    const applied = this.findAppliedEntry(entries, chapterNumber);
+    if (applied) {
+      return this.pickPreferred(applied.statuses);
+    }
+
+    return this.pickPreferred(
+      entries.filter((entry) => entry.fromChapter === null).flatMap((entry) => entry.statuses)
+    );
+  }
+
+  /**
+   * 指定章节生效的状态为死亡/失效时，返回该状态的起始章节；否则（含复活后的章节）返回 null
+   */
+  getDeadFromChapter(entries: StatusTimelineEntry[], chapterNumber: number): number | null {
+    const applied = this.findAppliedEntry(entries, chapterNumber);
+    if (!applied || !this.isDeadStatus(this.resolveStatus(entries, chapterNumber))) return null;
+    return applied.fromChapter;
+  }
+
+  /**
+   * 指定章节生效的带锚点记录；同一章节有多条时，以后写的为准
+   */
+  private findAppliedEntry(entries: StatusTimelineEntry[], chapterNumber: number): StatusTimelineEntry | null {
+    let applied: StatusTimelineEntry | null = null;
+    for (const entry of entries) {
+      if (entry.fromChapter === null || entry.fromChapter > chapterNumber) continue;
+      if (!applied || (applied.fromChapter ?? 0) <= entry.fromChapter) {
+        applied = entry;
+      }
+    }
+    return applied;
+  }
+
+  hasChapterAnchors(entries: StatusTimelineEntry[]): boolean {
+    return entries.some((entry) => entry.fromChapter !== null);
+  }
+
+  isDeadStatus(status: string | undefined): boolean {
+    if (!status) return false;
+    return DEAD_STATUSES.includes(status.trim());
+  }
+
+  /**
+   * 生成状态变化的简要描述，如“第120章起 死亡”
+   */
+  formatTimeline(entries: StatusTimelineEntry[]): string {
+    return entries
+      .filter((entry) => entry.fromChapter !== null)
+      .sort((a, b) => (a.fromChapter ?? 0) - (b.fromChapter ?? 0))
+      .map((entry) => `第${entry.fromChapter}章起 ${entry.text}`)
+      .join("；");
+  }
+
+  private splitStatuses(rawValue: string): string[] {
+    const statusValues: string[] = [];
+    const normalizedRaw = rawValue.replace(/\s+/g, " ").trim();
+    for (const deadStatus of DEAD_STATUSES) {
+      if (normalizedRaw.includes(deadStatus)) {
+        statusValues.push(deadStatus);
+      }
+    }
+
+    const parts = normalizedRaw.split(/[，,、/|；;]+/);
+    for (const part of parts) {
+      const status = part.trim();
+      if (status) {
+        statusValues.push(status);
+      }
+    }
+    return statusValues;
+  }
+
+  private pickPreferred(statusValues: string[]): string | undefined {
+    if (statusValues.length === 0) return undefined;
+    for (const deadStatus of DEAD_STATUSES) {
+      if (statusValues.includes(deadStatus)) return deadStatus;
+    }
+    return statusValues[0];
+  }
+}
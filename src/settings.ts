@@ -1,5 +1,8 @@
 import { App, Notice, PluginSettingTab, Setting, TFolder } from "obsidian";
 import type ChineseWriterPlugin from "./main";
+import { SettingFieldCodec, type SettingFieldSchema } from "./setting-field-codec";
+import { SLASH_TRIGGER_MODE_LABELS } from "./slash-trigger-codec";
+import { TypoRuleCodec, type TypoProfile } from "./typo-rule-codec";
 
 /**
  * 文件夹对应关系
@@ -9,14 +12,20 @@ export interface FolderMapping {
   id: string;
   /** 小说库路径 */
   novelFolder: string;
-  /** 设定库路径 */
+  /** 设定库路径（优先级最高的本书设定库） */
   settingFolder: string;
+  /** 共享设定库路径，按优先级从高到低排列，均低于本书设定库 */
+  sharedSettingFolders: string[];
+  /** 叠加在通用词典上的平台词典方案名，空表示只用通用词典 */
+  typoProfile: string;
 }
 
 /**
  * 高亮模式
  */
 export type HighlightMode = "first" | "all";
+/** 候选栏触发方式：//、全角 ／／、顿号 、、、自定义单个字符，或仅用快捷键 */
+export type SlashTriggerMode = "slash" | "fullwidth-slash" | "dunhao" | "custom" | "hotkey";
 export type HighlightUnderlineStyle = "none" | "solid" | "dashed" | "dotted" | "double" | "wavy";
 
 /**
@@ -75,6 +84,8 @@ export interface PunctuationCheckSettings {
   doubleQuote: boolean;
   /** 英文单引号 ' 及中文单引号配对 */
   singleQuote: boolean;
+  /** 允许引号跨段延续：段内未闭合的引号在下一段以开引号起首时不视为错误 */
+  quoteContinuation: boolean;
   /** 检测其他常见成对中文标点 */
   otherCnPairs: boolean;
 }
@@ -113,14 +124,24 @@ export interface ChineseWriterSettings {
   mdStatsOnlyMappedFolders: boolean;
   /** 是否在编辑区标题前显示等级图标 */
   enableEditorHeadingIcons: boolean;
-  /** 是否启用 // 候选栏 */
+  /** 是否启用设定候选栏 */
   enableSlashH2CandidateBar: boolean;
-  /** 是否启用 // 英文片段候选栏 */
+  /** 是否启用文本片段候选栏 */
   enableSlashSnippetCandidateBar: boolean;
+  /** 设定候选栏的触发方式 */
+  slashH2TriggerMode: SlashTriggerMode;
+  /** 设定候选栏的自定义触发字符 */
+  slashH2CustomTrigger: string;
+  /** 文本片段候选栏的触发方式 */
+  slashSnippetTriggerMode: SlashTriggerMode;
+  /** 文本片段候选栏的自定义触发字符 */
+  slashSnippetCustomTrigger: string;
   /** // 候选栏每页最大显示项 */
   slashH2CandidatePageSize: number;
   /** // 文本片段来源目录路径（递归读取目录下所有 md） */
   slashSnippetFolderPath: string;
+  /** 文本片段专用前缀（如“;”时用“//;key”触发），留空时与设定候选栏共用触发符则按关键字分流 */
+  slashSnippetTriggerPrefix: string;
   /** 是否启用灵感便签 */
   enableInspirationView: boolean;
   /** 灵感便签预览默认显示行数（1-10） */
@@ -135,8 +156,14 @@ export interface ChineseWriterSettings {
   enableTypoDictionary: boolean;
   /** 错别字与敏感词词典目录路径（递归读取目录下所有 md） */
   typoDictionaryFolderPath: string;
+  /** 平台词典方案，各小说库可选用其一 */
+  typoProfiles: TypoProfile[];
   /** 是否启用中文标点成对自动补齐 */
   enableCnPunctuationAutoPair: boolean;
+  /** 是否检测死亡/失效角色在之后章节的对白中被提及 */
+  enableDeadMentionCheck: boolean;
+  /** 设定结构化字段方案（【年龄】【门派】等） */
+  settingFieldSchemas: SettingFieldSchema[];
 }
 
 /**
@@ -169,6 +196,7 @@ export const DEFAULT_SETTINGS: ChineseWriterSettings = {
     question: true,
     doubleQuote: true,
     singleQuote: true,
+    quoteContinuation: true,
     otherCnPairs: true,
   },
   editorIndentCjkChars: 2,
@@ -184,8 +212,13 @@ export const DEFAULT_SETTINGS: ChineseWriterSettings = {
   enableEditorHeadingIcons: false,
   enableSlashH2CandidateBar: false,
   enableSlashSnippetCandidateBar: false,
+  slashH2TriggerMode: "slash",
+  slashH2CustomTrigger: "",
+  slashSnippetTriggerMode: "slash",
+  slashSnippetCustomTrigger: "",
   slashH2CandidatePageSize: 8,
   slashSnippetFolderPath: "",
+  slashSnippetTriggerPrefix: "",
   enableInspirationView: false,
   inspirationPreviewLines: 4,
   inspirationFolderPath: "",
@@ -193,7 +226,10 @@ export const DEFAULT_SETTINGS: ChineseWriterSettings = {
   inspirationShowTagHint: true,
   enableTypoDictionary: false,
   typoDictionaryFolderPath: "",
+  typoProfiles: [],
   enableCnPunctuationAutoPair: false,
+  enableDeadMentionCheck: true,
+  settingFieldSchemas: [],
 };
 
 /**
@@ -328,6 +364,29 @@ export class ChineseWriterSettingTab extends PluginSettingTab {
           })
       );
 
+    // 结构化字段设置
+    settingTabEl.createEl("h3", { text: "结构化字段" });
+
+    const fieldCodec = new SettingFieldCodec();
+    new Setting(settingTabEl)
+      .setName("字段方案")
+      .setDesc("每行一条：范围 = 字段，字段:类型。范围可填 *（全部设定）、设定文件名或 #一级标题分类名；类型可选 文本（默认）、数字、列表。例：人物 = 年龄:数字，门派，技能:列表")
+      .addTextArea((text) => {
+        text.inputEl.rows = 4;
+        text.inputEl.addClass("cw-setting-field-schema-input");
+        text
+          .setPlaceholder("* = 所属\n#主要角色 = 年龄:数字，门派，境界")
+          .setValue(fieldCodec.formatSchemaText(this.plugin.settings.settingFieldSchemas));
+        text.inputEl.addEventListener("blur", () => {
+          this.plugin.settings.settingFieldSchemas = fieldCodec.parseSchemaText(text.getValue());
+          text.setValue(fieldCodec.formatSchemaText(this.plugin.settings.settingFieldSchemas));
+          void this.plugin.saveSettings().then(async () => {
+            this.refreshEditorHighlight();
+            await this.plugin.refreshView();
+          });
+        });
+      });
+
     // 高亮样式设置
     settingTabEl.createEl("h3", { text: "关键字高亮样式" });
 
@@ -533,8 +592,8 @@ export class ChineseWriterSettingTab extends PluginSettingTab {
     };
 
     new Setting(quickTabEl)
-      .setName("启用 // 快速输入现有设定")
-      .setDesc("输入 // + 中文关键字时，从设定库中匹配设定候选词")
+      .setName("启用快速输入现有设定")
+      .setDesc("输入触发符（默认 //）+ 关键字时，从设定库中匹配设定候选词")
       .addToggle((toggle) =>
         toggle
           .setValue(this.plugin.settings.enableSlashH2CandidateBar)
@@ -545,6 +604,8 @@ export class ChineseWriterSettingTab extends PluginSettingTab {
           })
       );
 
+    this.renderSlashTriggerSetting(quickTabEl, "h2");
+
     const pageSizeSetting = new Setting(quickTabEl)
       .setName("每页最多显示项数")
       .setDesc("设定候选栏分页显示，每页最多展示的候选词数量")
@@ -571,8 +632,8 @@ export class ChineseWriterSettingTab extends PluginSettingTab {
 
     let snippetPathInput: { setDisabled: (disabled: boolean) => unknown } | null = null;
     new Setting(quickTabEl)
-      .setName("启用 // 文本片段")
-      .setDesc("输入 // + 英文关键字时，从指定目录的 Markdown 文本片段中匹配")
+      .setName("启用文本片段")
+      .setDesc("输入触发符（默认 //）+ 片段关键字时，从指定目录的 Markdown 文本片段中匹配")
       .addToggle((toggle) =>
         toggle
           .setValue(this.plugin.settings.enableSlashSnippetCandidateBar)
@@ -615,6 +676,25 @@ export class ChineseWriterSettingTab extends PluginSettingTab {
         this.bindFolderPathSuggestionPanel(text.inputEl, folderPathSuggestions))
       );
 
+    new Setting(quickTabEl)
+      .setName("文本片段专用前缀")
+      .setDesc(
+        "两个候选栏触发符相同且此项留空时，触发符后的输入若是某个片段关键字的开头，由文本片段候选栏处理，否则由设定候选栏处理；" +
+        "填写如“;”后，只有“//;关键字”触发文本片段，其余输入都交给设定候选栏"
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("留空")
+          .setValue(this.plugin.settings.slashSnippetTriggerPrefix)
+          .onChange((value) => {
+            // “/”会与 // 触发符混淆，不允许出现在前缀中
+            this.plugin.settings.slashSnippetTriggerPrefix = value.trim().replace(/\//g, "");
+            this.scheduleDelayedSave();
+          })
+      );
+
+    this.renderSlashTriggerSetting(quickTabEl, "snippet");
+
     // 常见标点检测设置
     checkTabEl.createEl("h3", { text: "常见标点检测" });
 
@@ -737,6 +817,20 @@ export class ChineseWriterSettingTab extends PluginSettingTab {
           });
       });
 
+    new Setting(checkTabEl)
+      .setName("允许引号跨段延续")
+      .setDesc("引号按段落配对；开启后，多段引语可在段末不闭合，下一段以开引号起首，只在最后一段闭合")
+      .addToggle((toggle) => {
+        punctuationOptionToggles.push(toggle);
+        toggle
+          .setValue(this.plugin.settings.punctuationCheck.quoteContinuation)
+          .setDisabled(!this.plugin.settings.punctuationCheck.enabled)
+          .onChange(async (value) => {
+            this.plugin.settings.punctuationCheck.quoteContinuation = value;
+            await saveAndRefreshPunctuation();
+          });
+      });
+
     new Setting(checkTabEl)
       .setName("检测其他常见成对中文标点")
       .setDesc("检测《》 （） 【】 〖〗 〈〉 〔〕 「」 『』 ｛｝ 的配对错误")
@@ -800,6 +894,51 @@ export class ChineseWriterSettingTab extends PluginSettingTab {
         this.bindFolderPathSuggestionPanel(text.inputEl, folderPathSuggestions))
       );
 
+    const typoRuleCodec = new TypoRuleCodec();
+    new Setting(checkTabEl)
+      .setName("平台词典方案")
+      .setDesc("每行一条：方案名 = 词典目录。方案词典叠加在通用词典之上，可在“文件夹对应关系”中为每个小说库选择方案")
+      .addTextArea((text) => {
+        text.inputEl.rows = 3;
+        text.inputEl.addClass("cw-setting-field-schema-input");
+        text
+          .setPlaceholder("起点 = 词典/起点\n番茄 = 词典/番茄")
+          .setValue(typoRuleCodec.formatProfileText(this.plugin.settings.typoProfiles));
+        text.inputEl.addEventListener("blur", () => {
+          const profiles = typoRuleCodec.parseProfileText(text.getValue());
+          const formatted = typoRuleCodec.formatProfileText(profiles);
+          text.setValue(formatted);
+          if (formatted === typoRuleCodec.formatProfileText(this.plugin.settings.typoProfiles)) return;
+
+          this.plugin.settings.typoProfiles = profiles;
+          const missing = profiles.filter((profile) => !this.isFolderExisting(profile.dictionaryFolderPath));
+          if (missing.length > 0) {
+            new Notice(`以下词典方案的目录不存在：${missing.map((profile) => profile.name).join("、")}`);
+          }
+          void this.plugin.saveSettings().then(async () => {
+            await this.plugin.highlightManager.reloadTypoDictionary();
+            this.refreshEditorHighlight();
+            this.display();
+          });
+        });
+      });
+
+    // 设定状态检测设置
+    checkTabEl.createEl("h3", { text: "设定状态检测" });
+
+    new Setting(checkTabEl)
+      .setName("检测已死亡角色在对白中出现")
+      .setDesc("设定中写有“【状态】第120章起：死亡”时，第120章之后的对白里提及该角色会被标记")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.enableDeadMentionCheck)
+          .onChange(async (value) => {
+            this.plugin.settings.enableDeadMentionCheck = value;
+            await this.plugin.saveSettings();
+            this.refreshEditorHighlight();
+          })
+      );
+
     // 编辑区排版设置
     typographyTabEl.createEl("h3", { text: "编辑区排版" });
 
@@ -1074,7 +1213,27 @@ export class ChineseWriterSettingTab extends PluginSettingTab {
 
       const mappingSetting = new Setting(container)
         .setName("")
-        .setClass("folder-mapping-item")
+        .setClass("folder-mapping-item");
+
+      const typoProfiles = this.plugin.settings.typoProfiles;
+      if (typoProfiles.length > 0) {
+        mappingSetting.addDropdown((dropdown) => {
+          dropdown.addOption("", "通用词典");
+          for (const profile of typoProfiles) {
+            dropdown.addOption(profile.name, profile.name);
+          }
+          dropdown.selectEl.setAttribute("aria-label", "错别字与敏感词词典方案");
+          dropdown
+            .setValue(typoProfiles.some((profile) => profile.name === mapping.typoProfile) ? mapping.typoProfile : "")
+            .onChange(async (value) => {
+              mapping.typoProfile = value;
+              await this.plugin.saveSettings();
+              this.refreshEditorHighlight();
+            });
+        });
+      }
+
+      mappingSetting
         .addButton((button) =>
           button
             .setButtonText("编辑")
@@ -1082,6 +1241,14 @@ export class ChineseWriterSettingTab extends PluginSettingTab {
               await this.editMapping(mapping);
             })
         )
+        .addButton((button) =>
+          button
+            .setButtonText("共享库")
+            .setTooltip("叠加系列或世界观共用的设定库")
+            .onClick(async () => {
+              await this.editSharedSettingFolders(mapping);
+            })
+        )
         .addButton((button) =>
           button
             .setButtonText("删除")
@@ -1090,6 +1257,9 @@ export class ChineseWriterSettingTab extends PluginSettingTab {
               if (mapping.settingFolder) {
                 await this.plugin.orderManager.removeFolderData(mapping.settingFolder);
               }
+              if (mapping.novelFolder) {
+                await this.plugin.orderManager.removeCompletionUsage(mapping.novelFolder);
+              }
               this.plugin.settings.folderMappings =
                 this.plugin.settings.folderMappings.filter(m => m.id !== mapping.id);
               await this.plugin.saveSettings();
@@ -1103,6 +1273,10 @@ export class ChineseWriterSettingTab extends PluginSettingTab {
       this.appendFolderDisplay(mappingSetting.nameEl, novelFolder, novelMissing);
       mappingSetting.nameEl.createSpan({ text: " → ", cls: "cw-folder-mapping-arrow" });
       this.appendFolderDisplay(mappingSetting.nameEl, settingFolder, settingMissing);
+      mapping.sharedSettingFolders.forEach((sharedFolder) => {
+        mappingSetting.nameEl.createSpan({ text: " + ", cls: "cw-folder-mapping-arrow" });
+        this.appendFolderDisplay(mappingSetting.nameEl, sharedFolder, !this.isFolderExisting(sharedFolder));
+      });
     });
   }
 
@@ -1188,6 +1362,40 @@ export class ChineseWriterSettingTab extends PluginSettingTab {
     ).open();
   }
 
+  /**
+   * 编辑对应关系叠加的共享设定库
+   */
+  private async editSharedSettingFolders(mapping: FolderMapping): Promise<void> {
+    const { TextInputModal } = await import("./modals");
+
+    new TextInputModal(
+      this.app,
+      "编辑共享设定库",
+      "多个路径用“，”分隔，靠前的优先级更高；本书设定库始终优先",
+      mapping.sharedSettingFolders.join("，"),
+      (value) => {
+        const sharedFolders = value
+          .split(/[，,]/)
+          .map((folder) => this.normalizeVaultPath(folder))
+          .filter((folder) => folder.length > 0 && folder !== mapping.settingFolder);
+        mapping.sharedSettingFolders = Array.from(new Set(sharedFolders));
+        void this.saveSharedSettingFolders();
+      }
+    ).open();
+  }
+
+  private async saveSharedSettingFolders(): Promise<void> {
+    await this.plugin.saveSettings();
+
+    // 延迟刷新界面和编辑器，确保弹出框完全关闭
+    window.setTimeout(() => {
+      void this.plugin.refreshView().then(() => {
+        this.refreshEditorHighlight();
+        this.display();
+      });
+    }, 50);
+  }
+
   /**
    * 添加新的对应关系（使用两次弹出输入框）
    */
@@ -1228,7 +1436,9 @@ export class ChineseWriterSettingTab extends PluginSettingTab {
             const newMapping: FolderMapping = {
               id: Date.now().toString(),
               novelFolder: novelFolder.trim(),
-              settingFolder: settingFolder.trim()
+              settingFolder: settingFolder.trim(),
+              sharedSettingFolders: [],
+              typoProfile: "",
             };
 
             this.plugin.settings.folderMappings.push(newMapping);
@@ -1394,6 +1604,42 @@ export class ChineseWriterSettingTab extends PluginSettingTab {
     });
   }
 
+  /**
+   * 候选栏触发方式：下拉选择触发符，选“自定义”时填写单个字符
+   */
+  private renderSlashTriggerSetting(containerEl: HTMLElement, target: "h2" | "snippet"): void {
+    const modeKey = target === "h2" ? "slashH2TriggerMode" : "slashSnippetTriggerMode";
+    const customKey = target === "h2" ? "slashH2CustomTrigger" : "slashSnippetCustomTrigger";
+    const commandName = target === "h2" ? "在光标处打开设定候选栏" : "在光标处打开文本片段候选栏";
+
+    let customInput: { setDisabled: (disabled: boolean) => unknown } | null = null;
+    new Setting(containerEl)
+      .setName("触发方式")
+      .setDesc(`无论选择哪种方式，都可以为命令“${commandName}”绑定快捷键，在光标处直接打开候选栏`)
+      .addDropdown((dropdown) => {
+        for (const mode of Object.keys(SLASH_TRIGGER_MODE_LABELS) as SlashTriggerMode[]) {
+          dropdown.addOption(mode, SLASH_TRIGGER_MODE_LABELS[mode]);
+        }
+        dropdown.setValue(this.plugin.settings[modeKey]).onChange(async (value: SlashTriggerMode) => {
+          this.plugin.settings[modeKey] = value;
+          customInput?.setDisabled(value !== "custom");
+          await this.plugin.saveSettings();
+        });
+      })
+      .addText((text) => {
+        customInput = text;
+        text
+          .setPlaceholder("单个字符，如 ;")
+          .setValue(this.plugin.settings[customKey])
+          .setDisabled(this.plugin.settings[modeKey] !== "custom")
+          .onChange((value) => {
+            // 只保留第一个非空白字符
+            this.plugin.settings[customKey] = Array.from(value.trim())[0] ?? "";
+            this.scheduleDelayedSave();
+          });
+      });
+  }
+
   /**
    * 更新高亮样式
    */
@@ -1,11 +1,32 @@
-import { EditorSelection, Prec } from "@codemirror/state";
+import { EditorSelection, Prec, Text } from "@codemirror/state";
 import { EditorView, ViewPlugin, ViewUpdate, keymap } from "@codemirror/view";
+import { Editor } from "obsidian";
 import type ChineseWriterPlugin from "./main";
+import type { H2Candidate } from "./types";
+import { PinyinCodec } from "./pinyin-codec";
+import { CompletionContextCodec } from "./completion-context-codec";
+import { SlashTriggerCodec } from "./slash-trigger-codec";
+import { CompletionUsageTracker } from "./completion-usage-tracker";
+
+/** 计算“最近提及”时向前查看的字符数 */
+const RECENT_MENTION_WINDOW = 3000;
 
 interface SlashQueryMatch {
   from: number;
   to: number;
   query: string;
+  /** 由快捷键触发（无前缀） */
+  manual: boolean;
+}
+
+/**
+ * 候选的命中评分：tier 越小越优先，position 为命中位置或模糊命中的跨度
+ */
+interface SlashCandidateScore {
+  tier: number;
+  position: number;
+  /** 经别名命中时记录该别名 */
+  alias: string | null;
 }
 
 interface SlashRuntimeHandle {
@@ -14,14 +35,21 @@ interface SlashRuntimeHandle {
   flipPage(delta: number): void;
   accept(): void;
   hide(): void;
+  openManually(): void;
 }
 
 export class SlashH2CompleteManager {
   private plugin: ChineseWriterPlugin;
   private runtimeByView: WeakMap<EditorView, SlashRuntimeHandle> = new WeakMap();
+  private pinyinCodec = new PinyinCodec();
+  private contextCodec = new CompletionContextCodec();
+  private triggerCodec = new SlashTriggerCodec();
+  private usageTracker: CompletionUsageTracker;
+  private contextCache: { doc: Text; from: number; candidates: number; scores: Map<string, number> } | null = null;
 
   constructor(plugin: ChineseWriterPlugin) {
     this.plugin = plugin;
+    this.usageTracker = new CompletionUsageTracker(plugin, "h2");
   }
 
   createEditorExtension() {
@@ -33,12 +61,14 @@ export class SlashH2CompleteManager {
         private popupEl: HTMLDivElement | null = null;
         private listEl: HTMLDivElement | null = null;
         private pageInfoEl: HTMLDivElement | null = null;
-        private candidates: string[] = [];
+        private candidates: H2Candidate[] = [];
         private activeIndex = 0;
         private replaceFrom = 0;
         private replaceTo = 0;
         private open = false;
         private lastQuery = "";
+        /** 快捷键触发时的查询起点 */
+        private manualAnchor: number | null = null;
 
         constructor(view: EditorView) {
           this.view = view;
@@ -47,12 +77,16 @@ export class SlashH2CompleteManager {
             move: (delta: number) => this.move(delta),
             flipPage: (delta: number) => this.flipPage(delta),
             accept: () => this.accept(),
-            hide: () => this.hide(),
+            hide: () => this.close(),
+            openManually: () => this.openManually(),
           });
           this.refresh();
         }
 
         update(update: ViewUpdate): void {
+          if (this.manualAnchor !== null && update.docChanged) {
+            this.manualAnchor = update.changes.mapPos(this.manualAnchor, -1);
+          }
           if (update.docChanged || update.selectionSet || update.focusChanged || update.viewportChanged) {
             this.refresh();
           }
@@ -64,21 +98,26 @@ export class SlashH2CompleteManager {
             return;
           }
           if (!this.view.hasFocus) {
-            this.hide();
+            this.close();
             return;
           }
 
-          const match = manager.detectSlashQuery(this.view);
+          const match = manager.detectSlashQuery(this.view, this.manualAnchor);
           if (!match) {
-            this.hide();
+            this.close();
             return;
           }
-          if (manager.shouldDeferToEnglishSnippet(match.query)) {
+          if (!match.manual && manager.isClaimedBySnippet(match.query)) {
             this.hide();
             return;
           }
 
-          const filtered = manager.filterCandidates(manager.plugin.getCurrentTreeH2Texts(), match.query);
+          const candidates = manager.plugin.getCurrentTreeH2Candidates();
+          const filtered = manager.filterCandidates(
+            candidates,
+            match.query,
+            manager.getRelevanceScores(this.view, match, candidates)
+          );
           if (filtered.length === 0) {
             this.hide();
             return;
@@ -138,7 +177,10 @@ export class SlashH2CompleteManager {
             const index = pageStart + offset;
             const rowEl = this.listEl!.createDiv({ cls: "cw-slash-h2-item" });
             rowEl.dataset.index = String(index);
-            rowEl.setText(item);
+            rowEl.createSpan({ cls: "cw-slash-h2-item-text", text: item.text });
+            if (item.detail) {
+              rowEl.createSpan({ cls: "cw-slash-h2-item-detail", text: item.detail });
+            }
             if (index === this.activeIndex) rowEl.addClass("is-active");
           });
 
@@ -233,7 +275,7 @@ export class SlashH2CompleteManager {
 
         private accept(): void {
           if (!this.open || this.candidates.length === 0) return;
-          const value = this.candidates[this.activeIndex];
+          const value = this.candidates[this.activeIndex]?.text;
           if (!value) return;
 
           this.view.dispatch({
@@ -241,6 +283,28 @@ export class SlashH2CompleteManager {
             selection: EditorSelection.cursor(this.replaceFrom + value.length),
             scrollIntoView: true,
           });
+          manager.usageTracker.record(this.view, value);
+          this.close();
+        }
+
+        /**
+         * 快捷键触发：有选中文本时以其为初始查询，否则从光标处开始查询
+         */
+        private openManually(): void {
+          this.view.focus();
+          const selection = this.view.state.selection.main;
+          if (!selection.empty) {
+            this.view.dispatch({ selection: EditorSelection.cursor(selection.to) });
+          }
+          this.manualAnchor = selection.from;
+          this.refresh();
+        }
+
+        /**
+         * 关闭候选栏并结束快捷键触发
+         */
+        private close(): void {
+          this.manualAnchor = null;
           this.hide();
         }
 
@@ -263,7 +327,7 @@ export class SlashH2CompleteManager {
       {
         eventHandlers: {
           blur(this: any) {
-            this.hide?.();
+            this.close?.();
             return false;
           },
         },
@@ -300,45 +364,199 @@ export class SlashH2CompleteManager {
     return true;
   }
 
-  private detectSlashQuery(view: EditorView): SlashQueryMatch | null {
+  /**
+   * 快捷键触发时，从触发位置到光标为查询，光标离开该行、退到触发位置之前或输入空白即结束；
+   * 否则匹配光标前的触发符
+   */
+  private detectSlashQuery(view: EditorView, manualAnchor: number | null): SlashQueryMatch | null {
     const selection = view.state.selection.main;
     if (!selection.empty) return null;
 
     const cursorPos = selection.head;
     const line = view.state.doc.lineAt(cursorPos);
-    const beforeCursor = line.text.slice(0, cursorPos - line.from);
-    const match = /\/\/([^\s/]*)$/.exec(beforeCursor);
-    if (!match) return null;
+    if (manualAnchor !== null) {
+      if (manualAnchor < line.from || manualAnchor > cursorPos) return null;
+      const query = view.state.sliceDoc(manualAnchor, cursorPos);
+      return /\s/.test(query) ? null : { from: manualAnchor, to: cursorPos, query, manual: true };
+    }
 
-    return { from: line.from + match.index, to: cursorPos, query: match[1] ?? "" };
+    const trigger = this.getTriggerText();
+    if (!trigger) return null;
+    const match = this.triggerCodec.match(line.text.slice(0, cursorPos - line.from), trigger);
+    if (!match) return null;
+    return { from: line.from + match.index, to: cursorPos, query: match.query, manual: false };
   }
 
-  private filterCandidates(values: string[], query: string): string[] {
+
+  /**
+   * 按命中程度排序：完全一致 > 原文前缀 > 拼音首字母前缀 > 全拼前缀 > 原文包含 > 拼音包含 > 模糊（按序包含）
+   * 前缀类与包含类内部先按相关度（上下文与使用热度）排序；同相关度再按命中程度、别名、位置与长度排序
+   */
+  private filterCandidates(values: H2Candidate[], query: string, relevanceScores: Map<string, number>): H2Candidate[] {
     const normalizedQuery = query.trim().toLowerCase();
-    const uniqueValues = Array.from(
-      new Set(values.map((item) => item.trim()).filter((item) => item.length > 0))
-    );
+    const uniqueByText = new Map<string, H2Candidate>();
+    for (const item of values) {
+      const text = item.text.trim();
+      if (text.length > 0 && !uniqueByText.has(text)) {
+        uniqueByText.set(text, { ...item, text });
+      }
+    }
+    const uniqueValues = Array.from(uniqueByText.values());
 
+    const getRelevance = (item: H2Candidate) => relevanceScores.get(item.text) ?? 0;
     if (!normalizedQuery) {
-      return uniqueValues.sort((a, b) => a.localeCompare(b, "zh-Hans-CN"));
+      return uniqueValues.sort((a, b) => {
+        const relevanceDiff = getRelevance(b) - getRelevance(a);
+        if (relevanceDiff !== 0) return relevanceDiff;
+        return a.text.localeCompare(b.text, "zh-Hans-CN");
+      });
+    }
+
+    const scored: Array<{ item: H2Candidate; score: SlashCandidateScore }> = [];
+    for (const item of uniqueValues) {
+      const score = this.scoreCandidate(item, normalizedQuery);
+      if (!score) continue;
+      const detail = score.alias ? [`别名：${score.alias}`, item.detail].filter((part) => part).join(" · ") : item.detail;
+      scored.push({ item: { ...item, detail }, score });
     }
+    scored.sort((entryA, entryB) => {
+      const bandDiff = this.getScoreBand(entryA.score) - this.getScoreBand(entryB.score);
+      if (bandDiff !== 0) return bandDiff;
 
-    const filtered = uniqueValues.filter((item) => item.toLowerCase().includes(normalizedQuery));
-    filtered.sort((a, b) => {
-      const aLower = a.toLowerCase();
-      const bLower = b.toLowerCase();
-      const aStarts = aLower.startsWith(normalizedQuery) ? 0 : 1;
-      const bStarts = bLower.startsWith(normalizedQuery) ? 0 : 1;
-      if (aStarts !== bStarts) return aStarts - bStarts;
+      const relevanceDiff = getRelevance(entryB.item) - getRelevance(entryA.item);
+      if (relevanceDiff !== 0) return relevanceDiff;
 
-      const aIndex = aLower.indexOf(normalizedQuery);
-      const bIndex = bLower.indexOf(normalizedQuery);
-      if (aIndex !== bIndex) return aIndex - bIndex;
+      const scoreDiff = this.compareScore(entryA.score, entryB.score);
+      if (scoreDiff !== 0) return scoreDiff;
 
+      const a = entryA.item.text;
+      const b = entryB.item.text;
       if (a.length !== b.length) return a.length - b.length;
       return a.localeCompare(b, "zh-Hans-CN");
     });
-    return filtered;
+    return scored.map((entry) => entry.item);
+  }
+
+  /**
+   * 在标题与别名中取最好的命中
+   */
+  private scoreCandidate(item: H2Candidate, query: string): SlashCandidateScore | null {
+    const names = [item.text, ...(item.aliases ?? [])];
+    let best: SlashCandidateScore | null = null;
+    for (let i = 0; i < names.length; i++) {
+      const name = names[i] ?? "";
+      const nameScore = this.scoreName(name, query);
+      if (!nameScore) continue;
+      const score: SlashCandidateScore = { ...nameScore, alias: i > 0 ? name : null };
+      if (!best || this.compareScore(score, best) < 0) best = score;
+    }
+    return best;
+  }
+
+  private scoreName(name: string, query: string): Omit<SlashCandidateScore, "alias"> | null {
+    const lower = name.toLowerCase();
+    if (lower === query) return { tier: 0, position: 0 };
+
+    const directIndex = lower.indexOf(query);
+    if (directIndex === 0) return { tier: 1, position: 0 };
+
+    const pinyinMatch = this.pinyinCodec.matchPinyin(name, query);
+    if (pinyinMatch && pinyinMatch.from === 0) {
+      return { tier: pinyinMatch.kind === "initials" ? 2 : 3, position: 0 };
+    }
+    if (directIndex > 0) return { tier: 4, position: directIndex };
+    if (pinyinMatch) return { tier: 5, position: pinyinMatch.from };
+
+    if (query.length < 2) return null;
+    const fuzzySpan = this.getFuzzySpan(lower, query) ?? this.getFuzzySpan(this.pinyinCodec.getInitials(name), query);
+    return fuzzySpan === null ? null : { tier: 6, position: fuzzySpan };
+  }
+
+  /**
+   * 查询字符按序出现在文本中时，返回覆盖的跨度（越小越接近连续命中）
+   */
+  private getFuzzySpan(text: string, query: string): number | null {
+    let start = -1;
+    let cursor = 0;
+    for (const char of query) {
+      const index = text.indexOf(char, cursor);
+      if (index === -1) return null;
+      if (start === -1) start = index;
+      cursor = index + 1;
+    }
+    return cursor - start;
+  }
+
+  /**
+   * 命中档位分组：完全一致、前缀类（原文 / 首字母 / 全拼）、包含与模糊类
+   */
+  private getScoreBand(score: SlashCandidateScore): number {
+    if (score.tier === 0) return 0;
+    return score.tier <= 3 ? 1 : 2;
+  }
+
+  private compareScore(a: SlashCandidateScore, b: SlashCandidateScore): number {
+    if (a.tier !== b.tier) return a.tier - b.tier;
+    const aFromAlias = a.alias ? 1 : 0;
+    const bFromAlias = b.alias ? 1 : 0;
+    if (aFromAlias !== bFromAlias) return aFromAlias - bFromAlias;
+    return a.position - b.position;
+  }
+
+  /**
+   * 候选的相关度：上下文得分与使用热度之和
+   */
+  private getRelevanceScores(
+    view: EditorView,
+    match: SlashQueryMatch,
+    candidates: H2Candidate[]
+  ): Map<string, number> {
+    const scores = new Map(this.getContextScores(view, match, candidates));
+    for (const [text, usage] of this.usageTracker.getScores(view)) {
+      scores.set(text, (scores.get(text) ?? 0) + usage);
+    }
+    return scores;
+  }
+
+  /**
+   * 上下文得分：本段提及 +3，仅本章提及 +1；光标前最近提及按距离给 0~2；前文提示词暗示的分类 +3
+   * 同一位置重复刷新时复用结果
+   */
+  private getContextScores(
+    view: EditorView,
+    match: SlashQueryMatch,
+    candidates: H2Candidate[]
+  ): Map<string, number> {
+    const doc = view.state.doc;
+    const cached = this.contextCache;
+    if (cached && cached.doc === doc && cached.from === match.from && cached.candidates === candidates.length) {
+      return cached.scores;
+    }
+
+    const line = doc.lineAt(match.from);
+    const lineBefore = line.text.slice(0, match.from - line.from);
+    const paragraph = `${lineBefore}\n${line.text.slice(match.to - line.from)}`;
+    const chapter = `${doc.sliceString(0, match.from)}\n${doc.sliceString(match.to)}`;
+    const above = doc.sliceString(Math.max(0, match.from - RECENT_MENTION_WINDOW), match.from);
+    const categoryHint = this.contextCodec.getCategoryHint(lineBefore);
+
+    const scores = new Map<string, number>();
+    for (const item of candidates) {
+      // 单字名称在正文中过于常见，不作为提及依据
+      const names = [item.text, ...(item.aliases ?? [])].filter((name) => name.length >= 2);
+      let score = 0;
+      if (names.some((name) => paragraph.includes(name))) score += 3;
+      else if (names.some((name) => chapter.includes(name))) score += 1;
+
+      const lastMention = this.contextCodec.findLastMention(above, names);
+      if (lastMention !== -1) score += (2 * lastMention) / above.length;
+
+      if (categoryHint && this.contextCodec.matchesCategory(item.category, categoryHint)) score += 3;
+      if (score > 0) scores.set(item.text.trim(), score);
+    }
+
+    this.contextCache = { doc, from: match.from, candidates: candidates.length, scores };
+    return scores;
   }
 
   private getPageSize(): number {
@@ -347,9 +565,29 @@ export class SlashH2CompleteManager {
     return Math.max(1, Math.floor(configured));
   }
 
-  private shouldDeferToEnglishSnippet(query: string): boolean {
-    if (!this.plugin.settings.enableSlashSnippetCandidateBar) return false;
-    if (!query) return false;
-    return /^[A-Za-z]+$/.test(query);
+  /**
+   * 在光标处打开候选栏（快捷键触发），未启用时返回 false
+   */
+  openByHotkey(editor: Editor): boolean {
+    const view = (editor as unknown as { cm?: EditorView }).cm;
+    if (!view) return false;
+    if (!this.plugin.settings.enableSlashH2CandidateBar) return false;
+    const runtime = this.runtimeByView.get(view);
+    if (!runtime) return false;
+    runtime.openManually();
+    return true;
+  }
+
+  private getTriggerText(): string | null {
+    const settings = this.plugin.settings;
+    return this.triggerCodec.getTriggerText(settings.slashH2TriggerMode, settings.slashH2CustomTrigger);
+  }
+
+  /**
+   * 与文本片段共用触发符时，输入归文本片段候选栏则让出，归属规则见 SlashSnippetCompleteManager.claimQuery
+   */
+  private isClaimedBySnippet(query: string): boolean {
+    const snippetManager = this.plugin.slashSnippetCompleteManager;
+    return snippetManager.sharesTriggerWithH2() && snippetManager.claimQuery(query) !== null;
   }
 }
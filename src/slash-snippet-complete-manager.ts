@@ -1,12 +1,21 @@
-import { EditorSelection, Prec } from "@codemirror/state";
+import { Prec } from "@codemirror/state";
 import { EditorView, ViewPlugin, ViewUpdate, keymap } from "@codemirror/view";
-import { TFile, TFolder } from "obsidian";
+import { Editor, TFile, TFolder, editorInfoField } from "obsidian";
 import type ChineseWriterPlugin from "./main";
+import { SnippetTemplateCodec, type SnippetExpansion } from "./snippet-template-codec";
+import { SnippetTabStopManager } from "./snippet-tab-stop-manager";
+import { SlashTriggerCodec } from "./slash-trigger-codec";
+import { CompletionUsageTracker } from "./completion-usage-tracker";
+
+/** 片段关键字：除空白、“@”与“/”外的任意字符，如 mbsx、对话、fight_scene、场景2 */
+const SNIPPET_KEY_PATTERN = /^[^\s@/]+$/;
 
 interface SlashQueryMatch {
   from: number;
   to: number;
   query: string;
+  /** 由快捷键触发（无前缀） */
+  manual: boolean;
 }
 
 interface SnippetItem {
@@ -22,6 +31,7 @@ interface SlashRuntimeHandle {
   flipPage(delta: number): void;
   accept(): void;
   hide(): void;
+  openManually(): void;
 }
 
 export type SlashSnippetReloadStatus = "ok" | "missing-path" | "invalid-folder" | "error";
@@ -36,9 +46,14 @@ export class SlashSnippetCompleteManager {
   private plugin: ChineseWriterPlugin;
   private runtimeByView: WeakMap<EditorView, SlashRuntimeHandle> = new WeakMap();
   private snippets: SnippetItem[] = [];
+  private templateCodec = new SnippetTemplateCodec();
+  private tabStopManager = new SnippetTabStopManager();
+  private triggerCodec = new SlashTriggerCodec();
+  private usageTracker: CompletionUsageTracker;
 
   constructor(plugin: ChineseWriterPlugin) {
     this.plugin = plugin;
+    this.usageTracker = new CompletionUsageTracker(plugin, "snippet");
   }
 
   createEditorExtension() {
@@ -56,6 +71,10 @@ export class SlashSnippetCompleteManager {
         private replaceTo = 0;
         private open = false;
         private lastQuery = "";
+        /** 快捷键触发时的查询起点 */
+        private manualAnchor: number | null = null;
+        /** 输入触发符或按快捷键时被替换掉的选中文本及其位置，供 {$selection} 使用 */
+        private replacedSelection: { text: string; pos: number } | null = null;
 
         constructor(view: EditorView) {
           this.view = view;
@@ -64,12 +83,19 @@ export class SlashSnippetCompleteManager {
             move: (delta: number) => this.move(delta),
             flipPage: (delta: number) => this.flipPage(delta),
             accept: () => this.accept(),
-            hide: () => this.hide(),
+            hide: () => this.close(),
+            openManually: () => this.openManually(),
           });
           this.refresh();
         }
 
         update(update: ViewUpdate): void {
+          if (this.manualAnchor !== null && update.docChanged) {
+            this.manualAnchor = update.changes.mapPos(this.manualAnchor, -1);
+          }
+          if (update.docChanged) {
+            this.captureReplacedSelection(update);
+          }
           if (update.docChanged || update.selectionSet || update.focusChanged || update.viewportChanged) {
             this.refresh();
           }
@@ -81,17 +107,23 @@ export class SlashSnippetCompleteManager {
             return;
           }
           if (!this.view.hasFocus) {
-            this.hide();
+            this.close();
             return;
           }
 
-          const match = manager.detectSlashQuery(this.view);
+          const match = manager.detectSlashQuery(this.view, this.manualAnchor);
           if (!match) {
+            this.close();
+            return;
+          }
+
+          const snippetQuery = match.manual ? match.query : manager.claimQuery(match.query);
+          if (snippetQuery === null) {
             this.hide();
             return;
           }
 
-          const filtered = manager.filterCandidates(match.query);
+          const filtered = manager.filterCandidates(snippetQuery, manager.usageTracker.getScores(this.view));
           if (filtered.length === 0) {
             this.hide();
             return;
@@ -247,13 +279,47 @@ export class SlashSnippetCompleteManager {
           if (!this.open || this.candidates.length === 0) return;
           const selected = this.candidates[this.activeIndex];
           if (!selected) return;
-          const resolved = manager.resolveSnippetInsert(selected.content);
+          const selection = this.replacedSelection?.pos === this.replaceFrom ? this.replacedSelection.text : "";
+          const expansion = manager.expandSnippet(this.view, selected.content, selection);
 
-          this.view.dispatch({
-            changes: { from: this.replaceFrom, to: this.replaceTo, insert: resolved.text },
-            selection: EditorSelection.cursor(this.replaceFrom + resolved.cursorOffset),
-            scrollIntoView: true,
-          });
+          this.close();
+          this.replacedSelection = null;
+          manager.tabStopManager.insert(this.view, this.replaceFrom, this.replaceTo, expansion);
+          manager.usageTracker.record(this.view, selected.key);
+        }
+
+        /**
+         * 快捷键触发：有选中文本时先删除并留作 {$selection}，再从光标处开始查询
+         */
+        private openManually(): void {
+          this.view.focus();
+          const selection = this.view.state.selection.main;
+          if (!selection.empty) {
+            this.replacedSelection = { text: this.view.state.sliceDoc(selection.from, selection.to), pos: selection.from };
+            this.view.dispatch({ changes: { from: selection.from, to: selection.to }, userEvent: "delete.selection" });
+          }
+          this.manualAnchor = this.view.state.selection.main.head;
+          this.refresh();
+        }
+
+        private captureReplacedSelection(update: ViewUpdate): void {
+          const triggerChar = manager.getTriggerText()?.charAt(0);
+          if (!triggerChar) return;
+          for (const tr of update.transactions) {
+            if (!tr.isUserEvent("input.type")) continue;
+            tr.changes.iterChanges((fromA, toA, fromB, _toB, inserted) => {
+              if (toA > fromA && inserted.toString() === triggerChar) {
+                this.replacedSelection = { text: tr.startState.sliceDoc(fromA, toA), pos: fromB };
+              }
+            });
+          }
+        }
+
+        /**
+         * 关闭候选栏并结束快捷键触发
+         */
+        private close(): void {
+          this.manualAnchor = null;
           this.hide();
         }
 
@@ -276,7 +342,7 @@ export class SlashSnippetCompleteManager {
       {
         eventHandlers: {
           blur(this: any) {
-            this.hide?.();
+            this.close?.();
             return false;
           },
         },
@@ -294,7 +360,7 @@ export class SlashSnippetCompleteManager {
       ])
     );
 
-    return [popupPlugin, slashKeymap];
+    return [popupPlugin, slashKeymap, this.tabStopManager.createEditorExtension()];
   }
 
   async reloadSnippets(): Promise<SlashSnippetReloadResult> {
@@ -366,23 +432,88 @@ export class SlashSnippetCompleteManager {
     return true;
   }
 
-  private detectSlashQuery(view: EditorView): SlashQueryMatch | null {
+  /**
+   * 快捷键触发时，从触发位置到光标为查询，光标离开该行、退到触发位置之前或输入空白即结束；
+   * 否则匹配光标前的触发符
+   */
+  private detectSlashQuery(view: EditorView, manualAnchor: number | null): SlashQueryMatch | null {
     const selection = view.state.selection.main;
     if (!selection.empty) return null;
 
     const cursorPos = selection.head;
     const line = view.state.doc.lineAt(cursorPos);
-    const beforeCursor = line.text.slice(0, cursorPos - line.from);
-    const match = /\/\/([A-Za-z]+)$/.exec(beforeCursor);
+    if (manualAnchor !== null) {
+      if (manualAnchor < line.from || manualAnchor > cursorPos) return null;
+      const query = view.state.sliceDoc(manualAnchor, cursorPos);
+      return /\s/.test(query) ? null : { from: manualAnchor, to: cursorPos, query, manual: true };
+    }
+
+    const trigger = this.getTriggerText();
+    if (!trigger) return null;
+    const match = this.triggerCodec.match(line.text.slice(0, cursorPos - line.from), trigger);
     if (!match) return null;
+    return { from: line.from + match.index, to: cursorPos, query: match.query, manual: false };
+  }
 
-    return { from: line.from + match.index, to: cursorPos, query: match[1] ?? "" };
+
+  /**
+   * 在光标处打开候选栏（快捷键触发），未启用时返回 false
+   */
+  openByHotkey(editor: Editor): boolean {
+    const view = (editor as unknown as { cm?: EditorView }).cm;
+    if (!view) return false;
+    if (!this.plugin.settings.enableSlashSnippetCandidateBar) return false;
+    const runtime = this.runtimeByView.get(view);
+    if (!runtime) return false;
+    runtime.openManually();
+    return true;
+  }
+
+  /**
+   * 当前设置下的触发符，仅快捷键触发时为 null
+   */
+  getTriggerText(): string | null {
+    const settings = this.plugin.settings;
+    return this.triggerCodec.getTriggerText(settings.slashSnippetTriggerMode, settings.slashSnippetCustomTrigger);
+  }
+
+  /**
+   * 文本片段与设定候选栏是否使用同一触发符
+   */
+  sharesTriggerWithH2(): boolean {
+    const settings = this.plugin.settings;
+    const trigger = this.getTriggerText();
+    return trigger !== null && trigger === this.triggerCodec.getTriggerText(settings.slashH2TriggerMode, settings.slashH2CustomTrigger);
+  }
+
+  /**
+   * 触发符后输入的归属，文本片段与设定候选栏共用此规则，保证同一输入只弹出一个候选栏：
+   * 设置了片段前缀时，以前缀开头的输入归文本片段，返回去掉前缀后的查询；
+   * 未设置前缀且两者触发符不同时，输入全部归文本片段；
+   * 触发符相同时，有片段关键字以该输入开头（忽略大小写）即归文本片段；其余输入返回 null，交给设定候选栏
+   */
+  claimQuery(query: string): string | null {
+    if (!this.plugin.settings.enableSlashSnippetCandidateBar) return null;
+
+    const prefix = this.plugin.settings.slashSnippetTriggerPrefix.trim();
+    if (prefix) {
+      return query.startsWith(prefix) ? query.slice(prefix.length) : null;
+    }
+    if (!this.sharesTriggerWithH2()) return query;
+
+    const normalized = query.trim().toLowerCase();
+    if (!normalized) return null;
+    return this.snippets.some((item) => item.key.toLowerCase().startsWith(normalized)) ? query : null;
   }
 
-  private filterCandidates(query: string): SnippetItem[] {
+  /**
+   * 前缀命中优先于包含命中；同类中先按使用热度排序，再按命中位置、长度与片段顺序
+   */
+  private filterCandidates(query: string, usageScores: Map<string, number>): SnippetItem[] {
     const normalized = query.trim().toLowerCase();
+    const getUsage = (item: SnippetItem) => usageScores.get(item.key) ?? 0;
     if (!normalized) {
-      return [...this.snippets].sort((a, b) => a.order - b.order);
+      return [...this.snippets].sort((a, b) => getUsage(b) - getUsage(a) || a.order - b.order);
     }
 
     const filtered = this.snippets.filter((item) => item.key.toLowerCase().includes(normalized));
@@ -393,6 +524,9 @@ export class SlashSnippetCompleteManager {
       const bStarts = bLower.startsWith(normalized) ? 0 : 1;
       if (aStarts !== bStarts) return aStarts - bStarts;
 
+      const usageDiff = getUsage(b) - getUsage(a);
+      if (usageDiff !== 0) return usageDiff;
+
       const aIndex = aLower.indexOf(normalized);
       const bIndex = bLower.indexOf(normalized);
       if (aIndex !== bIndex) return aIndex - bIndex;
@@ -421,8 +555,8 @@ export class SlashSnippetCompleteManager {
     const flush = () => {
       if (!currentKey) return;
       const key = currentKey.trim();
-      const preview = this.stripCursorMarker(currentPreview).trim();
-      if (!/^[A-Za-z]+$/.test(key)) {
+      const preview = this.templateCodec.toPreview(currentPreview).trim();
+      if (!SNIPPET_KEY_PATTERN.test(key)) {
         currentKey = "";
         currentPreview = "";
         currentContentLines = [];
@@ -449,7 +583,7 @@ export class SlashSnippetCompleteManager {
     };
 
     for (const line of lines) {
-      const headingMatch = /^##\s+([A-Za-z]+)(?:@(.*))?\s*$/.exec(line.trim());
+      const headingMatch = /^##\s+([^\s@/]+)(?:@(.*))?\s*$/.exec(line.trim());
       if (headingMatch) {
         flush();
         currentKey = headingMatch[1] ?? "";
@@ -475,26 +609,15 @@ export class SlashSnippetCompleteManager {
   }
 
   private buildPreviewFromContent(content: string): string {
-    return this.stripCursorMarker(content).replace(/\s+/g, " ").trim();
-  }
-
-  private resolveSnippetInsert(raw: string): { text: string; cursorOffset: number } {
-    const marker = "{$cursor}";
-    const firstMarkerIndex = raw.indexOf(marker);
-    const markerLength = marker.length;
-    let text = raw;
-
-    if (firstMarkerIndex >= 0) {
-      text = `${raw.slice(0, firstMarkerIndex)}${raw.slice(firstMarkerIndex + markerLength)}`;
-    }
-    text = text.split(marker).join("");
-
-    const cursorOffset = firstMarkerIndex >= 0 ? firstMarkerIndex : text.length;
-    return { text, cursorOffset };
+    return this.templateCodec.toPreview(content).replace(/\s+/g, " ").trim();
   }
 
-  private stripCursorMarker(text: string): string {
-    return text.split("{$cursor}").join("");
+  private expandSnippet(view: EditorView, content: string, selection: string): SnippetExpansion {
+    const file = view.state.field(editorInfoField, false)?.file;
+    return this.templateCodec.expand(content, {
+      selection,
+      chapterNumber: file ? this.plugin.chapterManager.extractChapterNumber(file.basename) : null,
+      now: new Date(),
+    });
   }
-
 }
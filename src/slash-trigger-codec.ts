@@ -0,0 +1,61 @@
+import type { SlashTriggerMode } from "./settings";
+
+/**
+ * 触发方式的说明文字
+ */
+export const SLASH_TRIGGER_MODE_LABELS: Record<SlashTriggerMode, string> = {
+  slash: "//",
+  "fullwidth-slash": "／／（全角斜杠）",
+  dunhao: "、、（顿号）",
+  custom: "自定义单个字符",
+  hotkey: "仅快捷键（无前缀）",
+};
+
+const PRESET_TRIGGERS: Partial<Record<SlashTriggerMode, string>> = {
+  slash: "//",
+  "fullwidth-slash": "／／",
+  dunhao: "、、",
+};
+
+/**
+ * 触发符后的输入
+ */
+export interface SlashTriggerMatch {
+  /** 触发符在行内的起始位置 */
+  index: number;
+  query: string;
+}
+
+/**
+ * 候选栏触发符解析
+ */
+export class SlashTriggerCodec {
+  /**
+   * 实际的触发符；仅快捷键或自定义字符为空时返回 null
+   */
+  getTriggerText(mode: SlashTriggerMode, customChar: string): string | null {
+    if (mode === "hotkey") return null;
+    if (mode === "custom") {
+      const char = Array.from(customChar.trim())[0];
+      return char && !/\s/.test(char) ? char : null;
+    }
+    return PRESET_TRIGGERS[mode] ?? "//";
+  }
+
+  /**
+   * 匹配光标前文本末尾的“触发符 + 查询”，查询中不含空白与触发符中的字符
+   */
+  match(beforeCursor: string, trigger: string): SlashTriggerMatch | null {
+    const escapedChars = Array.from(new Set(Array.from(trigger))).map((char) => this.escapeRegExp(char)).join("");
+    const pattern = new RegExp(`${this.escapeRegExp(trigger)}([^\\s${escapedChars}]*)$`);
+    const match = pattern.exec(beforeCursor);
+    if (!match) return null;
+    // 网址中的“://”不算触发
+    if (trigger === "//" && beforeCursor.charAt(match.index - 1) === ":") return null;
+    return { index: match.index, query: match[1] ?? "" };
+  }
+
+  private escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\/-]/g, "\\$&");
+  }
+}
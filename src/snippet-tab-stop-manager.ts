@@ -0,0 +1,198 @@
+import { EditorSelection, Prec, StateEffect, StateField } from "@codemirror/state";
+import type { ChangeDesc, Extension } from "@codemirror/state";
+import { Decoration, EditorView, keymap } from "@codemirror/view";
+import type { DecorationSet } from "@codemirror/view";
+import { Menu } from "obsidian";
+import type { SnippetExpansion } from "./snippet-template-codec";
+
+interface TabStopField {
+  ranges: Array<{ from: number; to: number }>;
+  choices: string[];
+}
+
+/**
+ * 进行中的片段跳转：fields 的最后一项为结束位置，跳到它即结束
+ */
+interface SnippetSession {
+  fields: TabStopField[];
+  active: number;
+  /** 整段插入文本的范围，用于判断光标是否已离开片段 */
+  from: number;
+  to: number;
+}
+
+const startSessionEffect = StateEffect.define<SnippetSession>();
+const moveSessionEffect = StateEffect.define<number>();
+const endSessionEffect = StateEffect.define<null>();
+
+function mapSession(session: SnippetSession, changes: ChangeDesc): SnippetSession {
+  return {
+    ...session,
+    fields: session.fields.map((field) => ({
+      ...field,
+      ranges: field.ranges.map((range) => ({
+        from: changes.mapPos(range.from, -1),
+        to: changes.mapPos(range.to, 1),
+      })),
+    })),
+    from: changes.mapPos(session.from, -1),
+    to: changes.mapPos(session.to, 1),
+  };
+}
+
+const sessionField = StateField.define<SnippetSession | null>({
+  create: () => null,
+  update(session, tr) {
+    for (const effect of tr.effects) {
+      if (effect.is(startSessionEffect)) return effect.value;
+      if (effect.is(endSessionEffect)) return null;
+    }
+    if (!session) return null;
+
+    let next = tr.docChanged ? mapSession(session, tr.changes) : session;
+    // 整段片段被删除（如撤销插入）时结束
+    if (session.to > session.from && next.to <= next.from) return null;
+    for (const effect of tr.effects) {
+      if (effect.is(moveSessionEffect)) next = { ...next, active: effect.value };
+    }
+
+    const main = tr.state.selection.main;
+    if (tr.selection && (main.from < next.from || main.to > next.to)) return null;
+    return next;
+  },
+  provide: (field) =>
+    EditorView.decorations.from(field, (session): DecorationSet => {
+      if (!session) return Decoration.none;
+      const marks = session.fields.slice(0, -1).flatMap((field, index) =>
+        field.ranges
+          .filter((range) => range.to > range.from)
+          .map((range) =>
+            Decoration.mark({
+              class: index === session.active ? "cw-snippet-tab-stop is-active" : "cw-snippet-tab-stop",
+            }).range(range.from, range.to)
+          )
+      );
+      return Decoration.set(marks, true);
+    }),
+});
+
+/**
+ * 文本片段跳转点：插入后 Tab / Shift+Tab 在跳转点间移动，Esc 退出
+ * 插入文本、选中第一个跳转点与开始跳转在同一事务中完成，撤销一次即可撤回整个片段
+ */
+export class SnippetTabStopManager {
+  createEditorExtension(): Extension {
+    return [
+      sessionField,
+      Prec.highest(
+        keymap.of([
+          { key: "Tab", run: (view) => this.moveBy(view, 1) },
+          { key: "Shift-Tab", run: (view) => this.moveBy(view, -1) },
+          { key: "Escape", run: (view) => this.endSession(view) },
+        ])
+      ),
+    ];
+  }
+
+  /**
+   * 用展开后的片段替换 [from, to)；有跳转点时进入跳转状态
+   */
+  insert(view: EditorView, from: number, to: number, expansion: SnippetExpansion): void {
+    const shift = (range: { from: number; to: number }) => ({ from: from + range.from, to: from + range.to });
+    const stops = expansion.tabStops.filter((stop) => stop.index > 0);
+
+    if (stops.length === 0) {
+      view.dispatch({
+        changes: { from, to, insert: expansion.text },
+        selection: EditorSelection.cursor(from + expansion.cursorOffset),
+        scrollIntoView: true,
+        userEvent: "input.complete",
+      });
+      return;
+    }
+
+    const finalStop = expansion.tabStops.find((stop) => stop.index === 0);
+    const fields: TabStopField[] = [
+      ...stops.map((stop) => ({ ranges: stop.ranges.map(shift), choices: stop.choices })),
+      {
+        ranges: finalStop
+          ? finalStop.ranges.map(shift)
+          : [{ from: from + expansion.text.length, to: from + expansion.text.length }],
+        choices: [],
+      },
+    ];
+    const session: SnippetSession = { fields, active: 0, from, to: from + expansion.text.length };
+
+    view.dispatch({
+      changes: { from, to, insert: expansion.text },
+      selection: this.getFieldSelection(fields[0]!),
+      effects: startSessionEffect.of(session),
+      scrollIntoView: true,
+      userEvent: "input.complete",
+    });
+    this.showChoices(view);
+  }
+
+  private moveBy(view: EditorView, delta: number): boolean {
+    const session = view.state.field(sessionField, false);
+    if (!session) return false;
+
+    const target = Math.max(0, session.active + delta);
+    const field = session.fields[target];
+    if (!field) return this.endSession(view);
+
+    const isFinal = target === session.fields.length - 1;
+    view.dispatch({
+      selection: this.getFieldSelection(field),
+      effects: isFinal ? endSessionEffect.of(null) : moveSessionEffect.of(target),
+      scrollIntoView: true,
+    });
+    if (!isFinal) this.showChoices(view);
+    return true;
+  }
+
+  private endSession(view: EditorView): boolean {
+    if (!view.state.field(sessionField, false)) return false;
+    view.dispatch({ effects: endSessionEffect.of(null) });
+    return true;
+  }
+
+  /**
+   * 当前跳转点有可选值时，在其下方弹出菜单；选中后替换该跳转点的所有位置
+   */
+  private showChoices(view: EditorView): void {
+    const session = view.state.field(sessionField, false);
+    const field = session?.fields[session.active];
+    const anchor = field?.ranges[0];
+    if (!field || !anchor || field.choices.length === 0) return;
+
+    const coords = view.coordsAtPos(anchor.from);
+    if (!coords) return;
+
+    const menu = new Menu();
+    for (const choice of field.choices) {
+      menu.addItem((item) => item.setTitle(choice).onClick(() => this.applyChoice(view, choice)));
+    }
+    menu.showAtPosition({ x: coords.left, y: coords.bottom });
+  }
+
+  private applyChoice(view: EditorView, choice: string): void {
+    const session = view.state.field(sessionField, false);
+    const field = session?.fields[session.active];
+    if (!field) return;
+
+    const changes = view.state.changes(field.ranges.map((range) => ({ ...range, insert: choice })));
+    view.dispatch({
+      changes,
+      selection: EditorSelection.create(
+        field.ranges.map((range) => EditorSelection.range(changes.mapPos(range.from, -1), changes.mapPos(range.to, 1)))
+      ),
+      userEvent: "input.complete",
+    });
+    view.focus();
+  }
+
+  private getFieldSelection(field: TabStopField): EditorSelection {
+    return EditorSelection.create(field.ranges.map((range) => EditorSelection.range(range.from, range.to)));
+  }
+}
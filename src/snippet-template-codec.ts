@@ -0,0 +1,135 @@
+/**
+ * 展开后的一个跳转点；同序号的多处位置同时编辑
+ */
+export interface SnippetTabStop {
+  index: number;
+  ranges: Array<{ from: number; to: number }>;
+  /** 可选值列表，为空表示普通跳转点 */
+  choices: string[];
+}
+
+/**
+ * 模板展开结果，位置均相对于插入起点
+ */
+export interface SnippetExpansion {
+  text: string;
+  /** 按跳转顺序排列：1、2、3……，最后为 {$0} / {$cursor} */
+  tabStops: SnippetTabStop[];
+  /** 插入后光标的初始位置 */
+  cursorOffset: number;
+}
+
+/**
+ * 展开时可用的变量值
+ */
+export interface SnippetTemplateContext {
+  /** 输入触发符或按快捷键前选中的文本 */
+  selection: string;
+  /** 当前章节序号，非章节文件为 null */
+  chapterNumber: number | null;
+  now: Date;
+}
+
+type SnippetVariable = "date" | "time" | "datetime" | "chapter" | "selection";
+
+const VARIABLE_LABELS: Record<SnippetVariable, string> = {
+  date: "日期",
+  time: "时间",
+  datetime: "日期时间",
+  chapter: "章节号",
+  selection: "选中文本",
+};
+
+/**
+ * {$cursor}、{$0}、{$1}、{$1:默认值}、{$1|甲,乙,丙}，以及 {$date} 等变量
+ * 默认值中可以再使用变量，如 {$1:{$selection}}
+ */
+const TOKEN_PATTERN =
+  /\{\$(cursor|\d+|date|time|datetime|chapter|selection)(?::((?:[^{}]|\{\$[a-z]+\})*)|\|([^{}]*))?\}/g;
+const VARIABLE_PATTERN = /\{\$(date|time|datetime|chapter|selection)\}/g;
+
+/**
+ * 文本片段模板解析
+ */
+export class SnippetTemplateCodec {
+  expand(raw: string, context: SnippetTemplateContext): SnippetExpansion {
+    const stopsByIndex = new Map<number, SnippetTabStop>();
+    let text = "";
+    let lastIndex = 0;
+
+    const pattern = new RegExp(TOKEN_PATTERN.source, "g");
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(raw)) !== null) {
+      text += raw.slice(lastIndex, match.index);
+      lastIndex = match.index + match[0].length;
+
+      const name = match[1] ?? "";
+      if (this.isVariable(name)) {
+        text += this.resolveVariable(name, context);
+        continue;
+      }
+
+      const index = name === "cursor" ? 0 : Number.parseInt(name, 10);
+      const choices = (match[3] ?? "")
+        .split(/[,，]/)
+        .map((choice) => choice.trim())
+        .filter((choice) => choice.length > 0);
+      const value = choices[0] ?? this.replaceVariables(match[2] ?? "", context);
+
+      const stop = stopsByIndex.get(index) ?? { index, ranges: [], choices: [] };
+      if (stop.choices.length === 0) stop.choices = choices;
+      stop.ranges.push({ from: text.length, to: text.length + value.length });
+      stopsByIndex.set(index, stop);
+      text += value;
+    }
+    text += raw.slice(lastIndex);
+
+    const tabStops = Array.from(stopsByIndex.values()).sort((a, b) => {
+      if (a.index === 0) return 1;
+      if (b.index === 0) return -1;
+      return a.index - b.index;
+    });
+    const cursorOffset = tabStops[0]?.ranges[0]?.from ?? text.length;
+    return { text, tabStops, cursorOffset };
+  }
+
+  /**
+   * 预览用文本：跳转点显示默认值或第一个可选值，变量显示为“〈日期〉”这类说明
+   */
+  toPreview(raw: string): string {
+    return raw.replace(TOKEN_PATTERN, (_token, name: string, defaultValue?: string, choiceList?: string) => {
+      if (this.isVariable(name)) return `〈${VARIABLE_LABELS[name]}〉`;
+      const firstChoice = choiceList?.split(/[,，]/)[0]?.trim();
+      if (firstChoice) return firstChoice;
+      return (defaultValue ?? "").replace(VARIABLE_PATTERN, (_variable, variableName: SnippetVariable) =>
+        `〈${VARIABLE_LABELS[variableName]}〉`
+      );
+    });
+  }
+
+  private replaceVariables(text: string, context: SnippetTemplateContext): string {
+    return text.replace(VARIABLE_PATTERN, (_variable, name: SnippetVariable) => this.resolveVariable(name, context));
+  }
+
+  private resolveVariable(name: SnippetVariable, context: SnippetTemplateContext): string {
+    const pad = (value: number) => String(value).padStart(2, "0");
+    const date = `${context.now.getFullYear()}-${pad(context.now.getMonth() + 1)}-${pad(context.now.getDate())}`;
+    const time = `${pad(context.now.getHours())}:${pad(context.now.getMinutes())}`;
+    switch (name) {
+      case "date":
+        return date;
+      case "time":
+        return time;
+      case "datetime":
+        return `${date} ${time}`;
+      case "chapter":
+        return context.chapterNumber === null ? "" : String(context.chapterNumber);
+      case "selection":
+        return context.selection;
+    }
+  }
+
+  private isVariable(name: string): name is SnippetVariable {
+    return Object.prototype.hasOwnProperty.call(VARIABLE_LABELS, name);
+  }
+}
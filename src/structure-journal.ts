@@ -0,0 +1,219 @@
+import { Notice, TFile } from "obsidian";
+import type ChineseWriterPlugin from "./main";
+
+/** 最多保留的操作条数 */
+const HISTORY_LIMIT = 30;
+
+/**
+ * 一个文件在操作前后的内容，null 表示文件不存在
+ */
+export interface StructureFileChange {
+  path: string;
+  before: string | null;
+  after: string | null;
+}
+
+/**
+ * 设定视图中的一次结构操作
+ */
+export interface StructureJournalEntry {
+  id: number;
+  label: string;
+  timestamp: number;
+  changes: StructureFileChange[];
+  /** 集合重命名：撤销时改回原路径，保留文件的链接与历史 */
+  rename: { from: string; to: string } | null;
+  fileOrderBefore: string[];
+  fileOrderAfter: string[];
+}
+
+/**
+ * 历史面板中的一项，undone 表示已撤销、可重做
+ */
+export interface StructureHistoryItem {
+  entry: StructureJournalEntry;
+  undone: boolean;
+}
+
+type JournalDirection = "undo" | "redo";
+
+/**
+ * 设定视图结构操作日志：记录移动、排序、新建、重命名与删除前后的文件内容，支持撤销与重做
+ * 仅保存在内存中，重启 Obsidian 后清空
+ */
+export class StructureJournal {
+  private plugin: ChineseWriterPlugin;
+  private undoStack: StructureJournalEntry[] = [];
+  private redoStack: StructureJournalEntry[] = [];
+  private nextId = 1;
+  private busy = false;
+  private listeners: Set<() => void> = new Set();
+
+  constructor(plugin: ChineseWriterPlugin) {
+    this.plugin = plugin;
+  }
+
+  /**
+   * 执行会改写 paths 中文件的操作并记录；文件内容与集合顺序都没有变化时不记录
+   */
+  async record(label: string, paths: string[], mutate: () => Promise<unknown>): Promise<void> {
+    const uniquePaths = Array.from(new Set(paths));
+    const before = await Promise.all(uniquePaths.map((path) => this.readFile(path)));
+    const fileOrderBefore = [...this.plugin.orderManager.getFileOrder()];
+    try {
+      await mutate();
+    } finally {
+      const after = await Promise.all(uniquePaths.map((path) => this.readFile(path)));
+      const changes = uniquePaths
+        .map((path, index) => ({ path, before: before[index] ?? null, after: after[index] ?? null }))
+        .filter((change) => change.before !== change.after);
+      const fileOrderAfter = [...this.plugin.orderManager.getFileOrder()];
+      if (changes.length > 0 || !this.isSameOrder(fileOrderBefore, fileOrderAfter)) {
+        this.push({ label, changes, rename: null, fileOrderBefore, fileOrderAfter });
+      }
+    }
+  }
+
+  /**
+   * 执行集合重命名并记录
+   */
+  async recordRename(label: string, from: string, to: string, mutate: () => Promise<unknown>): Promise<void> {
+    const fileOrderBefore = [...this.plugin.orderManager.getFileOrder()];
+    try {
+      await mutate();
+    } finally {
+      if (this.plugin.app.vault.getAbstractFileByPath(to) instanceof TFile) {
+        const fileOrderAfter = [...this.plugin.orderManager.getFileOrder()];
+        this.push({ label, changes: [], rename: { from, to }, fileOrderBefore, fileOrderAfter });
+      }
+    }
+  }
+
+  async undo(): Promise<void> {
+    const entry = this.undoStack[this.undoStack.length - 1];
+    if (!entry) {
+      new Notice("没有可撤销的结构操作");
+      return;
+    }
+    if (!(await this.apply(entry, "undo"))) return;
+    this.undoStack.pop();
+    this.redoStack.push(entry);
+    this.notify();
+    new Notice(`已撤销：${entry.label}`);
+  }
+
+  async redo(): Promise<void> {
+    const entry = this.redoStack[this.redoStack.length - 1];
+    if (!entry) {
+      new Notice("没有可重做的结构操作");
+      return;
+    }
+    if (!(await this.apply(entry, "redo"))) return;
+    this.redoStack.pop();
+    this.undoStack.push(entry);
+    this.notify();
+    new Notice(`已重做：${entry.label}`);
+  }
+
+  /**
+   * 按时间倒序列出操作，已撤销的排在最前
+   */
+  getHistory(): StructureHistoryItem[] {
+    return [
+      ...this.undoStack.map((entry) => ({ entry, undone: false })),
+      ...[...this.redoStack].reverse().map((entry) => ({ entry, undone: true })),
+    ].reverse();
+  }
+
+  /**
+   * 订阅历史变化，返回取消订阅的函数
+   */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private push(entry: Omit<StructureJournalEntry, "id" | "timestamp">): void {
+    this.undoStack.push({ ...entry, id: this.nextId++, timestamp: Date.now() });
+    if (this.undoStack.length > HISTORY_LIMIT) {
+      this.undoStack.splice(0, this.undoStack.length - HISTORY_LIMIT);
+    }
+    this.redoStack = [];
+    this.notify();
+  }
+
+  /**
+   * 先核对所有文件仍是操作后（撤销）或操作前（重做）的内容，任一不符则不做任何改动
+   */
+  private async apply(entry: StructureJournalEntry, direction: JournalDirection): Promise<boolean> {
+    if (this.busy) return false;
+    this.busy = true;
+    const verb = direction === "undo" ? "撤销" : "重做";
+    try {
+      for (const change of entry.changes) {
+        const expected = direction === "undo" ? change.after : change.before;
+        if ((await this.readFile(change.path)) !== expected) {
+          new Notice(`“${change.path}”在该操作之后被修改过，无法${verb}`);
+          return false;
+        }
+      }
+
+      if (entry.rename) {
+        const [currentPath, targetPath] =
+          direction === "undo" ? [entry.rename.to, entry.rename.from] : [entry.rename.from, entry.rename.to];
+        const file = this.plugin.app.vault.getAbstractFileByPath(currentPath);
+        if (!(file instanceof TFile) || this.plugin.app.vault.getAbstractFileByPath(targetPath)) {
+          new Notice(`“${currentPath}”已被移动或“${targetPath}”已存在，无法${verb}`);
+          return false;
+        }
+        await this.plugin.app.fileManager.renameFile(file, targetPath);
+      }
+
+      for (const change of entry.changes) {
+        await this.writeFile(change.path, direction === "undo" ? change.before : change.after);
+      }
+      if (!this.isSameOrder(entry.fileOrderBefore, entry.fileOrderAfter)) {
+        await this.plugin.orderManager.setFileOrder([
+          ...(direction === "undo" ? entry.fileOrderBefore : entry.fileOrderAfter),
+        ]);
+      }
+
+      this.plugin.highlightManager.clearCache();
+      await this.plugin.refreshView();
+      return true;
+    } catch (error) {
+      console.error(`Failed to ${direction} structure operation:`, error);
+      new Notice(`${verb}失败：${entry.label}`);
+      return false;
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  private async readFile(path: string): Promise<string | null> {
+    const file = this.plugin.app.vault.getAbstractFileByPath(path);
+    return file instanceof TFile ? await this.plugin.app.vault.read(file) : null;
+  }
+
+  private async writeFile(path: string, content: string | null): Promise<void> {
+    const vault = this.plugin.app.vault;
+    const file = vault.getAbstractFileByPath(path);
+    if (content === null) {
+      if (file instanceof TFile) await this.plugin.app.fileManager.trashFile(file);
+    } else if (file instanceof TFile) {
+      await vault.modify(file, content);
+    } else {
+      await vault.create(path, content);
+    }
+  }
+
+  private isSameOrder(a: string[], b: string[]): boolean {
+    return a.length === b.length && a.every((path, index) => path === b[index]);
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
@@ -1,8 +1,31 @@
 import { ItemView, WorkspaceLeaf, setIcon, Menu, TFile, MarkdownView } from "obsidian";
 import { EditorView } from "@codemirror/view";
 import type ChineseWriterPlugin from "./main";
-import type { TreeNode, FileParseResult } from "./types";
+import type { TreeNode, FileParseResult, H2Candidate } from "./types";
 import { TextInputModal, ConfirmModal } from "./modals";
+import { SettingStatusCodec } from "./setting-status-codec";
+import { SettingFieldCodec } from "./setting-field-codec";
+import { PinyinCodec, type TextMatchRange } from "./pinyin-codec";
+
+type FieldSortOrder = "none" | "asc" | "desc";
+
+/**
+ * H2 节点的搜索命中：命中处所在的内容及范围
+ */
+interface TreeSearchMatch {
+  source: "title" | "alias" | "status" | "body";
+  text: string;
+  range: TextMatchRange;
+}
+
+const ALIAS_TAG = "【别名】";
+const STATUS_TAG = "【状态】";
+
+const SEARCH_SOURCE_LABELS: Record<Exclude<TreeSearchMatch["source"], "title">, string> = {
+  alias: "别名",
+  status: "状态",
+  body: "正文",
+};
 
 export const VIEW_TYPE_TREE = "chinese-writer-tree-view";
 
@@ -15,6 +38,17 @@ export class TreeView extends ItemView {
   private allExpanded: boolean = false;
   private lastObservedActiveFilePath: string | null = null;
   private currentSettingFolder: string | null = null;
+  private statusCodec = new SettingStatusCodec();
+  private fieldCodec = new SettingFieldCodec();
+  private fieldName = "";
+  private fieldFilterText = "";
+  private fieldSortOrder: FieldSortOrder = "none";
+  private fieldBarSignature = "";
+  private pinyinCodec = new PinyinCodec();
+  private searchQuery = "";
+  /** 开始搜索前的展开状态，清空搜索时恢复 */
+  private expandedStatesBeforeSearch: Map<string, boolean> | null = null;
+  private searchMatchCache = new WeakMap<TreeNode, TreeSearchMatch | null>();
 
   constructor(leaf: WorkspaceLeaf, plugin: ChineseWriterPlugin) {
     super(leaf);
@@ -59,12 +93,12 @@ export class TreeView extends ItemView {
   }
 
   /**
-   * 获取当前树中的所有 H2 文本（只读快照）
+   * 获取当前树中的所有 H2 候选（只读快照），同名 H2 只保留第一个
    */
-  getH2TextsSnapshot(): string[] {
-    const values = new Set<string>();
-    this.collectH2Texts(this.treeData, values);
-    return Array.from(values);
+  getH2CandidatesSnapshot(): H2Candidate[] {
+    const candidates = new Map<string, H2Candidate>();
+    this.collectH2Candidates(this.treeData, candidates);
+    return Array.from(candidates.values());
   }
 
   /**
@@ -111,6 +145,14 @@ export class TreeView extends ItemView {
       this.toggleAllNodes();
     });
 
+    // 搜索栏：按标题、别名、状态和正文筛选
+    const searchBarEl = container.createDiv({ cls: "cw-tree-search-bar" });
+    this.renderSearchBar(searchBarEl);
+
+    // 结构化字段筛选/排序栏（仅在存在字段时显示）
+    const fieldBarEl = container.createDiv({ cls: "cw-tree-field-bar" });
+    this.fieldBarSignature = "";
+
     // 创建树容器
     const treeContainer = container.createDiv({
       cls: "chinese-writer-tree-container",
@@ -131,6 +173,11 @@ export class TreeView extends ItemView {
 
     // 加载数据
     await this.loadData();
+    if (this.isSearchActive()) {
+      this.expandedStatesBeforeSearch = this.saveExpandedStates();
+      this.expandSearchMatches(this.treeData);
+    }
+    this.syncFieldBar(fieldBarEl);
 
     // 渲染树
     this.renderTree(treeContainer, this.treeData);
@@ -140,21 +187,35 @@ export class TreeView extends ItemView {
    * 智能更新视图（保持展开/折叠状态，避免闪烁）
    */
   async smartUpdate(): Promise<void> {
-    // 保存当前所有节点的展开状态
+    // 保存当前所有节点的展开状态（搜索中保存的是搜索前的状态）
     const expandedStates = this.saveExpandedStates();
-    await this.persistExpandedStatesForCurrentFolder(expandedStates);
+    await this.persistExpandedStatesForCurrentFolder(this.expandedStatesBeforeSearch ?? expandedStates);
+    const previousSettingFolder = this.currentSettingFolder;
 
     // 重新加载数据
     await this.loadData();
+    if (this.isSearchActive() && previousSettingFolder !== this.currentSettingFolder) {
+      // 切换到其他设定库时，以新设定库保存的展开状态作为搜索前的状态
+      this.expandedStatesBeforeSearch = this.saveExpandedStates();
+    }
 
     // 恢复展开状态
     this.restoreExpandedStates(expandedStates);
+    if (this.isSearchActive()) {
+      this.searchMatchCache = new WeakMap();
+      this.expandSearchMatches(this.treeData);
+    }
 
     // 只更新内容，不重建整个 DOM
     const container = this.containerEl.children[1];
     if (!container) return;
     this.updateHeaderFolderName(container as HTMLElement);
 
+    const fieldBarEl = container.querySelector<HTMLElement>(".cw-tree-field-bar");
+    if (fieldBarEl) {
+      this.syncFieldBar(fieldBarEl);
+    }
+
     const treeContainer = container.querySelector(".chinese-writer-tree-container");
     if (!treeContainer) return;
 
@@ -172,16 +233,30 @@ export class TreeView extends ItemView {
     return states;
   }
 
-  private collectH2Texts(nodes: TreeNode[], values: Set<string>): void {
+  private collectH2Candidates(
+    nodes: TreeNode[],
+    candidates: Map<string, H2Candidate>,
+    libraryLabel?: string,
+    category?: string
+  ): void {
     for (const node of nodes) {
-      if (node.type === "h2") {
+      if (node.type === "h2" && !node.overridden) {
         const text = node.text.trim();
-        if (text) {
-          values.add(text);
+        if (text && !candidates.has(text)) {
+          const detail = [
+            ...(libraryLabel ? [libraryLabel] : []),
+            ...(node.fields ?? []).map((field) => `${field.name} ${this.fieldCodec.formatValue(field)}`),
+          ].join(" · ");
+          candidates.set(text, { text, detail, aliases: this.getNodeAliases(node), category });
         }
       }
       if (node.children.length > 0) {
-        this.collectH2Texts(node.children, values);
+        this.collectH2Candidates(
+          node.children,
+          candidates,
+          node.libraryLabel ?? libraryLabel,
+          node.type === "h1" ? node.text.trim() : category
+        );
       }
     }
   }
@@ -270,7 +345,11 @@ export class TreeView extends ItemView {
     }
 
     const parser = this.plugin.parser;
-    const files = parser.getMarkdownFilesInFolder(folderPath);
+    const highlightManager = this.plugin.highlightManager;
+    const libraryFolders = highlightManager.getSettingLibraryFolders(folderPath);
+    const files = highlightManager.getSettingLibraryFiles(folderPath);
+    const getLibraryIndex = (filePath: string) =>
+      libraryFolders.findIndex((folder) => filePath.startsWith(`${folder}/`));
 
     // 并行解析所有文件
     const parsedList = await Promise.all(files.map((file) => parser.parseFile(file)));
@@ -285,20 +364,40 @@ export class TreeView extends ItemView {
 
     if (fileOrder.length > 0) {
       parseResults.sort((a, b) => {
-        const indexA = fileOrder.indexOf(a.filePath);
-        const indexB = fileOrder.indexOf(b.filePath);
-        if (indexA === -1 && indexB === -1) return 0;
-        if (indexA === -1) return 1;
-        if (indexB === -1) return -1;
-        return indexA - indexB;
+        // 叠加共享设定库时，先按设定库优先级排列
+        const libraryDiff = getLibraryIndex(a.filePath) - getLibraryIndex(b.filePath);
+        if (libraryDiff !== 0) return libraryDiff;
+        return this.plugin.orderManager.compareFileOrder(a.filePath, b.filePath);
       });
     }
 
+    // 低优先级设定库中与高优先级库同名的 H2 会被覆盖
+    const h2LibraryIndex = new Map<string, number>();
+    for (const parseResult of parseResults) {
+      const libraryIndex = getLibraryIndex(parseResult.filePath);
+      for (const h1 of parseResult.h1List) {
+        for (const h2 of h1.h2List) {
+          const title = h2.text.trim();
+          const existing = h2LibraryIndex.get(title);
+          if (existing === undefined || libraryIndex < existing) {
+            h2LibraryIndex.set(title, libraryIndex);
+          }
+        }
+      }
+    }
+
     // 创建树节点
     this.treeData = [];
     let fileIndex = 0;
     for (const parseResult of parseResults) {
-      const fileNode = this.createFileNode(parseResult, fileIndex++);
+      const libraryIndex = getLibraryIndex(parseResult.filePath);
+      const libraryFolder = libraryFolders[libraryIndex] ?? folderPath;
+      const fileNode = this.createFileNode(
+        parseResult,
+        fileIndex++,
+        highlightManager.getLibraryLabel(folderPath, libraryFolder),
+        (title) => (h2LibraryIndex.get(title) ?? libraryIndex) < libraryIndex
+      );
       this.treeData.push(fileNode);
     }
 
@@ -314,7 +413,9 @@ export class TreeView extends ItemView {
    */
   private createFileNode(
     parseResult: FileParseResult,
-    index: number
+    index: number,
+    libraryLabel: string | null,
+    isOverridden: (h2Title: string) => boolean
   ): TreeNode {
     const fileNode: TreeNode = {
       id: `file-${index}`,
@@ -323,10 +424,22 @@ export class TreeView extends ItemView {
       children: [],
       expanded: false,
       filePath: parseResult.filePath,
+      libraryLabel: libraryLabel ?? undefined,
     };
 
+    // 状态按当前编辑的章节取值（非章节文件时取整体状态）
+    const contextFile = this.getContextFile();
+    const chapterNumber = contextFile
+      ? this.plugin.chapterManager.extractChapterNumber(contextFile.basename)
+      : null;
+
     // 直接使用文件中的 H1 顺序（不需要排序）
     parseResult.h1List.forEach((h1, h1Index) => {
+      const fieldDefinitions = this.fieldCodec.resolveDefinitions(
+        this.plugin.settings.settingFieldSchemas,
+        parseResult.fileName,
+        h1.text
+      );
       const h1Node: TreeNode = {
         id: `${fileNode.id}-h1-${h1Index}`,
         text: h1.text,
@@ -337,7 +450,10 @@ export class TreeView extends ItemView {
 
       // 直接使用文件中的 H2 顺序（不需要排序）
       h1.h2List.forEach((h2, h2Index) => {
-        const status = this.extractStatusFromLines(h2.content);
+        const status = this.statusCodec.resolveStatus(
+          this.statusCodec.parseTimeline(h2.content),
+          chapterNumber
+        );
         const h2Node: TreeNode = {
           id: `${h1Node.id}-h2-${h2Index}`,
           text: h2.text,
@@ -346,6 +462,8 @@ export class TreeView extends ItemView {
           expanded: false,
           content: h2.content,
           status,
+          fields: this.fieldCodec.extractFields(h2.content, fieldDefinitions),
+          overridden: isOverridden(h2.text.trim()),
         };
 
         h1Node.children.push(h2Node);
@@ -369,9 +487,18 @@ export class TreeView extends ItemView {
       return;
     }
 
+    const visibleNodes = nodes.filter((node) => this.isNodeVisible(node));
+    if (visibleNodes.length === 0) {
+      container.createDiv({
+        text: "没有符合筛选条件的设定",
+        cls: "chinese-writer-empty",
+      });
+      return;
+    }
+
     const ul = container.createEl("ul", { cls: "chinese-writer-tree" });
 
-    nodes.forEach((node) => {
+    visibleNodes.forEach((node) => {
       this.renderNode(ul, node);
     });
   }
@@ -386,7 +513,8 @@ export class TreeView extends ItemView {
 
     // 节点内容容器
     const nodeContent = li.createDiv({ cls: "tree-item-content" });
-    nodeContent.setAttribute("draggable", "true");
+    // 按字段筛选/排序或搜索时显示的节点不完整，禁用拖动
+    nodeContent.setAttribute("draggable", this.isFieldViewActive() || this.isSearchActive() ? "false" : "true");
 
     // 添加拖放事件到内容容器（不是 li，避免子节点干扰）
     nodeContent.addEventListener("dragstart", (e) => {
@@ -443,14 +571,32 @@ export class TreeView extends ItemView {
       e.stopPropagation();
     });
 
-    // 节点文本
+    // 节点文本（搜索命中标题时高亮命中部分）
+    const searchMatch = node.type === "h2" ? this.getSearchMatch(node) : null;
     const textEl = nodeContent.createSpan({
-      text: node.text,
       cls: `tree-item-text tree-item-${node.type}`,
     });
+    if (searchMatch?.source === "title") {
+      this.appendHighlightedText(textEl, searchMatch.text, searchMatch.range);
+    } else {
+      textEl.setText(node.text);
+    }
     if (node.type === "h2" && this.isDeadStatus(node.status)) {
       textEl.addClass("tree-item-h2-dead");
     }
+    if (node.type === "h2" && node.overridden) {
+      textEl.addClass("tree-item-h2-overridden");
+      textEl.setAttribute("title", "已被优先级更高的设定库中的同名设定覆盖");
+    }
+    if (node.type === "file" && node.libraryLabel) {
+      nodeContent.createSpan({ text: node.libraryLabel, cls: "tree-item-library" });
+    }
+    if (searchMatch && searchMatch.source !== "title") {
+      const hintEl = nodeContent.createSpan({ cls: "tree-item-search-hint" });
+      hintEl.createSpan({ text: `${SEARCH_SOURCE_LABELS[searchMatch.source]}：` });
+      this.appendHighlightedText(hintEl, searchMatch.text, searchMatch.range);
+      hintEl.setAttribute("title", searchMatch.text);
+    }
     if (node.type === "h2") {
       const h1Node = this.findParentH1Node(node);
       const fileNode = this.findParentFileNode(node);
@@ -461,6 +607,36 @@ export class TreeView extends ItemView {
         nodeContent.setAttribute("data-cw-tree-h1", h1Node.text);
         nodeContent.setAttribute("data-cw-tree-h2", node.text);
         nodeContent.setAttribute("data-cw-tree-keyword", node.text);
+
+        // 正文出现统计（索引未就绪时不显示）
+        const occurrenceIndex = this.plugin.keywordOccurrenceIndex;
+        const summary = occurrenceIndex.getSummaryForH2(
+          this.currentSettingFolder,
+          fileNode.filePath,
+          h1Node.text,
+          node.text
+        );
+        if (summary) {
+          const occurrenceEl = nodeContent.createSpan({
+            text: String(summary.chapterCount),
+            cls: "tree-item-occurrence",
+          });
+          if (summary.chapterCount === 0) {
+            occurrenceEl.addClass("is-empty");
+          }
+          occurrenceEl.setAttribute("title", occurrenceIndex.formatSummary(summary));
+        }
+      }
+    }
+
+    // 当前筛选/排序字段的值
+    if (node.type === "h2" && this.fieldName) {
+      const fieldValue = node.fields?.find((field) => field.name === this.fieldName);
+      if (fieldValue) {
+        nodeContent.createSpan({
+          text: this.fieldCodec.formatValue(fieldValue),
+          cls: "tree-item-field",
+        });
       }
     }
 
@@ -496,12 +672,279 @@ export class TreeView extends ItemView {
         childrenUl.style.display = "none";
       }
 
-      node.children.forEach((child) => {
+      this.getDisplayChildren(node).forEach((child) => {
         this.renderNode(childrenUl, child);
       });
     }
   }
 
+  /**
+   * 渲染结构化字段筛选/排序栏；字段集合不变时保留现有输入
+   */
+  private syncFieldBar(fieldBarEl: HTMLElement): void {
+    const fieldNames = this.collectFieldNames(this.treeData);
+    const signature = fieldNames.join("\n");
+    if (signature === this.fieldBarSignature) return;
+    this.fieldBarSignature = signature;
+
+    if (this.fieldName && !fieldNames.includes(this.fieldName)) {
+      this.fieldName = "";
+    }
+
+    fieldBarEl.empty();
+    fieldBarEl.toggleClass("is-hidden", fieldNames.length === 0);
+    if (fieldNames.length === 0) return;
+
+    const rerender = () => this.rerenderTree();
+
+    const fieldSelect = fieldBarEl.createEl("select", { cls: "dropdown cw-tree-field-select" });
+    fieldSelect.createEl("option", { text: "按字段…", value: "" });
+    for (const name of fieldNames) {
+      fieldSelect.createEl("option", { text: name, value: name });
+    }
+    fieldSelect.value = this.fieldName;
+
+    const filterInput = fieldBarEl.createEl("input", {
+      cls: "cw-tree-field-filter",
+      attr: { type: "text", placeholder: "筛选，如 华山 或 >=18" },
+    });
+    filterInput.value = this.fieldFilterText;
+    filterInput.disabled = !this.fieldName;
+
+    const sortSelect = fieldBarEl.createEl("select", { cls: "dropdown cw-tree-field-sort" });
+    sortSelect.createEl("option", { text: "原顺序", value: "none" });
+    sortSelect.createEl("option", { text: "升序", value: "asc" });
+    sortSelect.createEl("option", { text: "降序", value: "desc" });
+    sortSelect.value = this.fieldSortOrder;
+    sortSelect.disabled = !this.fieldName;
+
+    fieldSelect.addEventListener("change", () => {
+      this.fieldName = fieldSelect.value;
+      filterInput.disabled = !this.fieldName;
+      sortSelect.disabled = !this.fieldName;
+      rerender();
+    });
+    filterInput.addEventListener("input", () => {
+      this.fieldFilterText = filterInput.value;
+      rerender();
+    });
+    sortSelect.addEventListener("change", () => {
+      this.fieldSortOrder = sortSelect.value as FieldSortOrder;
+      rerender();
+    });
+  }
+
+  /**
+   * 重新渲染树内容（不重新加载数据）
+   */
+  private rerenderTree(): void {
+    const treeContainer = this.containerEl.querySelector<HTMLElement>(".chinese-writer-tree-container");
+    if (!treeContainer) return;
+    treeContainer.empty();
+    this.renderTree(treeContainer, this.treeData);
+  }
+
+  /**
+   * 渲染搜索栏
+   */
+  private renderSearchBar(searchBarEl: HTMLElement): void {
+    const searchInput = searchBarEl.createEl("input", {
+      cls: "cw-tree-search-input",
+      attr: { type: "search", placeholder: "搜索设定名、别名、状态、正文（支持拼音首字母）" },
+    });
+    searchInput.value = this.searchQuery;
+    searchInput.addEventListener("input", () => {
+      this.setSearchQuery(searchInput.value);
+    });
+    searchInput.addEventListener("keydown", (e) => {
+      if (e.key !== "Escape" || !searchInput.value) return;
+      e.preventDefault();
+      e.stopPropagation();
+      searchInput.value = "";
+      this.setSearchQuery("");
+    });
+  }
+
+  private isSearchActive(): boolean {
+    return this.searchQuery.trim().length > 0;
+  }
+
+  /**
+   * 更新搜索词：开始搜索时记下展开状态，清空搜索时恢复
+   */
+  private setSearchQuery(query: string): void {
+    const wasActive = this.isSearchActive();
+    this.searchQuery = query;
+    this.searchMatchCache = new WeakMap();
+
+    if (this.isSearchActive()) {
+      if (!wasActive) {
+        this.expandedStatesBeforeSearch = this.saveExpandedStates();
+      }
+      this.expandSearchMatches(this.treeData);
+    } else if (wasActive && this.expandedStatesBeforeSearch) {
+      this.restoreExpandedStates(this.expandedStatesBeforeSearch);
+      this.expandedStatesBeforeSearch = null;
+    }
+    this.rerenderTree();
+  }
+
+  /**
+   * 展开所有包含命中设定的文件与 H1 节点，返回该组节点中是否有命中
+   */
+  private expandSearchMatches(nodes: TreeNode[]): boolean {
+    let hasMatch = false;
+    for (const node of nodes) {
+      if (node.type === "h2") {
+        if (this.getSearchMatch(node)) hasMatch = true;
+        continue;
+      }
+      if (this.expandSearchMatches(node.children)) {
+        node.expanded = true;
+        hasMatch = true;
+      }
+    }
+    return hasMatch;
+  }
+
+  /**
+   * H2 节点的搜索命中，依次检查标题、别名、状态与正文
+   * 拼音（首字母或全拼）只用于标题与别名；状态与正文按原文匹配，避免简短的字母查询在长正文中大量误命中
+   */
+  private getSearchMatch(node: TreeNode): TreeSearchMatch | null {
+    if (!this.isSearchActive() || node.type !== "h2") return null;
+    const cached = this.searchMatchCache.get(node);
+    if (cached !== undefined) return cached;
+
+    const query = this.searchQuery.trim();
+    const findPlain = (text: string): TextMatchRange | null => {
+      const index = text.toLowerCase().indexOf(query.toLowerCase());
+      return index === -1 ? null : { from: index, to: index + query.length };
+    };
+
+    let match: TreeSearchMatch | null = null;
+    const titleRange = this.pinyinCodec.findMatch(node.text, query);
+    if (titleRange) {
+      match = { source: "title", text: node.text, range: titleRange };
+    }
+
+    for (const alias of this.getNodeAliases(node)) {
+      if (match) break;
+      const range = this.pinyinCodec.findMatch(alias, query);
+      if (range) match = { source: "alias", text: alias, range };
+    }
+
+    const lines = (node.content ?? []).map((line) => line.trim()).filter((line) => line.length > 0);
+
+    for (const line of lines) {
+      if (match) break;
+      const statusIndex = line.indexOf(STATUS_TAG);
+      if (statusIndex === -1) continue;
+      const statusText = line.slice(statusIndex + STATUS_TAG.length).trim();
+      const range = findPlain(statusText);
+      if (range) match = { source: "status", text: statusText, range };
+    }
+
+    for (const line of lines) {
+      if (match) break;
+      if (line.includes(ALIAS_TAG) || line.includes(STATUS_TAG)) continue;
+      const range = findPlain(line);
+      if (range) match = { source: "body", ...this.clipAroundRange(line, range) };
+    }
+
+    this.searchMatchCache.set(node, match);
+    return match;
+  }
+
+  /**
+   * H2 节点正文中【别名】行列出的别名
+   */
+  private getNodeAliases(node: TreeNode): string[] {
+    const aliases: string[] = [];
+    for (const line of node.content ?? []) {
+      const aliasIndex = line.indexOf(ALIAS_TAG);
+      if (aliasIndex === -1) continue;
+      for (const alias of line.slice(aliasIndex + ALIAS_TAG.length).split(/[，,]/).map((item) => item.trim())) {
+        if (alias && !aliases.includes(alias)) aliases.push(alias);
+      }
+    }
+    return aliases;
+  }
+
+  /**
+   * 截取命中处附近的正文，避免提示过长
+   */
+  private clipAroundRange(text: string, range: TextMatchRange): { text: string; range: TextMatchRange } {
+    const contextLength = 12;
+    const start = Math.max(0, range.from - contextLength);
+    const end = Math.min(text.length, range.to + contextLength);
+    const prefix = start > 0 ? "…" : "";
+    const suffix = end < text.length ? "…" : "";
+    return {
+      text: `${prefix}${text.slice(start, end)}${suffix}`,
+      range: { from: range.from - start + prefix.length, to: range.to - start + prefix.length },
+    };
+  }
+
+  private appendHighlightedText(parent: HTMLElement, text: string, range: TextMatchRange): void {
+    if (range.from > 0) parent.appendText(text.slice(0, range.from));
+    parent.createEl("mark", { text: text.slice(range.from, range.to), cls: "cw-tree-search-match" });
+    if (range.to < text.length) parent.appendText(text.slice(range.to));
+  }
+
+  private collectFieldNames(nodes: TreeNode[]): string[] {
+    const names = new Set<string>();
+    const visit = (items: TreeNode[]) => {
+      for (const item of items) {
+        for (const field of item.fields ?? []) {
+          names.add(field.name);
+        }
+        visit(item.children);
+      }
+    };
+    visit(nodes);
+    return Array.from(names);
+  }
+
+  private isFieldViewActive(): boolean {
+    return !!this.fieldName && (this.fieldFilterText.trim().length > 0 || this.fieldSortOrder !== "none");
+  }
+
+  /**
+   * 节点是否满足当前字段筛选与搜索条件（文件/H1 节点只要有子节点满足即可）
+   */
+  private isNodeVisible(node: TreeNode): boolean {
+    const isFieldFilterActive = !!this.fieldName && !!this.fieldFilterText.trim();
+    if (!isFieldFilterActive && !this.isSearchActive()) return true;
+    if (node.type === "h2") {
+      if (this.isSearchActive() && !this.getSearchMatch(node)) return false;
+      if (!isFieldFilterActive) return true;
+      const fieldValue = node.fields?.find((field) => field.name === this.fieldName);
+      return this.fieldCodec.matchesFilter(fieldValue, this.fieldFilterText);
+    }
+    return node.children.some((child) => this.isNodeVisible(child));
+  }
+
+  /**
+   * 获取需要渲染的子节点（应用字段筛选与排序）
+   */
+  private getDisplayChildren(node: TreeNode): TreeNode[] {
+    const children = node.children.filter((child) => this.isNodeVisible(child));
+    if (node.type !== "h1" || !this.fieldName || this.fieldSortOrder === "none") {
+      return children;
+    }
+
+    const direction = this.fieldSortOrder === "desc" ? -1 : 1;
+    const getValue = (child: TreeNode) => child.fields?.find((field) => field.name === this.fieldName);
+    return [...children].sort((a, b) => {
+      const valueA = getValue(a);
+      const valueB = getValue(b);
+      // 缺少该字段的节点始终排在最后
+      if (!valueA || !valueB) return this.fieldCodec.compareValues(valueA, valueB);
+      return this.fieldCodec.compareValues(valueA, valueB) * direction;
+    });
+  }
+
   /**
    * 切换节点展开/折叠状态
    */
@@ -659,21 +1102,8 @@ export class TreeView extends ItemView {
     return null;
   }
 
-  private extractStatusFromLines(lines: string[]): string {
-    const statusTag = "【状态】";
-    for (const line of lines) {
-      const tagIndex = line.indexOf(statusTag);
-      if (tagIndex === -1) continue;
-      const rawStatus = line.slice(tagIndex + statusTag.length).trim();
-      if (rawStatus) return rawStatus;
-    }
-    return "";
-  }
-
   private isDeadStatus(status: string | undefined): boolean {
-    if (!status) return false;
-    const normalized = status.trim();
-    return normalized === "死亡" || normalized === "失效";
+    return this.statusCodec.isDeadStatus(status);
   }
 
   private updateHeaderFolderName(container: HTMLElement): void {
@@ -695,7 +1125,8 @@ export class TreeView extends ItemView {
     states?: Map<string, boolean>
   ): Promise<void> {
     if (!this.currentSettingFolder) return;
-    const mapToSave = states ?? this.saveExpandedStates();
+    // 搜索时自动展开的状态是临时的，不写入
+    const mapToSave = states ?? this.expandedStatesBeforeSearch ?? this.saveExpandedStates();
     const serializedStates: Record<string, boolean> = {};
     mapToSave.forEach((value, key) => {
       serializedStates[key] = value;
@@ -902,12 +1333,16 @@ export class TreeView extends ItemView {
 
     if (!draggedFileNode.filePath || !targetFileNode.filePath) return;
 
-    await this.plugin.orderManager.moveH2ToEndOfH1(
-      draggedFileNode.filePath,
-      draggedH1Node.text,
-      targetFileNode.filePath,
-      targetH1Node.text,
-      draggedNode.text
+    await this.plugin.structureJournal.record(
+      `移动设定“${draggedNode.text}”到“${targetH1Node.text}”`,
+      [draggedFileNode.filePath, targetFileNode.filePath],
+      () => this.plugin.orderManager.moveH2ToEndOfH1(
+        draggedFileNode.filePath!,
+        draggedH1Node.text,
+        targetFileNode.filePath!,
+        targetH1Node.text,
+        draggedNode.text
+      )
     );
 
     await this.smartUpdate();
@@ -925,10 +1360,14 @@ export class TreeView extends ItemView {
 
     if (!draggedFileNode.filePath || !targetFileNode.filePath) return;
 
-    await this.plugin.orderManager.moveH1ToEndOfFile(
-      draggedFileNode.filePath,
-      targetFileNode.filePath,
-      draggedNode.text
+    await this.plugin.structureJournal.record(
+      `移动分类“${draggedNode.text}”到“${targetFileNode.text}”`,
+      [draggedFileNode.filePath, targetFileNode.filePath],
+      () => this.plugin.orderManager.moveH1ToEndOfFile(
+        draggedFileNode.filePath!,
+        targetFileNode.filePath!,
+        draggedNode.text
+      )
     );
 
     await this.smartUpdate();
@@ -979,7 +1418,9 @@ export class TreeView extends ItemView {
     }
 
     // 保存排序
-    await this.plugin.orderManager.setFileOrder(filePaths);
+    await this.plugin.structureJournal.record(`调整集合“${draggedNode.text}”的顺序`, [], () =>
+      this.plugin.orderManager.setFileOrder(filePaths)
+    );
 
     // 刷新视图
     await this.smartUpdate();
@@ -1027,7 +1468,9 @@ export class TreeView extends ItemView {
       }
 
       // console.log("Reordering H1 in same file:", { filePath: draggedFileNode.filePath, newOrder: h1Texts });
-      await this.plugin.orderManager.reorderH1InFile(draggedFileNode.filePath, h1Texts);
+      await this.plugin.structureJournal.record(`调整分类“${draggedNode.text}”的顺序`, [draggedFileNode.filePath], () =>
+        this.plugin.orderManager.reorderH1InFile(draggedFileNode.filePath!, h1Texts)
+      );
     } else {
       // 跨文件移动
       if (!draggedFileNode.filePath || !targetFileNode.filePath) return;
@@ -1040,12 +1483,17 @@ export class TreeView extends ItemView {
       // });
 
       // 从源文件移除 H1
-      await this.plugin.orderManager.moveH1BetweenFiles(
-        draggedFileNode.filePath,
-        targetFileNode.filePath,
-        draggedNode.text,
-        targetNode.text,
-        this.insertBefore
+      const insertBefore = this.insertBefore;
+      await this.plugin.structureJournal.record(
+        `移动分类“${draggedNode.text}”到“${targetFileNode.text}”`,
+        [draggedFileNode.filePath, targetFileNode.filePath],
+        () => this.plugin.orderManager.moveH1BetweenFiles(
+          draggedFileNode.filePath!,
+          targetFileNode.filePath!,
+          draggedNode.text,
+          targetNode.text,
+          insertBefore
+        )
       );
     }
 
@@ -1102,7 +1550,9 @@ export class TreeView extends ItemView {
       //   newOrder: h2Texts
       // });
 
-      await this.plugin.orderManager.reorderH2InFile(draggedFileNode.filePath, draggedH1Node.text, h2Texts);
+      await this.plugin.structureJournal.record(`调整设定“${draggedNode.text}”的顺序`, [draggedFileNode.filePath], () =>
+        this.plugin.orderManager.reorderH2InFile(draggedFileNode.filePath!, draggedH1Node.text, h2Texts)
+      );
     } else {
       // 跨 H1 或跨文件移动
       if (!draggedFileNode.filePath || !targetFileNode.filePath) return;
@@ -1116,14 +1566,19 @@ export class TreeView extends ItemView {
       //   insertBefore: this.insertBefore
       // });
 
-      await this.plugin.orderManager.moveH2BetweenH1s(
-        draggedFileNode.filePath,
-        draggedH1Node.text,
-        targetFileNode.filePath,
-        targetH1Node.text,
-        draggedNode.text,
-        targetNode.text,
-        this.insertBefore
+      const insertBefore = this.insertBefore;
+      await this.plugin.structureJournal.record(
+        `移动设定“${draggedNode.text}”到“${targetH1Node.text}”`,
+        [draggedFileNode.filePath, targetFileNode.filePath],
+        () => this.plugin.orderManager.moveH2BetweenH1s(
+          draggedFileNode.filePath!,
+          draggedH1Node.text,
+          targetFileNode.filePath!,
+          targetH1Node.text,
+          draggedNode.text,
+          targetNode.text,
+          insertBefore
+        )
       );
     }
 
@@ -1354,6 +1809,16 @@ export class TreeView extends ItemView {
         });
     });
 
+    // 重命名并替换正文中的设定名
+    menu.addItem((item) => {
+      item
+        .setTitle("重命名并替换正文")
+        .setIcon("replace-all")
+        .onClick(() => {
+          this.renameH2WithOccurrences(node);
+        });
+    });
+
     // 5. 删除设定
     menu.addItem((item) => {
       item
@@ -1399,24 +1864,25 @@ export class TreeView extends ItemView {
           return;
         }
 
-        // 创建新文件，并按设置决定打开位置
-        const createdFile = await this.app.vault.create(filePath, "");
-        await this.plugin.openFileWithSettings(createdFile);
+        await this.plugin.structureJournal.record(`创建集合“${fileName}”`, [filePath], async () => {
+          // 创建新文件，并按设置决定打开位置
+          const createdFile = await this.app.vault.create(filePath, "");
+          await this.plugin.openFileWithSettings(createdFile);
 
-        // 更新 order.json
-        let fileOrder = this.plugin.orderManager.getFileOrder();
+          // 更新 order.json
+          let fileOrder = [...this.plugin.orderManager.getFileOrder()];
 
-        // 如果 order.json 为空，获取目录下所有现有文件
-        if (fileOrder.length === 0) {
-          const parser = this.plugin.parser;
-          const files = parser.getMarkdownFilesInFolder(folderPath);
-          fileOrder = files.map(f => f.path);
-        } else {
-          // 如果 order.json 不为空，只添加新文件
-          fileOrder.push(filePath);
-        }
+          // 如果 order.json 为空，获取目录下所有现有文件
+          if (fileOrder.length === 0) {
+            const files = this.plugin.highlightManager.getSettingLibraryFiles(folderPath);
+            fileOrder = files.map(f => f.path);
+          } else {
+            // 如果 order.json 不为空，只添加新文件
+            fileOrder.push(filePath);
+          }
 
-        await this.plugin.orderManager.setFileOrder(fileOrder);
+          await this.plugin.orderManager.setFileOrder(fileOrder);
+        });
 
         // 等待一小段时间确保 order.json 保存完成
         await new Promise(resolve => setTimeout(resolve, 400));
@@ -1450,16 +1916,23 @@ export class TreeView extends ItemView {
         const folderPath = node.filePath!.substring(0, node.filePath!.lastIndexOf("/"));
         const newPath = `${folderPath}/${newName}.md`;
 
-        // 重命名文件
-        await this.app.fileManager.renameFile(file, newPath);
-
-        // 更新 order.json
-        const fileOrder = this.plugin.orderManager.getFileOrder();
-        const index = fileOrder.indexOf(node.filePath!);
-        if (index !== -1) {
-          fileOrder[index] = newPath;
-          await this.plugin.orderManager.setFileOrder(fileOrder);
-        }
+        await this.plugin.structureJournal.recordRename(
+          `重命名集合“${node.text}”为“${newName}”`,
+          node.filePath!,
+          newPath,
+          async () => {
+            // 重命名文件
+            await this.app.fileManager.renameFile(file, newPath);
+
+            // 更新 order.json
+            const fileOrder = [...this.plugin.orderManager.getFileOrder()];
+            const index = fileOrder.indexOf(node.filePath!);
+            if (index !== -1) {
+              fileOrder[index] = newPath;
+              await this.plugin.orderManager.setFileOrder(fileOrder);
+            }
+          }
+        );
 
         // 刷新视图
         await this.smartUpdate();
@@ -1481,7 +1954,7 @@ export class TreeView extends ItemView {
     const modal = new ConfirmModal(
       this.app,
       "删除集合",
-      `确定要删除集合"${node.text}"吗？此操作不可恢复。`,
+      `确定要删除集合"${node.text}"吗？可通过命令“撤销设定视图结构操作”恢复。`,
       async () => {
         // 更新 order.json
         let fileOrder = this.plugin.orderManager.getFileOrder();
@@ -1496,21 +1969,22 @@ export class TreeView extends ItemView {
           }
 
           if (folderPath) {
-            const parser = this.plugin.parser;
-            const files = parser.getMarkdownFilesInFolder(folderPath);
+            const files = this.plugin.highlightManager.getSettingLibraryFiles(folderPath);
             fileOrder = files.map(f => f.path);
           }
         }
 
-        // 删除文件
-        await this.app.vault.delete(file);
+        await this.plugin.structureJournal.record(`删除集合“${node.text}”`, [node.filePath!], async () => {
+          // 删除文件
+          await this.app.vault.delete(file);
 
-        // 从 order.json 中移除该文件
-        const index = fileOrder.indexOf(node.filePath!);
-        if (index !== -1) {
-          fileOrder.splice(index, 1);
-          await this.plugin.orderManager.setFileOrder(fileOrder);
-        }
+          // 从 order.json 中移除该文件
+          const index = fileOrder.indexOf(node.filePath!);
+          if (index !== -1) {
+            fileOrder.splice(index, 1);
+            await this.plugin.orderManager.setFileOrder(fileOrder);
+          }
+        });
 
         // 等待一小段时间确保 order.json 保存完成
         await new Promise(resolve => setTimeout(resolve, 400));
@@ -1552,7 +2026,9 @@ export class TreeView extends ItemView {
         lines.push(`# ${h1Text}`);
 
         // 写回文件
-        await this.app.vault.modify(file, lines.join("\n"));
+        await this.plugin.structureJournal.record(`创建分类“${h1Text}”`, [file.path], () =>
+          this.app.vault.modify(file, lines.join("\n"))
+        );
 
         // 刷新视图
         await this.smartUpdate();
@@ -1601,7 +2077,9 @@ export class TreeView extends ItemView {
         }
 
         // 写回文件
-        await this.app.vault.modify(file, lines.join("\n"));
+        await this.plugin.structureJournal.record(`重命名分类“${node.text}”为“${newH1Text}”`, [file.path], () =>
+          this.app.vault.modify(file, lines.join("\n"))
+        );
 
         // 刷新视图
         await this.smartUpdate();
@@ -1621,7 +2099,7 @@ export class TreeView extends ItemView {
     const modal = new ConfirmModal(
       this.app,
       "删除分类",
-      `确定要删除分类"${node.text}"及其下的所有内容吗？此操作不可恢复。`,
+      `确定要删除分类"${node.text}"及其下的所有内容吗？可通过命令“撤销设定视图结构操作”恢复。`,
       async () => {
         const file = this.app.vault.getAbstractFileByPath(fileNode.filePath!);
         if (!(file instanceof TFile)) return;
@@ -1662,7 +2140,9 @@ export class TreeView extends ItemView {
         ];
 
         // 写回文件
-        await this.app.vault.modify(file, newLines.join("\n"));
+        await this.plugin.structureJournal.record(`删除分类“${node.text}”`, [file.path], () =>
+          this.app.vault.modify(file, newLines.join("\n"))
+        );
 
         // 刷新视图
         await this.smartUpdate();
@@ -1732,7 +2212,9 @@ export class TreeView extends ItemView {
         ];
 
         // 写回文件
-        await this.app.vault.modify(file, newLines.join("\n"));
+        await this.plugin.structureJournal.record(`创建设定“${h2Text}”`, [file.path], () =>
+          this.app.vault.modify(file, newLines.join("\n"))
+        );
 
         // 刷新视图
         await this.smartUpdate();
@@ -1792,7 +2274,9 @@ export class TreeView extends ItemView {
         }
 
         // 写回文件
-        await this.app.vault.modify(file, lines.join("\n"));
+        await this.plugin.structureJournal.record(`重命名设定“${node.text}”为“${newH2Text}”`, [file.path], () =>
+          this.app.vault.modify(file, lines.join("\n"))
+        );
 
         // 刷新视图
         await this.smartUpdate();
@@ -1807,6 +2291,22 @@ export class TreeView extends ItemView {
     modal.open();
   }
 
+  /**
+   * 重命名 H2，并将小说库正文中的设定名（可选别名）一并替换
+   */
+  private renameH2WithOccurrences(node: TreeNode): void {
+    const h1Node = this.findParentH1Node(node);
+    const fileNode = this.findParentFileNode(node);
+    if (!h1Node || !fileNode?.filePath || !this.currentSettingFolder) return;
+
+    this.plugin.settingRenameManager.startRename({
+      settingFolder: this.currentSettingFolder,
+      filePath: fileNode.filePath,
+      h1Title: h1Node.text,
+      h2Title: node.text,
+    });
+  }
+
   /**
    * 删除 H2（设定）
    */
@@ -1818,7 +2318,7 @@ export class TreeView extends ItemView {
     const modal = new ConfirmModal(
       this.app,
       "删除设定",
-      `确定要删除设定"${node.text}"及其内容吗？此操作不可恢复。`,
+      `确定要删除设定"${node.text}"及其内容吗？可通过命令“撤销设定视图结构操作”恢复。`,
       async () => {
         const file = this.app.vault.getAbstractFileByPath(fileNode.filePath!);
         if (!(file instanceof TFile)) return;
@@ -1868,7 +2368,9 @@ export class TreeView extends ItemView {
         ];
 
         // 写回文件
-        await this.app.vault.modify(file, newLines.join("\n"));
+        await this.plugin.structureJournal.record(`删除设定“${node.text}”`, [file.path], () =>
+          this.app.vault.modify(file, newLines.join("\n"))
+        );
 
         // 刷新视图
         await this.smartUpdate();
@@ -1,3 +1,5 @@
+import type { SettingFieldValue } from "./setting-field-codec";
+
 /**
  * 树节点类型
  */
@@ -16,8 +18,14 @@ export interface TreeNode {
   content?: string[];
   /** 状态（仅 h2 节点使用） */
   status?: string;
+  /** 结构化字段（仅 h2 节点使用） */
+  fields?: SettingFieldValue[];
   /** 文件路径（仅 file 节点有） */
   filePath?: string;
+  /** 来源设定库名（仅 file 节点使用，叠加了共享设定库时才有） */
+  libraryLabel?: string;
+  /** 是否被优先级更高的设定库中的同名设定覆盖（仅 h2 节点使用） */
+  overridden?: boolean;
 }
 
 /**
@@ -56,6 +64,30 @@ export interface FileParseResult {
   h1List: H1Info[];
 }
 
+/**
+ * 正文段落（以非空行为一段）
+ */
+export interface ParagraphInfo {
+  /** 行号（从 0 开始） */
+  lineNumber: number;
+  /** 段落文本 */
+  text: string;
+}
+
+/**
+ * // 候选栏中的 H2 候选项
+ */
+export interface H2Candidate {
+  /** 插入的文本 */
+  text: string;
+  /** 次要说明（结构化字段摘要） */
+  detail: string;
+  /** 别名，用于补全时匹配 */
+  aliases?: string[];
+  /** 所属 H1 分类 */
+  category?: string;
+}
+
 /**
  * 排序数据结构
  */
@@ -64,4 +96,26 @@ export interface OrderData {
   files: string[];
   /** 各设定库目录对应的节点展开状态 */
   expandedStatesByFolder: Record<string, Record<string, boolean>>;
+  /** 各小说库目录中 // 补全候选的采用记录 */
+  completionUsageByFolder: Record<string, CompletionUsage>;
 }
+
+/**
+ * // 补全的候选类型：设定（H2）或文本片段
+ */
+export type CompletionKind = "h2" | "snippet";
+
+/**
+ * 单个候选的采用记录
+ */
+export interface CompletionUsageRecord {
+  /** 采用次数 */
+  count: number;
+  /** 最近一次采用的时间戳 */
+  lastUsed: number;
+}
+
+/**
+ * 一个小说库的补全采用记录：候选类型 -> 候选文本（片段为 key）-> 记录
+ */
+export type CompletionUsage = Record<CompletionKind, Record<string, CompletionUsageRecord>>;
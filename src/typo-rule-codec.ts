@@ -0,0 +1,425 @@
+/**
+ * 词条级别：屏蔽级词条残留时拒绝导出，警告级导出前需确认，提示级只做标记
+ */
+export type TypoSeverity = "block" | "warn" | "info";
+
+export const TYPO_SEVERITY_LABELS: Record<TypoSeverity, string> = {
+  block: "屏蔽",
+  warn: "警告",
+  info: "提示",
+};
+
+/**
+ * 平台词典方案：在通用词典之外叠加的词典目录，可按小说库切换
+ */
+export interface TypoProfile {
+  name: string;
+  dictionaryFolderPath: string;
+}
+
+/**
+ * 上下文条件：左 / 右为紧邻命中处的文字，前文 / 后文为同一句内的文字，词性为紧邻处的词类
+ */
+type TypoConditionKind = "left" | "right" | "before" | "after" | "leftClass" | "rightClass";
+
+interface TypoCondition {
+  kind: TypoConditionKind;
+  values: string[];
+  /** 以“非”开头的条件：命中任一值时不算错 */
+  negate: boolean;
+}
+
+/**
+ * 词典中的一条规则
+ */
+export interface TypoRule {
+  name: string;
+  /** 字面词条；正则词条为 null */
+  literal: string | null;
+  pattern: RegExp;
+  /** 替换文本，正则词条可用 $1、$2 引用分组；null 表示只提示不修正 */
+  replacement: string | null;
+  conditions: TypoCondition[];
+  /** 生效的小说库（路径或文件夹名），为空表示全部 */
+  scopes: string[];
+  severity: TypoSeverity;
+  /** 去重用：同一字面词条只保留最先出现的一条 */
+  key: string;
+}
+
+/**
+ * 编译后的规则集：无条件、无范围的字面词条合并为一个正则
+ */
+export interface TypoRuleSet {
+  count: number;
+  literalRegex: RegExp | null;
+  literalRules: Map<string, TypoRule>;
+  conditionalRules: TypoRule[];
+}
+
+/**
+ * 正文中的一处错别字命中
+ */
+export interface TypoRuleMatch {
+  from: number;
+  to: number;
+  text: string;
+  ruleName: string;
+  severity: TypoSeverity;
+  /** 展开后的替换文本，null 表示只提示 */
+  replacement: string | null;
+}
+
+/**
+ * 一处带替换文本的命中
+ */
+export interface TypoFix extends TypoRuleMatch {
+  replacement: string;
+}
+
+const CONDITION_KEYS: Record<string, TypoConditionKind> = {
+  左: "left",
+  右: "right",
+  前文: "before",
+  后文: "after",
+  左词性: "leftClass",
+  右词性: "rightClass",
+};
+const SCOPE_KEY = "范围";
+const SEVERITY_KEY = "级别";
+const SEVERITY_ALIASES: Record<string, TypoSeverity> = {
+  屏蔽: "block",
+  禁用: "block",
+  block: "block",
+  警告: "warn",
+  warn: "warn",
+  提示: "info",
+  info: "info",
+};
+
+/** 前文 / 后文最多查看的字数 */
+const SENTENCE_WINDOW = 20;
+const SENTENCE_BREAK = /[。！？；…\n]/;
+
+/**
+ * 词性提示用的常见词，只作粗略判断；“叠词”按 AA 形式判断，不查词表
+ */
+const WORD_CLASS_LEXICON: Record<string, string[]> = {
+  动词: [
+    "走", "跑", "跳", "飞", "说", "讲", "问", "答", "喊", "叫", "笑", "哭", "看", "望", "瞧", "盯", "听",
+    "想", "吃", "喝", "打", "拿", "抓", "握", "放", "扔", "推", "拉", "写", "读", "唱", "坐", "站", "躺",
+    "睡", "醒", "等", "找", "追", "逃", "躲", "转", "回", "来", "去", "进", "出", "爬", "摇", "点", "挥",
+    "抱", "做", "干", "学", "练", "叹", "骂", "喘", "咬", "舔", "摸", "踢", "踩", "离开", "回答", "解释",
+    "思考", "观察", "注视", "凝视", "打量", "点头", "摇头", "微笑", "叹气", "起身", "转身", "开口",
+  ],
+  形容词: [
+    "好", "坏", "快", "慢", "高", "低", "大", "小", "多", "少", "长", "短", "远", "近", "冷", "热", "深",
+    "浅", "轻", "重", "美", "丑", "真", "假", "干净", "漂亮", "认真", "仔细", "清楚", "明白", "厉害",
+    "严重", "安静", "开心", "高兴", "难过", "痛快", "整齐", "彻底", "糟糕", "舒服", "辛苦", "紧张",
+  ],
+};
+const REDUPLICATION_CLASS = "叠词";
+
+/**
+ * 错别字词典解析与匹配
+ *
+ * 每行一条：[规则名] 错别词@正确词 | 条件:值1,值2 | …
+ * - 规则名可省略；错别词写成 /正则/ 时按正则匹配，替换文本可用 $1 引用分组
+ * - 条件可用 左、右、前文、后文、左词性、右词性，前加“非”表示取反；范围 限定生效的小说库；级别 可填 屏蔽、警告（默认）、提示
+ */
+export class TypoRuleCodec {
+  parseDictionary(content: string): TypoRule[] {
+    const rules: TypoRule[] = [];
+    for (const rawLine of content.split(/\r?\n/)) {
+      const rule = this.parseLine(rawLine.trim());
+      if (rule) rules.push(rule);
+    }
+    return rules;
+  }
+
+  /**
+   * 平台词典方案，每行一条：方案名 = 词典目录
+   */
+  parseProfileText(text: string): TypoProfile[] {
+    const profiles: TypoProfile[] = [];
+    for (const rawLine of text.split(/\r?\n/)) {
+      const line = rawLine.trim();
+      const separatorIndex = line.search(/[=＝]/);
+      if (separatorIndex === -1) continue;
+
+      const name = line.slice(0, separatorIndex).trim();
+      const dictionaryFolderPath = line
+        .slice(separatorIndex + 1)
+        .trim()
+        .replace(/\\/g, "/")
+        .replace(/^\/+|\/+$/g, "");
+      if (!name || !dictionaryFolderPath || profiles.some((profile) => profile.name === name)) continue;
+      profiles.push({ name, dictionaryFolderPath });
+    }
+    return profiles;
+  }
+
+  formatProfileText(profiles: TypoProfile[]): string {
+    return profiles.map((profile) => `${profile.name} = ${profile.dictionaryFolderPath}`).join("\n");
+  }
+
+  compile(rules: TypoRule[]): TypoRuleSet {
+    const literalRules = new Map<string, TypoRule>();
+    const conditionalRules: TypoRule[] = [];
+    for (const rule of rules) {
+      if (rule.literal !== null && rule.conditions.length === 0 && rule.scopes.length === 0) {
+        if (!literalRules.has(rule.literal)) literalRules.set(rule.literal, rule);
+      } else {
+        conditionalRules.push(rule);
+      }
+    }
+
+    const words = Array.from(literalRules.keys()).sort((a, b) => {
+      if (a.length !== b.length) return b.length - a.length;
+      return a.localeCompare(b, "zh-Hans-CN");
+    });
+    const literalRegex =
+      words.length > 0 ? new RegExp(words.map((word) => this.escapeRegex(word)).join("|"), "g") : null;
+    return { count: rules.length, literalRegex, literalRules, conditionalRules };
+  }
+
+  /**
+   * 查找全文命中，结果按位置升序且互不重叠；同一位置优先保留更长的命中，其次是带条件的规则
+   */
+  findMatches(ruleSet: TypoRuleSet, text: string, novelFolder: string | null): TypoRuleMatch[] {
+    const candidates: Array<{ match: TypoRuleMatch; conditional: boolean }> = [];
+
+    if (ruleSet.literalRegex) {
+      const regex = new RegExp(ruleSet.literalRegex.source, "g");
+      let match: RegExpExecArray | null;
+      while ((match = regex.exec(text)) !== null) {
+        const rule = ruleSet.literalRules.get(match[0]);
+        if (!rule) continue;
+        candidates.push({
+          match: {
+            from: match.index,
+            to: match.index + match[0].length,
+            text: match[0],
+            ruleName: rule.name,
+            severity: rule.severity,
+            replacement: rule.replacement,
+          },
+          conditional: false,
+        });
+      }
+    }
+
+    for (const rule of ruleSet.conditionalRules) {
+      if (!this.isInScope(rule, novelFolder)) continue;
+      const regex = new RegExp(rule.pattern.source, "g");
+      let match: RegExpExecArray | null;
+      while ((match = regex.exec(text)) !== null) {
+        const matched = match[0];
+        if (!matched) {
+          regex.lastIndex++;
+          continue;
+        }
+        const from = match.index;
+        const to = from + matched.length;
+        if (!this.meetsConditions(rule, text, from, to)) continue;
+        candidates.push({
+          match: {
+            from,
+            to,
+            text: matched,
+            ruleName: rule.name,
+            severity: rule.severity,
+            replacement: rule.replacement === null ? null : this.expandReplacement(rule.replacement, match),
+          },
+          conditional: true,
+        });
+      }
+    }
+
+    candidates.sort((a, b) => {
+      if (a.match.from !== b.match.from) return a.match.from - b.match.from;
+      if (a.match.to !== b.match.to) return b.match.to - a.match.to;
+      return Number(b.conditional) - Number(a.conditional);
+    });
+
+    const matches: TypoRuleMatch[] = [];
+    let lastEnd = 0;
+    for (const { match } of candidates) {
+      if (match.from < lastEnd) continue;
+      matches.push(match);
+      lastEnd = match.to;
+    }
+    return matches;
+  }
+
+  private parseLine(line: string): TypoRule | null {
+    if (!line) return null;
+
+    let rest = line;
+    let name = "";
+    const nameMatch = /^\[([^\]]+)\]\s*/.exec(rest);
+    if (nameMatch) {
+      name = (nameMatch[1] ?? "").trim();
+      rest = rest.slice(nameMatch[0].length);
+    }
+
+    let literal: string | null = null;
+    let pattern: RegExp;
+    if (rest.startsWith("/")) {
+      const end = this.findRegexEnd(rest);
+      if (end <= 1) return null;
+      try {
+        pattern = new RegExp(rest.slice(1, end), "g");
+      } catch {
+        return null;
+      }
+      rest = rest.slice(end + 1);
+    } else {
+      const end = rest.search(/[@|]/);
+      literal = (end === -1 ? rest : rest.slice(0, end)).trim();
+      if (!literal) return null;
+      pattern = new RegExp(this.escapeRegex(literal), "g");
+      rest = end === -1 ? "" : rest.slice(end);
+    }
+
+    const [replacementPart = "", ...conditionParts] = rest.split("|");
+    const replacementText = replacementPart.trim().replace(/^@/, "").trim();
+    const replacement = replacementText.length > 0 ? replacementText : null;
+
+    const conditions: TypoCondition[] = [];
+    const scopes: string[] = [];
+    let severity: TypoSeverity = "warn";
+    for (const part of conditionParts) {
+      const separator = part.search(/[:：]/);
+      if (separator === -1) continue;
+      const rawKey = part.slice(0, separator).trim();
+      const values = part
+        .slice(separator + 1)
+        .split(/[,，]/)
+        .map((value) => value.trim())
+        .filter((value) => value.length > 0);
+      if (values.length === 0) continue;
+
+      if (rawKey === SCOPE_KEY) {
+        scopes.push(...values.map((value) => value.replace(/^\/+|\/+$/g, "")));
+        continue;
+      }
+      if (rawKey === SEVERITY_KEY) {
+        severity = SEVERITY_ALIASES[(values[0] ?? "").toLowerCase()] ?? severity;
+        continue;
+      }
+      const negate = rawKey.startsWith("非");
+      const kind = CONDITION_KEYS[negate ? rawKey.slice(1) : rawKey];
+      if (kind) conditions.push({ kind, values, negate });
+    }
+
+    const source = literal ?? `/${pattern.source}/`;
+    return {
+      name: name || (replacement !== null ? `${source}→${replacement}` : source),
+      literal,
+      pattern,
+      replacement,
+      conditions,
+      scopes,
+      severity,
+      key: literal !== null && conditions.length === 0 && scopes.length === 0 ? literal : line,
+    };
+  }
+
+  /**
+   * 找到正则结尾的“/”，跳过转义字符与字符集中的“/”
+   */
+  private findRegexEnd(value: string): number {
+    let inClass = false;
+    for (let i = 1; i < value.length; i++) {
+      const ch = value[i];
+      if (ch === "\\") {
+        i++;
+      } else if (ch === "[") {
+        inClass = true;
+      } else if (ch === "]") {
+        inClass = false;
+      } else if (ch === "/" && !inClass) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  private isInScope(rule: TypoRule, novelFolder: string | null): boolean {
+    if (rule.scopes.length === 0) return true;
+    if (!novelFolder) return false;
+    const normalized = novelFolder.replace(/^\/+|\/+$/g, "");
+    const folderName = normalized.split("/").pop() ?? normalized;
+    return rule.scopes.some((scope) => scope === normalized || scope === folderName);
+  }
+
+  private meetsConditions(rule: TypoRule, text: string, from: number, to: number): boolean {
+    if (rule.conditions.length === 0) return true;
+
+    const lineStart = text.lastIndexOf("\n", from - 1) + 1;
+    const newline = text.indexOf("\n", to);
+    const lineEnd = newline === -1 ? text.length : newline;
+    const left = text.slice(lineStart, from);
+    const right = text.slice(to, lineEnd);
+
+    let sentenceStart = from;
+    while (sentenceStart > lineStart && from - sentenceStart < SENTENCE_WINDOW) {
+      if (SENTENCE_BREAK.test(text[sentenceStart - 1] ?? "")) break;
+      sentenceStart--;
+    }
+    let sentenceEnd = to;
+    while (sentenceEnd < lineEnd && sentenceEnd - to < SENTENCE_WINDOW) {
+      if (SENTENCE_BREAK.test(text[sentenceEnd] ?? "")) break;
+      sentenceEnd++;
+    }
+    const before = text.slice(sentenceStart, from);
+    const after = text.slice(to, sentenceEnd);
+
+    return rule.conditions.every((condition) => {
+      const hit = condition.values.some((value) => {
+        switch (condition.kind) {
+          case "left":
+            return left.endsWith(value);
+          case "right":
+            return right.startsWith(value);
+          case "before":
+            return before.includes(value);
+          case "after":
+            return after.includes(value);
+          case "leftClass":
+            return this.matchesWordClass(left, value, "left");
+          case "rightClass":
+            return this.matchesWordClass(right, value, "right");
+        }
+      });
+      return condition.negate ? !hit : hit;
+    });
+  }
+
+  /**
+   * 判断紧邻处是否为该词性；未知词性视为不符合
+   */
+  private matchesWordClass(context: string, wordClass: string, side: "left" | "right"): boolean {
+    if (wordClass === REDUPLICATION_CLASS) {
+      return side === "left" ? /(.)\1$/.test(context) : /^(.)\1/.test(context);
+    }
+    const words = WORD_CLASS_LEXICON[wordClass];
+    if (!words) return false;
+    return words.some((word) => (side === "left" ? context.endsWith(word) : context.startsWith(word)));
+  }
+
+  /**
+   * 展开替换文本中的 $1、$2 与 $$
+   */
+  private expandReplacement(replacement: string, match: RegExpExecArray): string {
+    return replacement.replace(/\$(\$|\d)/g, (_token, group: string) => {
+      if (group === "$") return "$";
+      return match[Number.parseInt(group, 10)] ?? "";
+    });
+  }
+
+  private escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  }
+}
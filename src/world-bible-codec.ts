@@ -0,0 +1,339 @@
+import type { H2Info } from "./types";
+import { KeywordMatchRuleCodec } from "./keyword-match-rule-codec";
+import { SettingStatusCodec } from "./setting-status-codec";
+
+/**
+ * 状态标记，如“死亡”“第120章起 失踪”
+ */
+export interface WorldBibleStatusBadge {
+  text: string;
+  dead: boolean;
+}
+
+/**
+ * 设定集中的一条设定（H2）或子设定（H3）
+ */
+export interface WorldBibleEntry {
+  title: string;
+  aliases: string[];
+  badges: WorldBibleStatusBadge[];
+  bodyLines: string[];
+  subSections: WorldBibleEntry[];
+}
+
+export interface WorldBibleCategory {
+  title: string;
+  entries: WorldBibleEntry[];
+}
+
+export interface WorldBibleFile {
+  fileName: string;
+  /** 叠加共享设定库时的来源库名 */
+  libraryLabel: string | null;
+  categories: WorldBibleCategory[];
+}
+
+export interface WorldBibleDocument {
+  title: string;
+  exportedAt: string;
+  files: WorldBibleFile[];
+}
+
+interface AliasIndexItem {
+  alias: string;
+  title: string;
+  anchor: string;
+}
+
+const ALIAS_TAG = "【别名】";
+const STATUS_TAG = "【状态】";
+const LIST_LINE_PATTERN = /^\s*[-*+]\s+/;
+
+const HTML_STYLE = `
+body { max-width: 860px; margin: 0 auto; padding: 32px 24px; font-family: -apple-system, "PingFang SC", "Microsoft YaHei", sans-serif; line-height: 1.7; color: #222; }
+h1 { border-bottom: 2px solid #ddd; padding-bottom: 8px; }
+h2 { margin-top: 48px; border-bottom: 1px solid #eee; padding-bottom: 4px; }
+h3 { margin-top: 32px; color: #555; }
+h4 { margin: 24px 0 4px; }
+h5 { margin: 16px 0 4px 16px; color: #444; }
+.meta { color: #888; font-size: 14px; }
+.library { margin-left: 8px; font-size: 13px; font-weight: normal; color: #888; }
+.badge { display: inline-block; margin-left: 6px; padding: 0 6px; border-radius: 4px; font-size: 12px; font-weight: normal; color: #fff; background: #4a86e9; vertical-align: middle; }
+.badge.dead { background: #999; }
+.aliases { color: #666; font-size: 14px; }
+.sub-section { margin-left: 16px; }
+nav.toc ul { list-style: none; padding-left: 16px; }
+nav.toc a, .alias-index a { color: #2f6fd6; text-decoration: none; }
+table.alias-index { border-collapse: collapse; }
+table.alias-index td, table.alias-index th { border: 1px solid #ddd; padding: 4px 12px; text-align: left; }
+`;
+
+/**
+ * 设定集导出：将设定库的解析结构整理为一份 Markdown 或独立 HTML 文档
+ */
+export class WorldBibleCodec {
+  private statusCodec = new SettingStatusCodec();
+  private matchRuleCodec = new KeywordMatchRuleCodec();
+
+  /**
+   * 由 FileParser 解析出的 H2 生成设定条目（H3 拆为子设定）
+   */
+  buildEntry(h2: H2Info): WorldBibleEntry {
+    const ownLines: string[] = [];
+    const subSections: Array<{ title: string; lines: string[] }> = [];
+    for (const line of h2.content) {
+      const trimmed = line.trim();
+      if (trimmed.startsWith("### ") && !trimmed.startsWith("#### ")) {
+        subSections.push({ title: trimmed.slice(4).trim(), lines: [] });
+        continue;
+      }
+      const current = subSections[subSections.length - 1];
+      (current ? current.lines : ownLines).push(line);
+    }
+
+    return {
+      ...this.buildSection(h2.text.trim(), ownLines),
+      subSections: subSections
+        .filter((section) => section.title)
+        .map((section) => this.buildSection(section.title, section.lines)),
+    };
+  }
+
+  toMarkdown(doc: WorldBibleDocument): string {
+    const blocks: string[] = [`# ${doc.title}`, `> 导出于 ${doc.exportedAt}，共 ${this.countEntries(doc)} 条设定`];
+    const aliasIndex: AliasIndexItem[] = [];
+
+    const tocLines: string[] = [];
+    this.walk(doc, {
+      file: (file, anchor) => tocLines.push(`- [${this.formatFileTitle(file)}](#${anchor})`),
+      category: (category, anchor, entries) => {
+        const entryLinks = entries.map(({ entry, anchor: entryAnchor }) => `[${entry.title}](#${entryAnchor})`);
+        tocLines.push(`  - [${category.title}](#${anchor})${entryLinks.length > 0 ? `：${entryLinks.join("、")}` : ""}`);
+      },
+    });
+    blocks.push("## 目录", tocLines.join("\n"));
+
+    this.walk(doc, {
+      file: (file, anchor) => {
+        blocks.push(`<a id="${anchor}"></a>\n\n## ${this.formatFileTitle(file)}`);
+      },
+      category: (category, anchor) => {
+        blocks.push(`<a id="${anchor}"></a>\n\n### ${category.title}`);
+      },
+      entry: (entry, anchor, level) => {
+        const heading = `${"#".repeat(level)} ${entry.title}${entry.badges
+          .map((badge) => ` \`${badge.text}\``)
+          .join("")}`;
+        blocks.push(`<a id="${anchor}"></a>\n\n${heading}`);
+        if (entry.aliases.length > 0) {
+          blocks.push(`别名：${entry.aliases.join("、")}`);
+        }
+        blocks.push(...this.groupBodyLines(entry.bodyLines).map((group) => group.join("\n")));
+        for (const alias of entry.aliases) {
+          aliasIndex.push({ alias, title: entry.title, anchor });
+        }
+      },
+    });
+
+    if (aliasIndex.length > 0) {
+      const escapeCell = (text: string) => text.replace(/\|/g, "\\|");
+      blocks.push(
+        "## 别名索引",
+        [
+          "| 别名 | 设定 |",
+          "| --- | --- |",
+          ...this.sortAliasIndex(aliasIndex).map(
+            (item) => `| ${escapeCell(item.alias)} | [${escapeCell(item.title)}](#${item.anchor}) |`
+          ),
+        ].join("\n")
+      );
+    }
+
+    return `${blocks.join("\n\n")}\n`;
+  }
+
+  toHtml(doc: WorldBibleDocument): string {
+    const escape = (text: string) => this.escapeHtml(text);
+    const body: string[] = [
+      `<h1>${escape(doc.title)}</h1>`,
+      `<p class="meta">导出于 ${escape(doc.exportedAt)}，共 ${this.countEntries(doc)} 条设定</p>`,
+    ];
+    const aliasIndex: AliasIndexItem[] = [];
+
+    const toc: string[] = [];
+    this.walk(doc, {
+      file: (file, anchor) => {
+        if (toc.length > 0) toc.push("</ul></li>");
+        toc.push(`<li><a href="#${anchor}">${escape(this.formatFileTitle(file))}</a><ul>`);
+      },
+      category: (category, anchor, entries) => {
+        const entryLinks = entries
+          .map(({ entry, anchor: entryAnchor }) => `<a href="#${entryAnchor}">${escape(entry.title)}</a>`)
+          .join("、");
+        toc.push(`<li><a href="#${anchor}">${escape(category.title)}</a>${entryLinks ? `：${entryLinks}` : ""}</li>`);
+      },
+    });
+    if (toc.length > 0) toc.push("</ul></li>");
+    body.push(`<nav class="toc"><h2>目录</h2><ul>${toc.join("")}</ul></nav>`);
+
+    this.walk(doc, {
+      file: (file, anchor) => {
+        const library = file.libraryLabel ? `<span class="library">${escape(file.libraryLabel)}</span>` : "";
+        body.push(`<h2 id="${anchor}">${escape(file.fileName)}${library}</h2>`);
+      },
+      category: (category, anchor) => {
+        body.push(`<h3 id="${anchor}">${escape(category.title)}</h3>`);
+      },
+      entry: (entry, anchor, level) => {
+        const badges = entry.badges
+          .map((badge) => `<span class="badge${badge.dead ? " dead" : ""}">${escape(badge.text)}</span>`)
+          .join("");
+        const parts = [`<h${level} id="${anchor}">${escape(entry.title)}${badges}</h${level}>`];
+        if (entry.aliases.length > 0) {
+          parts.push(`<p class="aliases">别名：${escape(entry.aliases.join("、"))}</p>`);
+        }
+        for (const group of this.groupBodyLines(entry.bodyLines)) {
+          if (LIST_LINE_PATTERN.test(group[0] ?? "")) {
+            const items = group.map((line) => `<li>${escape(line.replace(LIST_LINE_PATTERN, ""))}</li>`);
+            parts.push(`<ul>${items.join("")}</ul>`);
+          } else {
+            parts.push(`<p>${group.map((line) => escape(line.trim())).join("<br>")}</p>`);
+          }
+        }
+        body.push(level > 4 ? `<div class="sub-section">${parts.join("\n")}</div>` : parts.join("\n"));
+        for (const alias of entry.aliases) {
+          aliasIndex.push({ alias, title: entry.title, anchor });
+        }
+      },
+    });
+
+    if (aliasIndex.length > 0) {
+      const rows = this.sortAliasIndex(aliasIndex).map(
+        (item) => `<tr><td>${escape(item.alias)}</td><td><a href="#${item.anchor}">${escape(item.title)}</a></td></tr>`
+      );
+      body.push(
+        `<h2>别名索引</h2>`,
+        `<table class="alias-index"><thead><tr><th>别名</th><th>设定</th></tr></thead><tbody>${rows.join("")}</tbody></table>`
+      );
+    }
+
+    return [
+      "<!DOCTYPE html>",
+      `<html lang="zh-CN">`,
+      "<head>",
+      `<meta charset="utf-8">`,
+      `<meta name="viewport" content="width=device-width, initial-scale=1">`,
+      `<title>${escape(doc.title)}</title>`,
+      `<style>${HTML_STYLE}</style>`,
+      "</head>",
+      "<body>",
+      ...body,
+      "</body>",
+      "</html>",
+      "",
+    ].join("\n");
+  }
+
+  private buildSection(title: string, lines: string[]): WorldBibleEntry {
+    const aliases: string[] = [];
+    for (const line of lines) {
+      const aliasIndex = line.indexOf(ALIAS_TAG);
+      if (aliasIndex === -1) continue;
+      for (const alias of line.slice(aliasIndex + ALIAS_TAG.length).split(/[，,]/)) {
+        const trimmed = alias.trim();
+        if (trimmed && !aliases.includes(trimmed)) aliases.push(trimmed);
+      }
+    }
+
+    const badges = this.statusCodec.parseTimeline(lines).map((entry) => ({
+      text: entry.fromChapter === null ? entry.text : `第${entry.fromChapter}章起 ${entry.text}`,
+      dead: entry.statuses.some((status) => this.statusCodec.isDeadStatus(status)),
+    }));
+
+    const bodyLines = lines
+      .filter((line) => line.trim().length > 0)
+      .filter((line) => !line.includes(ALIAS_TAG) && !line.includes(STATUS_TAG))
+      .filter((line) => !this.matchRuleCodec.isRuleLine(line))
+      // 更低级的标题在设定集中降为加粗文本，避免打乱文档层级
+      .map((line) => line.trimEnd().replace(/^\s*#{4,6}\s+(.+)$/, "**$1**"));
+
+    return { title, aliases, badges, bodyLines, subSections: [] };
+  }
+
+  /**
+   * 按文件、分类、设定的顺序遍历，并为每一级生成锚点
+   */
+  private walk(
+    doc: WorldBibleDocument,
+    visitor: {
+      file?: (file: WorldBibleFile, anchor: string) => void;
+      category?: (
+        category: WorldBibleCategory,
+        anchor: string,
+        entries: Array<{ entry: WorldBibleEntry; anchor: string }>
+      ) => void;
+      entry?: (entry: WorldBibleEntry, anchor: string, level: number) => void;
+    }
+  ): void {
+    doc.files.forEach((file, fileIndex) => {
+      const fileAnchor = `cw-file-${fileIndex + 1}`;
+      visitor.file?.(file, fileAnchor);
+      file.categories.forEach((category, categoryIndex) => {
+        const categoryAnchor = `${fileAnchor}-${categoryIndex + 1}`;
+        const entries = category.entries.map((entry, entryIndex) => ({
+          entry,
+          anchor: `${categoryAnchor}-${entryIndex + 1}`,
+        }));
+        visitor.category?.(category, categoryAnchor, entries);
+        for (const { entry, anchor } of entries) {
+          visitor.entry?.(entry, anchor, 4);
+          entry.subSections.forEach((section, sectionIndex) => {
+            visitor.entry?.(section, `${anchor}-${sectionIndex + 1}`, 5);
+          });
+        }
+      });
+    });
+  }
+
+  /**
+   * 正文按段分组：连续的列表行为一组，其余每行单独成段
+   */
+  private groupBodyLines(lines: string[]): string[][] {
+    const groups: string[][] = [];
+    let previousIsList = false;
+    for (const line of lines) {
+      const isList = LIST_LINE_PATTERN.test(line);
+      const lastGroup = groups[groups.length - 1];
+      if (isList && previousIsList && lastGroup) {
+        lastGroup.push(line);
+      } else {
+        groups.push([line]);
+      }
+      previousIsList = isList;
+    }
+    return groups;
+  }
+
+  private sortAliasIndex(items: AliasIndexItem[]): AliasIndexItem[] {
+    return [...items].sort((a, b) => a.alias.localeCompare(b.alias, "zh-Hans-CN"));
+  }
+
+  private countEntries(doc: WorldBibleDocument): number {
+    return doc.files.reduce(
+      (sum, file) => sum + file.categories.reduce((count, category) => count + category.entries.length, 0),
+      0
+    );
+  }
+
+  private formatFileTitle(file: WorldBibleFile): string {
+    return file.libraryLabel ? `${file.fileName}（${file.libraryLabel}）` : file.fileName;
+  }
+
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;");
+  }
+}
@@ -0,0 +1,157 @@
+import { Notice, TFile, normalizePath } from "obsidian";
+import type ChineseWriterPlugin from "./main";
+import { ConfirmModal } from "./modals";
+import type { FileParseResult } from "./types";
+import { WorldBibleCodec, type WorldBibleDocument } from "./world-bible-codec";
+
+/**
+ * 设定集导出管理器
+ */
+export class WorldBibleExporter {
+  private plugin: ChineseWriterPlugin;
+  private codec = new WorldBibleCodec();
+
+  constructor(plugin: ChineseWriterPlugin) {
+    this.plugin = plugin;
+  }
+
+  async exportActiveSettingFolder(format: "markdown" | "html"): Promise<void> {
+    const activeFile = this.plugin.app.workspace.getActiveFile();
+    const settingFolder = activeFile
+      ? this.plugin.highlightManager.getSettingFolderForContextFile(activeFile.path)
+      : null;
+    if (!settingFolder) {
+      new Notice("请先打开小说库或设定库中的文件");
+      return;
+    }
+
+    try {
+      const doc = await this.buildDocument(settingFolder);
+      if (doc.files.length === 0) {
+        new Notice("设定库中没有可导出的设定");
+        return;
+      }
+
+      const content = format === "html" ? this.codec.toHtml(doc) : this.codec.toMarkdown(doc);
+      const outputPath = this.getOutputPath(settingFolder, format === "html" ? "html" : "md");
+      const existing = this.plugin.app.vault.getAbstractFileByPath(outputPath);
+      if (existing instanceof TFile) {
+        // 已有的设定集可能被手动修改过，覆盖前需确认
+        new ConfirmModal(
+          this.plugin.app,
+          "覆盖设定集",
+          `“${outputPath}”已存在，导出将覆盖其中的内容（包括手动修改），是否继续？`,
+          () => {
+            void this.writeOutput(outputPath, content, format);
+          }
+        ).open();
+        return;
+      }
+      await this.writeOutput(outputPath, content, format);
+    } catch (error) {
+      console.error("Failed to export world bible:", error);
+      new Notice("导出设定集失败，请重试");
+    }
+  }
+
+  private async writeOutput(outputPath: string, content: string, format: "markdown" | "html"): Promise<void> {
+    try {
+      const existing = this.plugin.app.vault.getAbstractFileByPath(outputPath);
+      let outputFile: TFile;
+      if (existing instanceof TFile) {
+        await this.plugin.app.vault.modify(existing, content);
+        outputFile = existing;
+      } else {
+        outputFile = await this.plugin.app.vault.create(outputPath, content);
+      }
+
+      if (format === "markdown") {
+        await this.plugin.openFileWithSettings(outputFile);
+      }
+      new Notice(`设定集已导出：${outputPath}`);
+    } catch (error) {
+      console.error("Failed to write world bible:", error);
+      new Notice("导出设定集失败，请重试");
+    }
+  }
+
+  /**
+   * 按右边栏设定视图的顺序整理：设定库优先级、文件排序，再按文件内 H1 / H2 顺序
+   * 被高优先级设定库覆盖的同名设定不导出
+   */
+  private async buildDocument(settingFolder: string): Promise<WorldBibleDocument> {
+    const highlightManager = this.plugin.highlightManager;
+    const libraryFolders = highlightManager.getSettingLibraryFolders(settingFolder);
+    const getLibraryIndex = (filePath: string) =>
+      libraryFolders.findIndex((folder) => filePath.startsWith(`${folder}/`));
+
+    const files = highlightManager.getSettingLibraryFiles(settingFolder);
+    const parsedList = await Promise.all(files.map((file) => this.plugin.parser.parseFile(file)));
+    const parseResults = parsedList
+      .filter((item): item is FileParseResult => item !== null)
+      .sort((a, b) => {
+        const libraryDiff = getLibraryIndex(a.filePath) - getLibraryIndex(b.filePath);
+        if (libraryDiff !== 0) return libraryDiff;
+        return this.plugin.orderManager.compareFileOrder(a.filePath, b.filePath);
+      });
+
+    // H2 标题 -> 定义它的设定库序号
+    const h2LibraryIndex = new Map<string, number>();
+    const doc: WorldBibleDocument = {
+      title: `${settingFolder.split("/").pop() || settingFolder} 设定集`,
+      exportedAt: this.formatTimestamp(Date.now()),
+      files: [],
+    };
+    for (const parseResult of parseResults) {
+      const libraryIndex = getLibraryIndex(parseResult.filePath);
+      const libraryFolder = libraryFolders[libraryIndex] ?? settingFolder;
+      const categories = parseResult.h1List
+        .map((h1) => ({
+          title: h1.text,
+          entries: h1.h2List
+            .filter((h2) => {
+              const title = h2.text.trim();
+              const definedInLibrary = h2LibraryIndex.get(title);
+              if (!title || (definedInLibrary !== undefined && definedInLibrary < libraryIndex)) return false;
+              h2LibraryIndex.set(title, libraryIndex);
+              return true;
+            })
+            .map((h2) => this.codec.buildEntry(h2)),
+        }))
+        .filter((category) => category.entries.length > 0);
+      if (categories.length === 0) continue;
+
+      doc.files.push({
+        fileName: parseResult.fileName,
+        libraryLabel: highlightManager.getLibraryLabel(settingFolder, libraryFolder),
+        categories,
+      });
+    }
+    return doc;
+  }
+
+  /**
+   * 导出文件放在设定库旁边；若该位置属于小说库或设定库，则放在仓库根目录，避免被当作章节或设定解析
+   */
+  private getOutputPath(settingFolder: string, extension: string): string {
+    const folderName = settingFolder.split("/").pop() || settingFolder;
+    const parentPath = settingFolder.split("/").slice(0, -1).join("/");
+    const isManagedFolder = this.plugin.settings.folderMappings.some((mapping) =>
+      [mapping.novelFolder, ...this.plugin.highlightManager.getSettingLibraryFolders(mapping.settingFolder)]
+        .filter((folder) => folder)
+        .some((folder) => parentPath === folder || parentPath.startsWith(`${folder}/`))
+    );
+    const fileName = `${folderName}-设定集.${extension}`;
+    return normalizePath(parentPath && !isManagedFolder ? `${parentPath}/${fileName}` : fileName);
+  }
+
+  private formatTimestamp(timestamp: number): string {
+    const date = new Date(timestamp);
+    const year = String(date.getFullYear());
+    const month = String(date.getMonth() + 1).padStart(2, "0");
+    const day = String(date.getDate()).padStart(2, "0");
+    const hour = String(date.getHours()).padStart(2, "0");
+    const minute = String(date.getMinutes()).padStart(2, "0");
+    return `${year}-${month}-${day} ${hour}:${minute}`;
+  }
+}